@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../simulation/simulation';
+import { GenerationStats } from '../simulation/statistics';
+import { runBatch, stopReason } from './batch';
+import { statsToCsv } from './metrics';
+
+const stats = (bestFitness: number, reachedGoal: number) => ({ bestFitness, reachedGoal }) as GenerationStats;
+const conditions = { generations: 10, targetFitness: null, targetReachRate: null };
+
+describe('stopReason', () => {
+  it('should stop after the maximum number of generations', () => {
+    expect(stopReason(stats(0, 0), 9, 100, conditions)).toBeNull();
+    expect(stopReason(stats(0, 0), 10, 100, conditions)).toBe('generations');
+  });
+
+  it('should stop once a target is reached', () => {
+    expect(stopReason(stats(0.5, 0), 1, 100, { ...conditions, targetFitness: 0.5 })).toBe('target-fitness');
+    expect(stopReason(stats(0, 49), 1, 100, { ...conditions, targetReachRate: 0.5 })).toBeNull();
+    expect(stopReason(stats(0, 50), 1, 100, { ...conditions, targetReachRate: 0.5 })).toBe('target-reach-rate');
+  });
+});
+
+describe('runBatch', () => {
+  it('should run generations until a stop condition is met', () => {
+    const simulation = new Simulation({ populationSize: 10, energy: 30, seed: 1 });
+    const seen: number[] = [];
+    const reason = runBatch(simulation, { ...conditions, generations: 3 }, (stats) => seen.push(stats.generation));
+    expect(reason).toBe('generations');
+    expect(seen).toEqual([1, 2, 3]);
+    expect(simulation.generation).toBe(4);
+  });
+});
+
+describe('statsToCsv', () => {
+  it('should write a header and one row per generation', () => {
+    const simulation = new Simulation({ populationSize: 10, energy: 30, seed: 1 });
+    simulation.runGenerations(2);
+    const lines = statsToCsv(simulation.history).trim().split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0].split(',')[0]).toBe('generation');
+    expect(lines[1].split(',')).toHaveLength(lines[0].split(',').length);
+    expect(lines[2].startsWith('2,')).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { Simulation } from '../simulation/simulation';
+import { GenerationStats } from '../simulation/statistics';
+
+export type StopReason = 'generations' | 'target-fitness' | 'target-reach-rate';
+
+export interface StopConditions {
+  generations: number;
+  targetFitness: number | null;
+  targetReachRate: number | null;
+}
+
+/**
+ * Returns why a run should stop after a generation with the given statistics, or null if it should continue.
+ * @param stats - statistics of the generation that just evolved
+ * @param generationsRun - number of generations run so far
+ * @param populationSize
+ * @param conditions
+ */
+export const stopReason = (
+  stats: GenerationStats,
+  generationsRun: number,
+  populationSize: number,
+  conditions: StopConditions,
+): StopReason | null => {
+  if (conditions.targetFitness !== null && stats.bestFitness >= conditions.targetFitness) return 'target-fitness';
+  if (conditions.targetReachRate !== null && stats.reachedGoal / populationSize >= conditions.targetReachRate) {
+    return 'target-reach-rate';
+  }
+  if (generationsRun >= conditions.generations) return 'generations';
+  return null;
+};
+
+/**
+ * Run generations of a simulation until one of the stop conditions is met. Returns why the run stopped.
+ * @param simulation
+ * @param conditions
+ * @param onGeneration - called with the statistics of every generation as it evolves
+ */
+export const runBatch = (
+  simulation: Simulation,
+  conditions: StopConditions,
+  onGeneration: (stats: GenerationStats) => void = () => undefined,
+): StopReason => {
+  for (let generationsRun = 1; ; generationsRun++) {
+    simulation.runGeneration();
+    const stats = simulation.history[simulation.history.length - 1];
+    onGeneration(stats);
+    const reason = stopReason(stats, generationsRun, simulation.config.populationSize, conditions);
+    if (reason) return reason;
+  }
+};
@@ -0,0 +1,33 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { Simulation } from '../simulation/simulation';
+import { parseCliArgs, usage } from './options';
+import { runBatch } from './batch';
+import { formatProgress, statsToCsv } from './metrics';
+
+// entry point of the command line interface, run with npm run cli -- [options]
+try {
+  const options = parseCliArgs(process.argv.slice(2), (path) => readFileSync(path, 'utf8'));
+  if (options.help) {
+    console.log(usage);
+    process.exit(0);
+  }
+
+  const simulation = new Simulation(options.config);
+  const log = (message: string) => {
+    if (!options.quiet) console.log(message);
+  };
+  log(`seed ${simulation.config.seed}, population ${simulation.config.populationSize}`);
+
+  const reason = runBatch(simulation, options, (stats) => log(formatProgress(stats, simulation.config.populationSize)));
+  log(`stopped after ${simulation.history.length} generations: ${reason}`);
+
+  if (options.csv) writeFileSync(options.csv, statsToCsv(simulation.history));
+  if (options.json) {
+    const result = { config: simulation.config, stopReason: reason, history: simulation.history };
+    writeFileSync(options.json, JSON.stringify(result, null, 2));
+  }
+} catch (error) {
+  console.error((error as Error).message);
+  console.error('Run with --help to see the options');
+  process.exit(1);
+}
@@ -0,0 +1,34 @@
+import { GenerationStats } from '../simulation/statistics';
+
+const columns: (keyof GenerationStats)[] = [
+  'generation',
+  'bestFitness',
+  'meanFitness',
+  'medianFitness',
+  'worstFitness',
+  'reachedGoal',
+  'virusDeaths',
+  'wallDeaths',
+  'energyDeaths',
+  'diversity',
+  'bestStepsToGoal',
+  'mutationRate',
+  'species',
+];
+
+/**
+ * Returns the statistics of every generation as CSV with a header row, missing values are empty.
+ * @param history
+ */
+export const statsToCsv = (history: GenerationStats[]) =>
+  [columns.join(','), ...history.map((stats) => columns.map((column) => stats[column] ?? '').join(','))].join('\n') +
+  '\n';
+
+/**
+ * Returns a one line summary of a generation for printing progress.
+ * @param stats
+ * @param populationSize
+ */
+export const formatProgress = (stats: GenerationStats, populationSize: number) =>
+  `generation ${stats.generation}: best fitness ${stats.bestFitness.toPrecision(4)}, ` +
+  `mean ${stats.meanFitness.toPrecision(4)}, reached goal ${stats.reachedGoal}/${populationSize}`;
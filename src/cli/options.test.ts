@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { parseCliArgs } from './options';
+
+const files: Record<string, string> = {
+  'run.json': JSON.stringify({ populationSize: 30, mutationRate: 0.1, generations: 20, csv: 'out.csv', seed: 5 }),
+  'layout.json': JSON.stringify({ start: [10, 90], goal: [10, 10], viruses: [[50, 50]] }),
+  'text-seed.json': JSON.stringify({ seed: 'abc' }),
+  'truncation.json': JSON.stringify({ selection: 'truncation', truncationRate: 1.5 }),
+};
+const readFile = (path: string) => {
+  if (!Object.prototype.hasOwnProperty.call(files, path)) throw new Error(`no such file ${path}`);
+  return files[path];
+};
+
+describe('parseCliArgs', () => {
+  it('should use the defaults without any arguments', () => {
+    const options = parseCliArgs([], readFile);
+    expect(options.generations).toBe(100);
+    expect(options.config.populationSize).toBe(1000);
+    expect(options.targetFitness).toBeNull();
+    expect(options.csv).toBeNull();
+    expect(typeof options.config.seed).toBe('number');
+  });
+
+  it('should read flags', () => {
+    const options = parseCliArgs(
+      ['--generations', '5', '--population', '40', '--seed', 'abc', '--selection', 'tournament', '--quiet'],
+      readFile,
+    );
+    expect(options.generations).toBe(5);
+    expect(options.config.populationSize).toBe(40);
+    expect(options.config.selection).toBe('tournament');
+    expect(options.config.seed).toBe(parseCliArgs(['--seed', 'abc'], readFile).config.seed);
+    expect(options.quiet).toBe(true);
+  });
+
+  it('should let flags override a config file', () => {
+    const options = parseCliArgs(['--config', 'run.json', '--mutation-rate', '0.2'], readFile);
+    expect(options.config.populationSize).toBe(30);
+    expect(options.config.mutationRate).toBe(0.2);
+    expect(options.config.seed).toBe(5);
+    expect(options.generations).toBe(20);
+    expect(options.csv).toBe('out.csv');
+  });
+
+  it('should read text seeds from a config file like the seed flag', () => {
+    expect(parseCliArgs(['--config', 'text-seed.json'], readFile).config.seed).toBe(
+      parseCliArgs(['--seed', 'abc'], readFile).config.seed,
+    );
+  });
+
+  it('should load built in layouts and layout files', () => {
+    expect(parseCliArgs(['--layout', 'barrier'], readFile).config.layout?.walls).toHaveLength(1);
+    expect(parseCliArgs(['--layout', 'layout.json'], readFile).config.layout).toEqual({
+      start: [10, 90],
+      goals: [[10, 10]], // layouts with a single goal are still accepted
+      goalOrder: 'sequence',
+      goalPaths: [],
+      viruses: [[50, 50]],
+      walls: [],
+    });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseCliArgs(['--population', 'many'], readFile)).toThrow('--population should be a number');
+    expect(() => parseCliArgs(['--crossover', 'none'], readFile)).toThrow('config.crossover should be one of');
+    expect(() => parseCliArgs(['--config', 'missing.json'], readFile)).toThrow('Could not read config file');
+    expect(() => parseCliArgs(['--unknown'], readFile)).toThrow();
+  });
+
+  it('should reject values out of range', () => {
+    expect(() => parseCliArgs(['--population', '0'], readFile)).toThrow(
+      'config.populationSize should be a whole number of at least 1',
+    );
+    expect(() => parseCliArgs(['--population=-5'], readFile)).toThrow('config.populationSize');
+    expect(() => parseCliArgs(['--energy', '2.5'], readFile)).toThrow('config.energy should be a whole number');
+    expect(() => parseCliArgs(['--mutation-rate', '2'], readFile)).toThrow(
+      'config.mutationRate should be a number from 0 to 1',
+    );
+    expect(() => parseCliArgs(['--config', 'truncation.json'], readFile)).toThrow(
+      'config.truncationRate should be a number from 0 to 1',
+    );
+  });
+
+  it('should only treat the names of built in layouts as built in', () => {
+    expect(() => parseCliArgs(['--layout', 'constructor'], readFile)).toThrow('no such file constructor');
+  });
+});
@@ -0,0 +1,162 @@
+import { parseArgs } from 'node:util';
+import { SimulationConfig, defaultConfig } from '../simulation/simulation';
+import { checkConfig, checkLayout } from '../simulation/persistence';
+import { builtInLayouts, findBuiltInLayout } from '../simulation/layout';
+import { parseSeed, randomSeed } from '../utils/random';
+
+export interface CliOptions {
+  config: SimulationConfig;
+  generations: number; // maximum number of generations to run
+  targetFitness: number | null; // stop once the best fitness of a generation reaches this
+  targetReachRate: number | null; // stop once this fraction of a generation reaches the goal
+  csv: string | null; // file the statistics of every generation are written to as CSV
+  json: string | null; // file the statistics of every generation are written to as JSON
+  quiet: boolean; // do not print progress
+  help: boolean;
+}
+
+export const usage = `Usage: npm run cli -- [options]
+
+Runs the simulation without a browser and writes the statistics of every generation.
+
+Options:
+  --config <file>          JSON file with any simulation config values and the options below in camelCase
+  --generations <n>        maximum number of generations to run (default 100)
+  --target-fitness <x>     stop once the best fitness of a generation reaches x
+  --target-reach-rate <x>  stop once a fraction x of the population reaches the goal in one generation
+  --population <n>         number of cells in the population
+  --mutation-rate <x>      chance that each direction or weight is mutated
+  --mutation <name>        mutation operator for directions
+  --mutation-schedule <s>  constant, decay, stall or self-adaptive
+  --seed <seed>            seed of the random number generator, a number or any text
+  --layout <name|file>     built in layout (${Object.keys(builtInLayouts).join(', ')}) or a JSON layout file
+  --crossover <name>       crossover operator
+  --crossover-rate <x>     chance that a child has two parents
+  --selection <name>       selection strategy
+  --replacement <name>     generational, steady-state, mu-plus-lambda or mu-comma-lambda
+  --elites <n>             number of the fittest cells copied unchanged into the next generation
+  --immigration <x>        fraction of each generation that are random newcomers
+  --niching <name>         none, sharing, speciation or crowding
+  --brain <name>           directions or neural
+  --energy <n>             number of moves each cell can make
+  --viruses <n>            number of random viruses when there is no layout
+  --randomize-goals        move the goals to random positions every generation
+  --randomize-viruses      move the viruses to random positions every generation
+  --csv <file>             write per generation statistics as CSV
+  --json <file>            write per generation statistics as JSON
+  --quiet                  do not print progress
+  --help                   show this message
+`;
+
+/**
+ * Flags that set a numeric config value.
+ */
+const numericFlags = {
+  population: 'populationSize',
+  'mutation-rate': 'mutationRate',
+  'crossover-rate': 'crossoverRate',
+  elites: 'eliteCount',
+  immigration: 'immigrationRate',
+  energy: 'energy',
+  viruses: 'numOfViruses',
+} as const;
+
+/**
+ * Returns the value of a flag as a number, throws an error if it is not one.
+ */
+const toNumber = (value: unknown, name: string) => {
+  const number = Number(value);
+  if (typeof value === 'boolean' || value === '' || value === null || !Number.isFinite(number)) {
+    throw new Error(`--${name} should be a number`);
+  }
+  return number;
+};
+
+/**
+ * Returns the options for a batch run from command line arguments. A config file is read first and flags override the
+ * values in it.
+ * @param args - arguments after the script name
+ * @param readFile - returns the text of a file, used for the config file and layout files
+ */
+export const parseCliArgs = (args: string[], readFile: (path: string) => string): CliOptions => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: 'string' },
+      generations: { type: 'string' },
+      'target-fitness': { type: 'string' },
+      'target-reach-rate': { type: 'string' },
+      population: { type: 'string' },
+      'mutation-rate': { type: 'string' },
+      mutation: { type: 'string' },
+      'mutation-schedule': { type: 'string' },
+      seed: { type: 'string' },
+      layout: { type: 'string' },
+      crossover: { type: 'string' },
+      'crossover-rate': { type: 'string' },
+      selection: { type: 'string' },
+      replacement: { type: 'string' },
+      elites: { type: 'string' },
+      immigration: { type: 'string' },
+      niching: { type: 'string' },
+      brain: { type: 'string' },
+      energy: { type: 'string' },
+      viruses: { type: 'string' },
+      'randomize-goals': { type: 'boolean' },
+      'randomize-viruses': { type: 'boolean' },
+      csv: { type: 'string' },
+      json: { type: 'string' },
+      quiet: { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  let file: Record<string, unknown> = {};
+  if (values.config) {
+    try {
+      file = JSON.parse(readFile(values.config));
+    } catch (error) {
+      throw new Error(`Could not read config file ${values.config}: ${(error as Error).message}`);
+    }
+  }
+  const { generations, targetFitness, targetReachRate, csv, json, quiet, ...fileConfig } = file;
+
+  const config: Record<string, unknown> = { ...defaultConfig, ...fileConfig };
+  const fileSeed =
+    typeof fileConfig.seed === 'number' || typeof fileConfig.seed === 'string'
+      ? parseSeed(String(fileConfig.seed))
+      : fileConfig.seed;
+  config.seed = parseSeed(values.seed) ?? fileSeed ?? randomSeed();
+  for (const [flag, key] of Object.entries(numericFlags)) {
+    const value = values[flag as keyof typeof numericFlags];
+    if (value !== undefined) config[key] = toNumber(value, flag);
+  }
+  if (values.mutation !== undefined) config.mutation = values.mutation;
+  if (values['mutation-schedule'] !== undefined) config.mutationSchedule = values['mutation-schedule'];
+  if (values.crossover !== undefined) config.crossover = values.crossover;
+  if (values.selection !== undefined) config.selection = values.selection;
+  if (values.replacement !== undefined) config.replacement = values.replacement;
+  if (values.niching !== undefined) config.niching = values.niching;
+  if (values.brain !== undefined) config.brain = values.brain;
+  if (values['randomize-goals']) config.randomizeGoals = true;
+  if (values['randomize-viruses']) config.randomizeViruses = true;
+  if (values.layout !== undefined) {
+    const layout = findBuiltInLayout(values.layout);
+    config.layout = layout
+      ? layout(config.width as number, config.height as number)
+      : checkLayout(JSON.parse(readFile(values.layout)), values.layout);
+  }
+
+  const optional = (value: unknown, name: string) =>
+    value === undefined || value === null ? null : toNumber(value, name);
+  return {
+    config: checkConfig(config, 'config'),
+    generations: toNumber(values.generations ?? generations ?? 100, 'generations'),
+    targetFitness: optional(values['target-fitness'] ?? targetFitness, 'target-fitness'),
+    targetReachRate: optional(values['target-reach-rate'] ?? targetReachRate, 'target-reach-rate'),
+    csv: values.csv ?? (typeof csv === 'string' ? csv : null),
+    json: values.json ?? (typeof json === 'string' ? json : null),
+    quiet: values.quiet ?? quiet === true,
+    help: values.help ?? false,
+  };
+};
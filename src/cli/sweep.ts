@@ -0,0 +1,61 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { parseExperimentSpec, runExperiment } from '../experiment/experiment';
+import { formatComparisonTable, reportToCsv } from '../experiment/report';
+
+const usage = `Usage: npm run sweep -- --config <file> [options]
+
+Runs every combination of a parameter grid with several seeds and prints a table comparing the configurations.
+
+The experiment file is JSON, i.e.
+  { "base": { "populationSize": 200 }, "grid": { "mutationRate": [0.01, 0.05] }, "seeds": 5, "generations": 50 }
+
+Options:
+  --config <file>      experiment file
+  --seeds <n>          run each configuration with seeds 1 to n instead of the seeds in the file
+  --generations <n>    number of generations each run lasts instead of the number in the file
+  --csv <file>         write the aggregated results as CSV
+  --json <file>        write the full report, including every run, as JSON
+  --quiet              do not print progress
+  --help               show this message
+`;
+
+// entry point of the parameter sweep, run with npm run sweep -- --config experiment.json
+try {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      config: { type: 'string' },
+      seeds: { type: 'string' },
+      generations: { type: 'string' },
+      csv: { type: 'string' },
+      json: { type: 'string' },
+      quiet: { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+  if (values.help || !values.config) {
+    console.log(usage);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const file = JSON.parse(readFileSync(values.config, 'utf8'));
+  if (values.seeds !== undefined) file.seeds = Number(values.seeds);
+  if (values.generations !== undefined) file.generations = Number(values.generations);
+  const spec = parseExperimentSpec(file);
+
+  const report = runExperiment(spec, (parameters, run) => {
+    if (values.quiet) return;
+    const reached = run.generationsToFirstGoal === null ? 'never' : `generation ${run.generationsToFirstGoal}`;
+    console.log(
+      `${JSON.stringify(parameters)} seed ${run.seed}: first goal ${reached}, reach rate ${run.finalReachRate}`,
+    );
+  });
+  console.log(formatComparisonTable(report));
+
+  if (values.csv) writeFileSync(values.csv, reportToCsv(report));
+  if (values.json) writeFileSync(values.json, JSON.stringify(report, null, 2));
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from '../utils/vector';
+import { Random } from '../utils/random';
+import { Bacteria } from '../simulation/organism';
+import { Ecosystem } from './ecosystem';
+import { Predator } from './predator';
+
+const traits = { speed: 2, senseRadius: 50 };
+
+describe('Predator', () => {
+  it('should spend more energy per step with faster speed and larger sense radius', () => {
+    const slow = new Predator(new Vector2D(0, 0), { speed: 1, senseRadius: 50 }, 100, 0);
+    const fast = new Predator(new Vector2D(0, 0), { speed: 2, senseRadius: 50 }, 100, 0);
+    const cost = (predator: Predator) =>
+      predator.stepCost(0.5, { rate: 0.1, exponent: 2 }, { rate: 0.01, exponent: 1 });
+    expect(cost(slow)).toBeCloseTo(0.5 + 0.1 + 0.5);
+    expect(cost(fast)).toBeCloseTo(0.5 + 0.4 + 0.5);
+  });
+
+  it('should only mutate traits with the mutation rate', () => {
+    const parent = new Predator(new Vector2D(0, 0), traits, 100, 0);
+    const random = new Random(1);
+    expect(parent.reproduce(new Vector2D(0, 0), 100, 0, 0.5, random).traits).toEqual(traits);
+    const child = parent.reproduce(new Vector2D(0, 0), 100, 1, 0.5, random);
+    expect(child.traits).not.toEqual(traits);
+    expect(child.traits.speed === traits.speed || child.traits.senseRadius === traits.senseRadius).toBe(true);
+  });
+});
+
+describe('Ecosystem', () => {
+  it('should place predators on the edge and food inside the map', () => {
+    const ecosystem = new Ecosystem({ width: 200, height: 100, initialPredators: 10, foodCount: 15, seed: 1 });
+    expect(ecosystem.predators).toHaveLength(10);
+    expect(ecosystem.food).toHaveLength(15);
+    for (const predator of ecosystem.predators) {
+      expect(ecosystem.distanceToEdge(predator.position)).toBeCloseTo(0);
+    }
+    for (const food of ecosystem.food) {
+      expect(ecosystem.distanceToEdge(food.position)).toBeGreaterThan(0);
+    }
+  });
+
+  it('should chase prey within the sense radius and return home after eating two', () => {
+    const ecosystem = new Ecosystem({ width: 200, height: 200, initialPredators: 1, foodCount: 0, seed: 1 });
+    const predator = ecosystem.predators[0];
+    predator.position = new Vector2D(100, 100);
+    ecosystem.food = [new Bacteria(new Vector2D(120, 100)), new Bacteria(new Vector2D(140, 100))];
+    while (predator.eaten < 2) ecosystem.step();
+    expect(predator.state).toBe('returning');
+    expect(ecosystem.food).toHaveLength(0);
+    while (predator.state === 'returning') ecosystem.step();
+    expect(predator.state).toBe('home');
+  });
+
+  it('should let survivors live on and predators that ate two prey reproduce', () => {
+    const ecosystem = new Ecosystem({ initialPredators: 3, seed: 1 });
+    const [starved, survivor, parent] = ecosystem.predators;
+    starved.state = 'dead';
+    survivor.state = 'home';
+    survivor.eaten = 1;
+    parent.state = 'home';
+    parent.eaten = 2;
+    parent.traits = { speed: 3, senseRadius: 80 };
+    expect(ecosystem.step()).toBe(true);
+
+    expect(ecosystem.generation).toBe(2);
+    expect(ecosystem.predators).toHaveLength(3);
+    expect(ecosystem.predators.every((predator) => predator.state === 'hunting' && predator.eaten === 0)).toBe(true);
+    expect(ecosystem.history[0]).toMatchObject({ generation: 1, predators: 3, survivors: 2, births: 1, deaths: 1 });
+    expect(ecosystem.history[0].traits).toHaveLength(3);
+  });
+
+  it('should restart with the initial predators after an extinction', () => {
+    const ecosystem = new Ecosystem({ initialPredators: 4, foodCount: 0, energy: 10, seed: 1 });
+    ecosystem.runGeneration();
+    expect(ecosystem.extinctions).toBe(1);
+    expect(ecosystem.predators).toHaveLength(4);
+  });
+
+  it('should produce identical generations for the same seed', () => {
+    const a = new Ecosystem({ seed: 42 });
+    const b = new Ecosystem({ seed: 42 });
+    a.runGenerations(3);
+    b.runGenerations(3);
+    expect(a.history).toEqual(b.history);
+    expect(a.snapshot()).toEqual(b.snapshot());
+  });
+});
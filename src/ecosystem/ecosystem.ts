@@ -0,0 +1,339 @@
+import { Vector2D } from '../utils/vector';
+import { Random, randomSeed } from '../utils/random';
+import { Bacteria } from '../simulation/organism';
+import { OrganismSnapshot } from '../simulation/simulation';
+import { CostCurve, Predator, Traits } from './predator';
+
+export interface EcosystemConfig {
+  width: number;
+  height: number;
+  initialPredators: number; // number of predators in the first generation and after an extinction
+  maxPredators: number; // offspring are not born once the population reaches this size
+  foodCount: number; // number of prey (bacteria) placed each generation
+  energy: number; // energy each predator starts a generation with
+  initialTraits: Traits;
+  baseCost: number; // energy spent per step regardless of traits
+  speedCost: CostCurve;
+  senseCost: CostCurve;
+  mutationRate: number; // chance that an offspring has a mutated trait
+  mutationSize: number; // standard deviation of the fraction a mutated trait changes by
+  maxSteps: number; // a generation ends after this many steps even if some predators are still active
+  seed: number;
+}
+
+export const defaultEcosystemConfig: Omit<EcosystemConfig, 'seed'> = {
+  width: 600,
+  height: 600,
+  initialPredators: 20,
+  maxPredators: 200,
+  foodCount: 40,
+  energy: 300,
+  initialTraits: { speed: 2, senseRadius: 50 },
+  baseCost: 0.5,
+  speedCost: { rate: 0.05, exponent: 2 }, // speed is expensive, doubling speed quadruples its cost
+  senseCost: { rate: 0.004, exponent: 1 },
+  mutationRate: 0.5,
+  mutationSize: 0.15,
+  maxSteps: 2000,
+};
+
+export interface EcosystemStats {
+  generation: number;
+  predators: number; // number of predators that took part in the generation
+  survivors: number; // predators that ate at least one prey and returned to the edge
+  births: number; // offspring of predators that ate two prey and returned to the edge
+  deaths: number;
+  meanSpeed: number;
+  meanSenseRadius: number;
+  traits: Traits[]; // traits of every predator that took part, the distribution of traits over generations
+}
+
+export interface PredatorSnapshot extends OrganismSnapshot {
+  senseRadius: number;
+  vx: number;
+  vy: number;
+}
+
+export interface EcosystemSnapshot {
+  width: number;
+  height: number;
+  generation: number;
+  food: OrganismSnapshot[];
+  predators: PredatorSnapshot[];
+}
+
+export class Ecosystem {
+  config: EcosystemConfig;
+  random: Random;
+  predators: Predator[];
+  food: Bacteria[];
+  generation: number;
+  steps: number;
+  extinctions: number;
+  history: EcosystemStats[];
+
+  /**
+   * Constructor for Ecosystem, predators hunt stationary prey and must return to the edge of the map to survive. A
+   * predator that eats one prey and returns survives to the next generation, one that eats two prey and returns also
+   * reproduces one offspring with a chance of mutation to its speed or sense radius.
+   * @param config - any missing values are taken from defaultEcosystemConfig and a random seed is used if none is given
+   */
+  constructor(config: Partial<EcosystemConfig> = {}) {
+    this.config = { ...defaultEcosystemConfig, ...config, seed: config.seed ?? randomSeed() };
+    this.random = new Random(this.config.seed);
+    this.generation = 1;
+    this.steps = 0;
+    this.extinctions = 0;
+    this.history = [];
+    this.predators = [];
+    for (let i = 0; i < this.config.initialPredators; i++) {
+      this.predators.push(
+        new Predator(this.randomEdgePoint(), { ...this.config.initialTraits }, this.config.energy, this.random.angle()),
+      );
+    }
+    this.food = this.placeFood();
+  }
+
+  /**
+   * Advance every active predator by one step. Returns true if the generation ended and the next one started.
+   */
+  step() {
+    for (const predator of this.predators) {
+      if (predator.isActive) this.updatePredator(predator);
+    }
+    this.steps++;
+
+    if (this.steps >= this.config.maxSteps || this.predators.every((predator) => !predator.isActive)) {
+      this.nextGeneration();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Step until the current generation has ended.
+   */
+  runGeneration() {
+    while (!this.step());
+  }
+
+  /**
+   * Run the given number of complete generations.
+   * @param generations
+   */
+  runGenerations(generations: number) {
+    for (let i = 0; i < generations; i++) {
+      this.runGeneration();
+    }
+  }
+
+  /**
+   * Move a predator towards prey it can sense, wander if it can sense none, or head for the edge once it has eaten
+   * enough or is running low on energy.
+   * @param predator
+   */
+  updatePredator(predator: Predator) {
+    const { baseCost, speedCost, senseCost } = this.config;
+    const cost = predator.stepCost(baseCost, speedCost, senseCost);
+    if (predator.energy < cost) {
+      predator.state = 'dead';
+      predator.color = '#999999';
+      return;
+    }
+
+    const { speed } = predator.traits;
+    if (predator.state === 'hunting' && predator.eaten > 0) {
+      // head home once there is only just enough energy left to get there
+      const stepsHome = this.distanceToEdge(predator.position) / speed;
+      if (predator.energy <= (stepsHome + 2) * cost) predator.state = 'returning';
+    }
+
+    let direction: Vector2D;
+    if (predator.state === 'returning') {
+      direction = this.nearestEdgePoint(predator.position).subtract(predator.position);
+    } else {
+      const prey = this.nearestFood(predator);
+      if (prey) {
+        direction = prey.position.subtract(predator.position);
+      } else {
+        predator.heading += this.random.gaussian() * 0.3;
+        direction = Vector2D.fromAngle(predator.heading);
+      }
+    }
+
+    const distance = direction.magnitude();
+    predator.velocity =
+      distance === 0 ? new Vector2D(0, 0) : direction.divide(distance).multiply(Math.min(speed, distance));
+    predator.position = this.clamp(predator.position.add(predator.velocity));
+    predator.energy -= cost;
+    if (distance > 0) predator.heading = Math.atan2(direction.y, direction.x);
+
+    if (predator.state === 'returning') {
+      if (this.distanceToEdge(predator.position) < 1e-6) predator.state = 'home';
+      return;
+    }
+
+    // bounce off the edges while hunting
+    const { x, y } = predator.position;
+    if (x <= 0 || x >= this.config.width) predator.heading = Math.PI - predator.heading;
+    if (y <= 0 || y >= this.config.height) predator.heading = -predator.heading;
+
+    for (let i = 0; i < this.food.length; i++) {
+      if (predator.dist(this.food[i]) < predator.radius + this.food[i].radius) {
+        this.food.splice(i, 1);
+        predator.eaten++;
+        if (predator.eaten >= 2) predator.state = 'returning';
+        break;
+      }
+    }
+  }
+
+  /**
+   * Record the statistics of the generation that just ended and create the next generation from its survivors. If no
+   * predator survives the ecosystem starts again with the initial predators.
+   */
+  nextGeneration() {
+    const { energy, mutationRate, mutationSize, maxPredators } = this.config;
+    const survivors = this.predators.filter((predator) => predator.state === 'home' && predator.eaten >= 1);
+    const next: Predator[] = survivors.map(
+      (predator) => new Predator(this.randomEdgePoint(), { ...predator.traits }, energy, this.random.angle()),
+    );
+    let births = 0;
+    for (const parent of survivors) {
+      if (parent.eaten >= 2 && next.length < maxPredators) {
+        next.push(parent.reproduce(this.randomEdgePoint(), energy, mutationRate, mutationSize, this.random));
+        births++;
+      }
+    }
+
+    const traits = this.predators.map((predator) => ({ ...predator.traits }));
+    const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b) / values.length : 0);
+    this.history.push({
+      generation: this.generation,
+      predators: this.predators.length,
+      survivors: survivors.length,
+      births,
+      deaths: this.predators.length - survivors.length,
+      meanSpeed: mean(traits.map((trait) => trait.speed)),
+      meanSenseRadius: mean(traits.map((trait) => trait.senseRadius)),
+      traits,
+    });
+
+    if (next.length === 0) {
+      this.extinctions++;
+      for (let i = 0; i < this.config.initialPredators; i++) {
+        next.push(new Predator(this.randomEdgePoint(), { ...this.config.initialTraits }, energy, this.random.angle()));
+      }
+    }
+
+    this.predators = next;
+    this.food = this.placeFood();
+    this.steps = 0;
+    this.generation++;
+  }
+
+  /**
+   * Returns the nearest prey within a predator's sense radius, or null if it cannot sense any
+   * @param predator
+   */
+  nearestFood(predator: Predator) {
+    let nearest: Bacteria | null = null;
+    let nearestDistance = predator.traits.senseRadius;
+    for (const food of this.food) {
+      const distance = predator.dist(food);
+      if (distance <= nearestDistance) {
+        nearest = food;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Returns the distance from a position to the closest edge of the map
+   */
+  distanceToEdge(position: Vector2D) {
+    return Math.max(
+      0,
+      Math.min(position.x, this.config.width - position.x, position.y, this.config.height - position.y),
+    );
+  }
+
+  /**
+   * Returns the point on the edge of the map closest to a position
+   */
+  nearestEdgePoint(position: Vector2D) {
+    const { width, height } = this.config;
+    const distances = [position.x, width - position.x, position.y, height - position.y];
+    const closest = distances.indexOf(Math.min(...distances));
+    if (closest === 0) return new Vector2D(0, position.y);
+    if (closest === 1) return new Vector2D(width, position.y);
+    if (closest === 2) return new Vector2D(position.x, 0);
+    return new Vector2D(position.x, height);
+  }
+
+  /**
+   * Returns a random point on the edge of the map
+   */
+  randomEdgePoint() {
+    const { width, height } = this.config;
+    const distance = this.random.next() * 2 * (width + height); // distance travelled clockwise around the edge
+    if (distance < width) return new Vector2D(distance, 0);
+    if (distance < width + height) return new Vector2D(width, distance - width);
+    if (distance < 2 * width + height) return new Vector2D(distance - width - height, height);
+    return new Vector2D(0, distance - 2 * width - height);
+  }
+
+  /**
+   * Returns prey placed at random positions away from the edge of the map
+   */
+  placeFood() {
+    const { width, height, foodCount } = this.config;
+    const margin = 20;
+    const food = [];
+    for (let i = 0; i < foodCount; i++) {
+      food.push(
+        new Bacteria(
+          new Vector2D(this.random.range(margin, width - margin), this.random.range(margin, height - margin)),
+        ),
+      );
+    }
+    return food;
+  }
+
+  /**
+   * Returns a copy of a position moved inside the map
+   */
+  clamp(position: Vector2D) {
+    return new Vector2D(
+      Math.max(0, Math.min(this.config.width, position.x)),
+      Math.max(0, Math.min(this.config.height, position.y)),
+    );
+  }
+
+  /**
+   * Returns a plain object copy of the current state of the ecosystem that a renderer can draw.
+   */
+  snapshot(): EcosystemSnapshot {
+    return {
+      width: this.config.width,
+      height: this.config.height,
+      generation: this.generation,
+      food: this.food.map((food) => ({
+        x: food.position.x,
+        y: food.position.y,
+        radius: food.radius,
+        color: food.color,
+      })),
+      predators: this.predators.map((predator) => ({
+        x: predator.position.x,
+        y: predator.position.y,
+        radius: predator.radius,
+        color: predator.color,
+        senseRadius: predator.traits.senseRadius,
+        vx: predator.velocity.x,
+        vy: predator.velocity.y,
+      })),
+    };
+  }
+}
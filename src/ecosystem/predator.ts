@@ -0,0 +1,87 @@
+import { Vector2D } from '../utils/vector';
+import { Random } from '../utils/random';
+import { Organism } from '../simulation/organism';
+
+/**
+ * Heritable traits of a predator.
+ */
+export interface Traits {
+  speed: number; // distance moved each step
+  senseRadius: number; // distance at which prey can be detected
+}
+
+/**
+ * Energy spent per step by a trait is rate * value ^ exponent.
+ */
+export interface CostCurve {
+  rate: number;
+  exponent: number;
+}
+
+/**
+ * hunting - looking for prey, returning - heading back to the edge of the map, home - safe at the edge until the next
+ * generation, dead - ran out of energy
+ */
+export type PredatorState = 'hunting' | 'returning' | 'home' | 'dead';
+
+export class Predator extends Organism {
+  traits: Traits;
+  velocity: Vector2D;
+  energy: number;
+  eaten: number;
+  state: PredatorState;
+  heading: number;
+
+  /**
+   * Constructor for Predator.
+   * @param position - coordinates the predator starts at, normally on the edge of the map
+   * @param traits - heritable speed and sense radius
+   * @param energy - amount of energy the predator starts with, every step costs energy depending on its traits
+   * @param heading - angle in radians the predator starts wandering in
+   */
+  constructor(position: Vector2D, traits: Traits, energy: number, heading: number) {
+    super(position, 4, '#4287F5');
+    this.traits = traits;
+    this.velocity = new Vector2D(0, 0);
+    this.energy = energy;
+    this.eaten = 0; // number of prey eaten this generation
+    this.state = 'hunting';
+    this.heading = heading;
+  }
+
+  get isActive() {
+    return this.state === 'hunting' || this.state === 'returning';
+  }
+
+  /**
+   * Returns the energy spent per step, a base cost plus the cost of each trait
+   * @param baseCost
+   * @param speedCost
+   * @param senseCost
+   */
+  stepCost(baseCost: number, speedCost: CostCurve, senseCost: CostCurve) {
+    return (
+      baseCost +
+      speedCost.rate * Math.pow(this.traits.speed, speedCost.exponent) +
+      senseCost.rate * Math.pow(this.traits.senseRadius, senseCost.exponent)
+    );
+  }
+
+  /**
+   * Return a child predator whose traits may be mutated. With a chance given by mutationRate either the speed or the
+   * sense radius changes by a normally distributed fraction of its value.
+   * @param position - where the child starts
+   * @param energy - energy the child starts with
+   * @param mutationRate - chance that a trait is mutated
+   * @param mutationSize - standard deviation of the fraction a mutated trait changes by
+   * @param random
+   */
+  reproduce(position: Vector2D, energy: number, mutationRate: number, mutationSize: number, random: Random) {
+    const traits = { ...this.traits };
+    if (random.next() < mutationRate) {
+      const trait: keyof Traits = random.next() < 0.5 ? 'speed' : 'senseRadius';
+      traits[trait] = Math.max(0.1, traits[trait] * (1 + random.gaussian() * mutationSize));
+    }
+    return new Predator(position, traits, energy, random.angle());
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { expandGrid, parseExperimentSpec, runExperiment, runOnce, summarize } from './experiment';
+import { formatComparisonTable, reportToCsv } from './report';
+
+describe('expandGrid', () => {
+  it('should return every combination of values', () => {
+    expect(expandGrid({ mutationRate: [0.01, 0.05], selection: ['roulette', 'rank'] })).toEqual([
+      { mutationRate: 0.01, selection: 'roulette' },
+      { mutationRate: 0.01, selection: 'rank' },
+      { mutationRate: 0.05, selection: 'roulette' },
+      { mutationRate: 0.05, selection: 'rank' },
+    ]);
+    expect(expandGrid({})).toEqual([{}]);
+  });
+});
+
+describe('summarize', () => {
+  it('should return the mean and sample standard deviation', () => {
+    const summary = summarize([2, 4, 4, 4, 5, 5, 7, 9]);
+    expect(summary.mean).toBe(5);
+    expect(summary.stddev).toBeCloseTo(2.138, 3);
+    expect(summary.count).toBe(8);
+  });
+
+  it('should handle empty and single value lists', () => {
+    expect(summarize([])).toEqual({ mean: null, stddev: null, count: 0 });
+    expect(summarize([3])).toEqual({ mean: 3, stddev: 0, count: 1 });
+  });
+});
+
+describe('parseExperimentSpec', () => {
+  it('should expand a seed count into seeds', () => {
+    const spec = parseExperimentSpec({ grid: { mutationRate: [0.1] }, seeds: 3, generations: 2 });
+    expect(spec.seeds).toEqual([1, 2, 3]);
+    expect(spec.base).toEqual({});
+  });
+
+  it('should reject invalid experiments', () => {
+    expect(() => parseExperimentSpec({ seeds: 0, generations: 2 })).toThrow('seeds should be');
+    expect(() => parseExperimentSpec({ seeds: 1, generations: 0 })).toThrow('generations should be');
+    expect(() => parseExperimentSpec({ grid: { mutationRate: [] }, seeds: 1, generations: 1 })).toThrow(
+      'grid.mutationRate should be a non empty array',
+    );
+    expect(() => parseExperimentSpec({ grid: { selection: ['best'] }, seeds: 1, generations: 1 })).toThrow(
+      'config.selection should be one of',
+    );
+    expect(() => parseExperimentSpec({ grid: { mutationrate: [0.1, 0.2] }, seeds: 1, generations: 1 })).toThrow(
+      'grid.mutationrate is not a config parameter',
+    );
+    expect(() => parseExperimentSpec({ grid: { seed: [1, 2] }, seeds: 1, generations: 1 })).toThrow(
+      'grid.seed is not allowed',
+    );
+  });
+
+  it('should run the checked config of every configuration', () => {
+    const spec = parseExperimentSpec({
+      base: { populationSize: 5, energy: 20, layout: { start: [300, 590], goal: [300, 10], viruses: [[300, 300]] } },
+      grid: { mutationRate: [0.01, 0.1] },
+      seeds: 1,
+      generations: 1,
+    });
+    expect(spec.configs).toHaveLength(2);
+    expect(spec.configs[1].mutationRate).toBe(0.1);
+    expect(spec.configs[0].layout?.goals).toEqual([[300, 10]]);
+    expect(runExperiment(spec).results[1].runs).toHaveLength(1);
+  });
+});
+
+describe('runExperiment', () => {
+  const spec = parseExperimentSpec({
+    base: { populationSize: 20, energy: 200, numOfViruses: 0 },
+    grid: { mutationRate: [0.01, 0.1] },
+    seeds: [1, 2],
+    generations: 3,
+  });
+
+  it('should run every configuration with every seed', () => {
+    const runs: number[] = [];
+    const report = runExperiment(spec, (parameters, run) => runs.push(run.seed));
+    expect(runs).toEqual([1, 2, 1, 2]);
+    expect(report.results).toHaveLength(2);
+    expect(report.results[0].parameters).toEqual({ mutationRate: 0.01 });
+    expect(report.results[0].finalBestFitness.count).toBe(2);
+    expect(report.results[0].runs[1]).toEqual(runOnce({ ...spec.base, mutationRate: 0.01, seed: 2 }, 3));
+  });
+
+  it('should produce a comparison table and CSV with one row per configuration', () => {
+    const report = runExperiment(spec);
+    const table = formatComparisonTable(report).split('\n');
+    expect(table).toHaveLength(4);
+    expect(table[0]).toContain('mutationRate');
+    const csv = reportToCsv(report).trim().split('\n');
+    expect(csv).toHaveLength(3);
+    expect(csv[0].startsWith('mutationRate,runs,')).toBe(true);
+  });
+});
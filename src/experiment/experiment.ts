@@ -0,0 +1,156 @@
+import { Simulation, SimulationConfig, defaultConfig } from '../simulation/simulation';
+import { checkConfig } from '../simulation/persistence';
+
+/**
+ * Values to try for each config parameter, every combination of values is one configuration of the experiment.
+ */
+export type ParameterGrid = { [K in keyof SimulationConfig]?: SimulationConfig[K][] };
+
+export interface ExperimentSpec {
+  base: Partial<SimulationConfig>; // config shared by every configuration
+  grid: ParameterGrid;
+  seeds: number[]; // every configuration is run once with each seed
+  generations: number; // number of generations each run lasts
+  configs: SimulationConfig[]; // checked config of every combination of the grid in the order of expandGrid
+}
+
+export interface RunResult {
+  seed: number;
+  generationsToFirstGoal: number | null; // first generation in which a cell reached the goal, null if none did
+  finalBestFitness: number;
+  finalReachRate: number; // fraction of the population that reached the goal in the last generation
+}
+
+/**
+ * Mean and sample standard deviation of a set of values, both are null if there are no values.
+ */
+export interface Summary {
+  mean: number | null;
+  stddev: number | null;
+  count: number;
+}
+
+export interface ConfigurationResult {
+  parameters: Partial<SimulationConfig>; // the values from the grid used by this configuration
+  runs: RunResult[];
+  generationsToFirstGoal: Summary; // only counts runs that reached the goal
+  finalBestFitness: Summary;
+  finalReachRate: Summary;
+}
+
+export interface ExperimentReport {
+  spec: ExperimentSpec;
+  results: ConfigurationResult[];
+}
+
+/**
+ * Returns every combination of the values in a parameter grid, an empty grid has a single empty combination.
+ * @param grid
+ */
+export const expandGrid = (grid: ParameterGrid): Partial<SimulationConfig>[] => {
+  let combinations: Partial<SimulationConfig>[] = [{}];
+  for (const [key, values] of Object.entries(grid)) {
+    combinations = combinations.flatMap((combination) =>
+      (values as unknown[]).map((value) => ({ ...combination, [key]: value })),
+    );
+  }
+  return combinations;
+};
+
+/**
+ * Returns the value as an ExperimentSpec, throws an error describing the first mismatch. Seeds may be given as a list or
+ * as a count, a count of n runs each configuration with seeds 1 to n. Every configuration of the grid is checked
+ * against the config schema before anything runs, and the checked configs are the ones that run.
+ * @param value - parsed JSON
+ */
+export const parseExperimentSpec = (value: unknown): ExperimentSpec => {
+  if (typeof value !== 'object' || value === null) throw new Error('The experiment should be a JSON object');
+  const spec = value as Record<string, unknown>;
+  const base = (spec.base ?? {}) as Partial<SimulationConfig>;
+  const grid = (spec.grid ?? {}) as ParameterGrid;
+  for (const [key, values] of Object.entries(grid)) {
+    if (key === 'seed') throw new Error('grid.seed is not allowed, every configuration is run with each of the seeds');
+    if (!Object.prototype.hasOwnProperty.call(defaultConfig, key)) {
+      throw new Error(`grid.${key} is not a config parameter`);
+    }
+    if (!Array.isArray(values) || values.length === 0) throw new Error(`grid.${key} should be a non empty array`);
+  }
+
+  let seeds: number[];
+  if (typeof spec.seeds === 'number' && Number.isInteger(spec.seeds) && spec.seeds > 0) {
+    seeds = Array.from({ length: spec.seeds }, (_, i) => i + 1);
+  } else if (Array.isArray(spec.seeds) && spec.seeds.length > 0 && spec.seeds.every(Number.isInteger)) {
+    seeds = spec.seeds as number[];
+  } else {
+    throw new Error('seeds should be a positive integer or a list of integer seeds');
+  }
+
+  const generations = spec.generations;
+  if (typeof generations !== 'number' || !Number.isInteger(generations) || generations < 1) {
+    throw new Error('generations should be a positive integer');
+  }
+
+  const configs = expandGrid(grid).map((parameters) =>
+    checkConfig({ ...base, ...parameters, seed: seeds[0] }, 'config'),
+  );
+  return { base, grid, seeds, generations, configs };
+};
+
+/**
+ * Returns the mean and sample standard deviation of values.
+ * @param values
+ */
+export const summarize = (values: number[]): Summary => {
+  const count = values.length;
+  if (count === 0) return { mean: null, stddev: null, count };
+  const mean = values.reduce((sum, value) => sum + value, 0) / count;
+  const variance = count > 1 ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1) : 0;
+  return { mean, stddev: Math.sqrt(variance), count };
+};
+
+/**
+ * Run a simulation with the given config for a number of generations and return the results of the run.
+ * @param config - must include the seed
+ * @param generations
+ */
+export const runOnce = (config: Partial<SimulationConfig> & { seed: number }, generations: number): RunResult => {
+  const simulation = new Simulation(config);
+  simulation.runGenerations(generations);
+  const { history } = simulation;
+  const first = history.find((stats) => stats.reachedGoal > 0);
+  const last = history[history.length - 1];
+  return {
+    seed: config.seed,
+    generationsToFirstGoal: first ? first.generation : null,
+    finalBestFitness: last ? last.bestFitness : 0,
+    finalReachRate: last ? last.reachedGoal / simulation.config.populationSize : 0,
+  };
+};
+
+/**
+ * Run every configuration of the grid with every seed and aggregate the results of each configuration.
+ * @param spec
+ * @param onRun - called after every run, i.e. to print progress
+ */
+export const runExperiment = (
+  spec: ExperimentSpec,
+  onRun: (parameters: Partial<SimulationConfig>, run: RunResult) => void = () => undefined,
+): ExperimentReport => {
+  const results = expandGrid(spec.grid).map((parameters, i) => {
+    const runs = spec.seeds.map((seed) => {
+      const run = runOnce({ ...spec.configs[i], seed }, spec.generations);
+      onRun(parameters, run);
+      return run;
+    });
+    return {
+      parameters,
+      runs,
+      generationsToFirstGoal: summarize(
+        runs.map((run) => run.generationsToFirstGoal).filter((value): value is number => value !== null),
+      ),
+      finalBestFitness: summarize(runs.map((run) => run.finalBestFitness)),
+      finalReachRate: summarize(runs.map((run) => run.finalReachRate)),
+    };
+  });
+  return { spec, results };
+};
@@ -0,0 +1,68 @@
+import { SimulationConfig } from '../simulation/simulation';
+import { ExperimentReport, Summary } from './experiment';
+
+/**
+ * Returns a parameter value as short text for a table cell.
+ */
+const formatValue = (value: unknown) => (typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+/**
+ * Returns text as a CSV cell, quoted if it contains a comma, quote or line break.
+ */
+const csvCell = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+/**
+ * Returns a summary as mean ± standard deviation.
+ */
+const formatSummary = (summary: Summary, digits: number) =>
+  summary.mean === null || summary.stddev === null
+    ? '-'
+    : `${summary.mean.toFixed(digits)} ± ${summary.stddev.toFixed(digits)}`;
+
+/**
+ * Returns the names of the parameters that vary between configurations of a report.
+ */
+const parameterNames = (report: ExperimentReport) => Object.keys(report.spec.grid) as (keyof SimulationConfig)[];
+
+/**
+ * Returns a plain text table comparing the configurations of an experiment, one row per configuration sorted from the
+ * highest to the lowest mean final reach rate.
+ * @param report
+ */
+export const formatComparisonTable = (report: ExperimentReport) => {
+  const names = parameterNames(report);
+  const header = [...names, 'first goal (generation)', 'reached', 'final best fitness', 'final reach rate'];
+  const rows = [...report.results]
+    .sort((a, b) => (b.finalReachRate.mean ?? 0) - (a.finalReachRate.mean ?? 0))
+    .map((result) => [
+      ...names.map((name) => formatValue(result.parameters[name])),
+      formatSummary(result.generationsToFirstGoal, 1),
+      `${result.generationsToFirstGoal.count}/${result.runs.length}`,
+      formatSummary(result.finalBestFitness, 4),
+      formatSummary(result.finalReachRate, 3),
+    ]);
+
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join(' | ');
+  return [line(header), widths.map((width) => '-'.repeat(width)).join('-|-'), ...rows.map(line)].join('\n');
+};
+
+/**
+ * Returns the aggregated results of an experiment as CSV, one row per configuration.
+ * @param report
+ */
+export const reportToCsv = (report: ExperimentReport) => {
+  const names = parameterNames(report);
+  const metrics = ['generationsToFirstGoal', 'finalBestFitness', 'finalReachRate'] as const;
+  const header = [
+    ...names,
+    'runs',
+    ...metrics.flatMap((metric) => [`${metric}Mean`, `${metric}Stddev`, `${metric}Count`]),
+  ];
+  const rows = report.results.map((result) => [
+    ...names.map((name) => csvCell(formatValue(result.parameters[name]))),
+    result.runs.length,
+    ...metrics.flatMap((metric) => [result[metric].mean ?? '', result[metric].stddev ?? '', result[metric].count]),
+  ]);
+  return [header.join(','), ...rows.map((row) => row.join(','))].join('\n') + '\n';
+};
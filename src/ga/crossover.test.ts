@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from '../utils/vector';
+import { Random } from '../utils/random';
+import { blendCrossover, singlePointCrossover, twoPointCrossover, uniformCrossover } from './crossover';
+
+const a = Array.from({ length: 20 }, () => new Vector2D(1, 0));
+const b = Array.from({ length: 20 }, () => new Vector2D(0, 1));
+
+/**
+ * Returns 'a' or 'b' for each direction of a child depending on which parent it came from.
+ */
+const origins = (child: Vector2D[]) => child.map((direction) => (direction.equals(a[0]) ? 'a' : 'b')).join('');
+
+describe('singlePointCrossover', () => {
+  it('should take directions from a then b', () => {
+    const child = singlePointCrossover(a, b, new Random(1));
+    expect(child).toHaveLength(20);
+    expect(origins(child)).toMatch(/^a*b*$/);
+  });
+});
+
+describe('twoPointCrossover', () => {
+  it('should take directions from a, then b, then a', () => {
+    const random = new Random(2);
+    for (let i = 0; i < 20; i++) {
+      const child = twoPointCrossover(a, b, random);
+      expect(child).toHaveLength(20);
+      expect(origins(child)).toMatch(/^a*b*a*$/);
+    }
+  });
+});
+
+describe('uniformCrossover', () => {
+  it('should take directions from both parents', () => {
+    const child = uniformCrossover(a, b, new Random(3));
+    expect(child).toHaveLength(20);
+    expect(origins(child)).toContain('a');
+    expect(origins(child)).toContain('b');
+  });
+});
+
+describe('blendCrossover', () => {
+  it('should create unit directions between the parent angles', () => {
+    const child = blendCrossover(a, b, new Random(4));
+    for (const direction of child) {
+      const angle = Math.atan2(direction.y, direction.x);
+      expect(direction.magnitude()).toBeCloseTo(1, 5);
+      expect(angle).toBeGreaterThanOrEqual(0);
+      expect(angle).toBeLessThanOrEqual(Math.PI / 2);
+    }
+  });
+
+  it('should blend along the shortest arc', () => {
+    const up = [Vector2D.fromAngle(Math.PI - 0.1)];
+    const down = [Vector2D.fromAngle(-Math.PI + 0.1)];
+    const [direction] = blendCrossover(up, down, new Random(5));
+    expect(direction.x).toBeLessThan(-0.99);
+  });
+});
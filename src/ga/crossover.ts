@@ -0,0 +1,60 @@
+import { Vector2D } from '../utils/vector';
+import { Random } from '../utils/random';
+
+/**
+ * Combines the directions genomes of two parents into the directions genome of a child, both parents must have the same
+ * amount of directions.
+ */
+export type CrossoverOperator = (a: Vector2D[], b: Vector2D[], random: Random) => Vector2D[];
+
+/**
+ * Child takes the genes of parent a up to a random crossover point and the genes of parent b after it. Works on any
+ * genome so it is shared by directions and network weights.
+ */
+export const singlePointCrossover = <T>(a: T[], b: T[], random: Random) => {
+  const point = random.int(a.length + 1);
+  return [...a.slice(0, point), ...b.slice(point)];
+};
+
+/**
+ * Child takes the genes of parent b between two random crossover points and the genes of parent a elsewhere.
+ */
+export const twoPointCrossover = <T>(a: T[], b: T[], random: Random) => {
+  let start = random.int(a.length + 1);
+  let end = random.int(a.length + 1);
+  if (start > end) [start, end] = [end, start];
+  return [...a.slice(0, start), ...b.slice(start, end), ...a.slice(end)];
+};
+
+/**
+ * Child takes each gene from either parent with equal chance.
+ */
+export const uniformCrossover = <T>(a: T[], b: T[], random: Random) =>
+  a.map((gene, i) => (random.next() < 0.5 ? gene : b[i]));
+
+/**
+ * Returns the angle of a direction in radians.
+ */
+const angleOf = (direction: Vector2D) => Math.atan2(direction.y, direction.x);
+
+/**
+ * Child direction is a random blend of the angles of both parents' directions, the angle is interpolated along the
+ * shortest arc between the two parent angles so blending directions either side of 0 does not point backwards.
+ */
+export const blendCrossover: CrossoverOperator = (a, b, random) =>
+  a.map((direction, i) => {
+    const angle = angleOf(direction);
+    let diff = angleOf(b[i]) - angle;
+    if (diff > Math.PI) diff -= 2 * Math.PI;
+    if (diff < -Math.PI) diff += 2 * Math.PI;
+    return Vector2D.fromAngle(angle + random.next() * diff);
+  });
+
+export const crossoverOperators: Record<'single-point' | 'two-point' | 'uniform' | 'blend', CrossoverOperator> = {
+  'single-point': singlePointCrossover,
+  'two-point': twoPointCrossover,
+  uniform: uniformCrossover,
+  blend: blendCrossover,
+};
+
+export type CrossoverName = keyof typeof crossoverOperators;
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from '../utils/vector';
+import { Bacteria } from '../simulation/organism';
+import { Cell, DeathCause } from '../simulation/cell';
+import { Environment } from '../simulation/environment';
+import { calcNovelty, createFitnessFunction } from './fitness';
+
+const environment = new Environment(100, 100, new Vector2D(50, 90), [new Bacteria(new Vector2D(50, 10))], []);
+
+/**
+ * Returns a Cell that has finished at the given position.
+ */
+const finishedCell = (x: number, y: number, cause: DeathCause = 'energy') => {
+  const cell = new Cell(
+    environment.start,
+    Array.from({ length: 10 }, () => new Vector2D(0, -1)),
+  );
+  cell.position = new Vector2D(x, y);
+  cell.die(cause);
+  cell.reachedGoal = cause === 'goal';
+  return cell;
+};
+
+describe('createFitnessFunction', () => {
+  it('should score cells closer to the goal as fitter with the inverse square term', () => {
+    const near = finishedCell(50, 20);
+    const far = finishedCell(50, 80);
+    createFitnessFunction({ inverseSquare: 1 }, 5)([near, far], environment);
+    expect(near.fitness).toBeCloseTo(1 / 100, 5);
+    expect(near.fitness).toBeGreaterThan(far.fitness);
+  });
+
+  it('should penalise cells killed by viruses and walls', () => {
+    const energy = finishedCell(50, 50, 'energy');
+    const virus = finishedCell(50, 50, 'virus');
+    const wall = finishedCell(50, 50, 'wall');
+    createFitnessFunction({ distance: 1, virusDeath: 0.2, wallDeath: 0.1 }, 5)([energy, virus, wall], environment);
+    expect(energy.fitness).toBeGreaterThan(wall.fitness);
+    expect(wall.fitness).toBeGreaterThan(virus.fitness);
+  });
+
+  it('should never return a negative fitness', () => {
+    const virus = finishedCell(50, 50, 'virus');
+    createFitnessFunction({ virusDeath: 1 }, 5)([virus], environment);
+    expect(virus.fitness).toBe(0);
+  });
+
+  it('should reward reaching the goal quickly', () => {
+    const fast = finishedCell(50, 10, 'goal');
+    const slow = finishedCell(50, 10, 'goal');
+    fast.steps = 2;
+    slow.steps = 8;
+    createFitnessFunction({ timeToGoal: 1 }, 5)([fast, slow], environment);
+    expect(fast.fitness).toBeCloseTo(0.8, 5);
+    expect(slow.fitness).toBeCloseTo(0.2, 5);
+  });
+});
+
+describe('fitness with several goals', () => {
+  const checkpoints = new Environment(
+    100,
+    100,
+    new Vector2D(50, 90),
+    [new Bacteria(new Vector2D(50, 50)), new Bacteria(new Vector2D(50, 10))],
+    [],
+  );
+
+  it('should score cells that reached more goals of a sequence as fitter', () => {
+    const first = finishedCell(50, 30);
+    first.goalsReached = 1;
+    const none = finishedCell(50, 51); // right next to the first goal
+    for (const weights of [{ inverseSquare: 1 }, { distance: 1 }]) {
+      createFitnessFunction(weights, 5)([first, none], checkpoints);
+      expect(first.fitness).toBeGreaterThan(none.fitness);
+    }
+    expect(first.fitness).toBeCloseTo((1 + 1 - 20 / Math.hypot(100, 100)) / 2, 5);
+  });
+
+  it('should measure the distance to the nearest goal when any goal is enough', () => {
+    const environment = new Environment(100, 100, checkpoints.start, checkpoints.goals, [], [], 'any');
+    const cell = finishedCell(50, 45);
+    createFitnessFunction({ inverseSquare: 1 }, 5)([cell], environment);
+    expect(cell.fitness).toBeCloseTo(1 / 25, 5);
+  });
+});
+
+describe('calcNovelty', () => {
+  it('should score isolated cells as more novel', () => {
+    const cells = [finishedCell(10, 10), finishedCell(11, 10), finishedCell(12, 10), finishedCell(90, 90)];
+    const novelty = calcNovelty(cells, 2, 100);
+    expect(novelty.get(cells[3]) as number).toBeGreaterThan(novelty.get(cells[1]) as number);
+    expect(novelty.get(cells[1])).toBeCloseTo(0.01, 5);
+  });
+});
@@ -0,0 +1,158 @@
+import { Cell } from '../simulation/cell';
+import { Environment } from '../simulation/environment';
+
+/**
+ * Everything a fitness term may need besides the cell being scored.
+ */
+export interface FitnessContext {
+  environment: Environment;
+  diagonal: number; // length of the diagonal of the world, used to scale distances to the range [0, 1]
+  novelty: Map<Cell, number>; // novelty of each cell, only calculated when the novelty term has a weight
+}
+
+/**
+ * Returns one component of the fitness of a Cell, penalties return negative values.
+ */
+export type FitnessTerm = (cell: Cell, context: FitnessContext) => number;
+
+/**
+ * Returns the distance from where a Cell finished to the closest goal it was still heading for, measured where the
+ * goals were when the Cell stopped so moving goals are judged fairly.
+ * @param cell
+ * @param environment
+ */
+export const goalDistance = (cell: Cell, environment: Environment) => {
+  const goal = environment.nearestGoal(cell.position, cell.goalsReached, cell.steps);
+  return goal ? cell.position.distance(goal) : 0;
+};
+
+/**
+ * If a Cell reached the goal it's at least as fit as a Cell that got the minimum distance away, a Cell that reached
+ * the goal is fitter if it uses less energy. If a Cell did not reach the goal it is fitter the closer it is to the goal.
+ * Every goal of a sequence that was reached counts as much as being the minimum distance away from a goal, so a Cell
+ * that reached more goals is always fitter.
+ */
+export const inverseSquareTerm: FitnessTerm = (cell, { environment }) => {
+  const minDist = environment.goals[0].radius - cell.radius; // minimum distance a Cell can be from the goal
+  const reached = cell.goalsReached / (minDist * minDist);
+  if (cell.reachedGoal) {
+    // Cell reached goal so the less energy used the fitter the Cell
+    return reached + cell.energy * cell.energy;
+  }
+  // Cell didn't reach goal so the fitness is determined by distance from goal, closer is fitter
+  return reached + 1 / Math.pow(Math.max(goalDistance(cell, environment), minDist), 2);
+};
+
+/**
+ * 1 when the Cell is at the goal falling linearly to 0 at the length of the diagonal of the world. With a sequence of
+ * goals each goal reached is an equal share of the range.
+ */
+export const distanceTerm: FitnessTerm = (cell, { environment, diagonal }) => {
+  if (cell.reachedGoal) return 1;
+  const closeness = Math.max(0, 1 - goalDistance(cell, environment) / diagonal);
+  return (cell.goalsReached + closeness) / Math.max(environment.goalsNeeded, 1);
+};
+
+/**
+ * Straight line distance between where the Cell started and finished divided by the length of its path, 1 means the
+ * Cell moved in a straight line.
+ */
+export const pathLengthTerm: FitnessTerm = (cell) =>
+  cell.pathLength === 0 ? 0 : cell.startPosition.distance(cell.position) / cell.pathLength;
+
+/**
+ * Fraction of energy left when the Cell reached the goal, 0 if it never reached it. Uses the exact moment of contact
+ * so the result does not depend on the step size.
+ */
+export const timeToGoalTerm: FitnessTerm = (cell) =>
+  cell.reachedGoal && cell.maxEnergy > 0 ? 1 - (cell.contactStep ?? cell.steps) / cell.maxEnergy : 0;
+
+/**
+ * -1 if the Cell was killed by a virus.
+ */
+export const virusDeathTerm: FitnessTerm = (cell) => (cell.deathCause === 'virus' ? -1 : 0);
+
+/**
+ * -1 if the Cell was killed by touching the edge of the world.
+ */
+export const wallDeathTerm: FitnessTerm = (cell) => (cell.deathCause === 'wall' ? -1 : 0);
+
+/**
+ * Mean distance from where the Cell finished to where its nearest neighbours finished, scaled by the diagonal of the
+ * world. Rewards cells that end up somewhere the rest of the population did not.
+ */
+export const noveltyTerm: FitnessTerm = (cell, { novelty }) => novelty.get(cell) ?? 0;
+
+export const fitnessTerms = {
+  inverseSquare: inverseSquareTerm,
+  distance: distanceTerm,
+  pathLength: pathLengthTerm,
+  timeToGoal: timeToGoalTerm,
+  virusDeath: virusDeathTerm,
+  wallDeath: wallDeathTerm,
+  novelty: noveltyTerm,
+};
+
+export type FitnessTermName = keyof typeof fitnessTerms;
+
+/**
+ * Weight of each fitness term, terms that are missing or have a weight of 0 are not calculated.
+ */
+export type FitnessWeights = Partial<Record<FitnessTermName, number>>;
+
+export const defaultFitnessWeights: FitnessWeights = { inverseSquare: 1 };
+
+/**
+ * Returns the novelty of every cell, the mean distance from its final position to the final positions of its k nearest
+ * neighbours divided by the diagonal of the world.
+ * @param cells
+ * @param k - number of nearest neighbours
+ * @param diagonal
+ */
+export const calcNovelty = (cells: Cell[], k: number, diagonal: number) => {
+  const novelty = new Map<Cell, number>();
+  const neighbours = Math.min(k, cells.length - 1);
+  for (let i = 0; i < cells.length; i++) {
+    if (neighbours <= 0) {
+      novelty.set(cells[i], 0);
+      continue;
+    }
+    const distances = [];
+    for (let j = 0; j < cells.length; j++) {
+      if (i !== j) distances.push(cells[i].position.distance(cells[j].position));
+    }
+    distances.sort((a, b) => a - b);
+    let sum = 0;
+    for (let j = 0; j < neighbours; j++) {
+      sum += distances[j];
+    }
+    novelty.set(cells[i], sum / neighbours / diagonal);
+  }
+  return novelty;
+};
+
+/**
+ * Returns a function that sets the fitness of every cell to the weighted sum of the fitness terms. Fitness is never
+ * negative so it can be used by fitness proportionate selection.
+ * @param weights - weight of each fitness term
+ * @param noveltyNeighbours - number of nearest neighbours used to calculate novelty
+ */
+export const createFitnessFunction = (weights: FitnessWeights, noveltyNeighbours: number) => {
+  const terms = (Object.keys(weights) as FitnessTermName[]).filter((name) => weights[name]);
+
+  return (cells: Cell[], environment: Environment) => {
+    const diagonal = Math.hypot(environment.width, environment.height);
+    const context: FitnessContext = {
+      environment,
+      diagonal,
+      novelty: weights.novelty ? calcNovelty(cells, noveltyNeighbours, diagonal) : new Map(),
+    };
+    for (const cell of cells) {
+      let fitness = 0;
+      for (const name of terms) {
+        fitness += (weights[name] as number) * fitnessTerms[name](cell, context);
+      }
+      cell.fitness = Math.max(0, fitness);
+    }
+  };
+};
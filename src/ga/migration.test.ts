@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { Random } from '../utils/random';
+import { chooseMigrants, migrationRoutes, migrationTopologies } from './migration';
+
+describe('migration topologies', () => {
+  it('should send migrants to the next island in a ring', () => {
+    expect([0, 1, 2].map((island) => migrationTopologies.ring(island, 3, new Random(1)))).toEqual([[1], [2], [0]]);
+    expect(migrationTopologies.ring(0, 1, new Random(1))).toEqual([]);
+  });
+
+  it('should send migrants to every other island when fully connected', () => {
+    expect(migrationTopologies.full(1, 4, new Random(1))).toEqual([0, 2, 3]);
+  });
+
+  it('should send migrants to one other random island', () => {
+    const random = new Random(1);
+    const destinations = new Set<number>();
+    for (let i = 0; i < 100; i++) {
+      const [destination] = migrationTopologies.random(2, 4, random);
+      expect(destination).not.toBe(2);
+      destinations.add(destination);
+    }
+    expect([...destinations].sort()).toEqual([0, 1, 3]);
+  });
+
+  it('should list every route as a pair of islands', () => {
+    expect(migrationRoutes(3, 'ring', new Random(1))).toEqual([
+      [0, 1],
+      [1, 2],
+      [2, 0],
+    ]);
+    expect(migrationRoutes(3, 'full', new Random(1))).toHaveLength(6);
+  });
+});
+
+describe('chooseMigrants', () => {
+  const ranked = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should pick the fittest individuals', () => {
+    expect(chooseMigrants(ranked, 2, 'best', new Random(1))).toEqual(['a', 'b']);
+    expect(chooseMigrants(ranked, 10, 'best', new Random(1))).toEqual(ranked);
+  });
+
+  it('should pick distinct random individuals', () => {
+    const migrants = chooseMigrants(ranked, 3, 'random', new Random(3));
+    expect(new Set(migrants).size).toBe(3);
+    expect(migrants.every((migrant) => ranked.includes(migrant))).toBe(true);
+    expect(chooseMigrants(ranked, 3, 'random', new Random(3))).toEqual(migrants);
+  });
+});
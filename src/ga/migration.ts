@@ -0,0 +1,84 @@
+import { Random } from '../utils/random';
+
+export interface MigrationOptions {
+  migrationInterval: number; // number of generations between migrations
+  migrants: number; // number of individuals each island sends along each of its routes
+}
+
+export const defaultMigrationOptions: MigrationOptions = {
+  migrationInterval: 10,
+  migrants: 2,
+};
+
+/**
+ * Returns the islands an island sends migrants to, given the index of the island and the number of islands.
+ */
+export type MigrationTopology = (island: number, islands: number, random: Random) => number[];
+
+/**
+ * Every island sends migrants to the next island, the last island sends them to the first.
+ */
+export const ringTopology: MigrationTopology = (island, islands) => (islands > 1 ? [(island + 1) % islands] : []);
+
+/**
+ * Every island sends migrants to every other island.
+ */
+export const fullTopology: MigrationTopology = (island, islands) =>
+  Array.from({ length: islands }, (_, i) => i).filter((i) => i !== island);
+
+/**
+ * Every island sends migrants to one other island picked at random each migration.
+ */
+export const randomTopology: MigrationTopology = (island, islands, random) => {
+  if (islands < 2) return [];
+  const other = random.int(islands - 1);
+  return [other >= island ? other + 1 : other];
+};
+
+export const migrationTopologies = {
+  ring: ringTopology,
+  full: fullTopology,
+  random: randomTopology,
+};
+
+export type TopologyName = keyof typeof migrationTopologies;
+
+/**
+ * best - the fittest individuals of an island migrate
+ * random - individuals picked at random migrate
+ */
+export type MigrantPolicy = 'best' | 'random';
+
+/**
+ * Returns the route of every migration between islands as [from, to] pairs.
+ * @param islands - number of islands
+ * @param topology
+ * @param random - used by the random topology
+ */
+export const migrationRoutes = (islands: number, topology: TopologyName, random: Random) => {
+  const routes: [number, number][] = [];
+  for (let island = 0; island < islands; island++) {
+    for (const destination of migrationTopologies[topology](island, islands, random)) {
+      routes.push([island, destination]);
+    }
+  }
+  return routes;
+};
+
+/**
+ * Returns the individuals that migrate from an island.
+ * @param ranked - individuals of the island sorted from fittest to least fit
+ * @param count - number of migrants, at most the number of individuals
+ * @param policy
+ * @param random - used to pick random migrants
+ */
+export const chooseMigrants = <T>(ranked: T[], count: number, policy: MigrantPolicy, random: Random) => {
+  const size = Math.min(count, ranked.length);
+  if (policy === 'best') return ranked.slice(0, size);
+  const pool = [...ranked];
+  const migrants: T[] = [];
+  for (let i = 0; i < size; i++) {
+    migrants.push(pool.splice(random.int(pool.length), 1)[0]);
+  }
+  return migrants;
+};
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from '../utils/vector';
+import { Random } from '../utils/random';
+import { GenerationStats } from '../simulation/statistics';
+import {
+  adaptRate,
+  decaySchedule,
+  defaultMutationScheduleOptions,
+  gaussianMutation,
+  resetMutation,
+  reverseMutation,
+  shiftMutation,
+  stagnantGenerations,
+  stallSchedule,
+  stalledGenerations,
+  swapMutation,
+} from './mutation';
+
+// directions pointing at distinct angles so every gene can be told apart
+const genome = Array.from({ length: 30 }, (_, i) => Vector2D.fromAngle(i * 0.1));
+const key = (directions: Vector2D[]) => directions.map((direction) => direction.toString()).sort();
+const history = (bestFitness: number[]) => bestFitness.map((best) => ({ bestFitness: best }) as GenerationStats);
+const options = defaultMutationScheduleOptions;
+
+describe('mutation operators', () => {
+  it('should not change the genome they are given', () => {
+    const copy = [...genome];
+    for (const operator of [resetMutation, gaussianMutation, swapMutation, reverseMutation, shiftMutation]) {
+      operator(genome, 1, new Random(1), 10);
+    }
+    expect(genome).toEqual(copy);
+  });
+
+  it('should not mutate anything with a rate of 0', () => {
+    for (const operator of [resetMutation, gaussianMutation, swapMutation, reverseMutation, shiftMutation]) {
+      expect(operator(genome, 0, new Random(1), 10)).toEqual({ directions: genome, count: 0 });
+    }
+  });
+
+  it('should rotate genes slightly with gaussian mutation', () => {
+    const { directions, count } = gaussianMutation(genome, 1, new Random(3), 0);
+    expect(count).toBe(30);
+    directions.forEach((direction, i) => {
+      expect(direction.magnitude()).toBeCloseTo(1);
+      expect(direction.distance(genome[i])).toBeLessThan(1.5);
+    });
+  });
+
+  it('should only reorder genes with swap, reversal and shift', () => {
+    for (const operator of [swapMutation, reverseMutation, shiftMutation]) {
+      const { directions, count } = operator(genome, 0.1, new Random(5), 0);
+      expect(count).toBeGreaterThan(0);
+      expect(directions).not.toEqual(genome);
+      expect(key(directions)).toEqual(key(genome));
+    }
+  });
+});
+
+describe('mutation schedules', () => {
+  it('should decay the rate every generation down to the minimum rate', () => {
+    expect(decaySchedule(0.1, history([1, 2]), { ...options, mutationDecay: 0.5 })).toBeCloseTo(0.025);
+    expect(decaySchedule(0.1, history(new Array(400).fill(1)), options)).toBe(options.minMutationRate);
+  });
+
+  it('should count generations since the best fitness last improved', () => {
+    expect(stalledGenerations(history([]))).toBe(0);
+    expect(stalledGenerations(history([1, 2, 3]))).toBe(0);
+    expect(stalledGenerations(history([1, 3, 2, 3, 1]))).toBe(3);
+  });
+
+  it('should increase the rate while the best fitness stalls', () => {
+    const stallOptions = { ...options, stallGenerations: 2, stallBoost: 2 };
+    expect(stallSchedule(0.05, history([1, 2, 2]), stallOptions)).toBe(0.05);
+    expect(stallSchedule(0.05, history([1, 2, 2, 2]), stallOptions)).toBe(0.1);
+    expect(stallSchedule(0.05, history([2, 1, 1, 1, 1]), stallOptions)).toBe(0.2);
+    expect(stallSchedule(0.05, history([2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1]), stallOptions)).toBe(options.maxMutationRate);
+  });
+
+  it('should count generations with low or unchanging diversity', () => {
+    const diversities = (values: number[]) =>
+      values.map((diversity, i) => ({ bestFitness: i, diversity }) as GenerationStats);
+    expect(stagnantGenerations(diversities([0.5, 0.4, 0.3]), options)).toBe(0);
+    expect(stagnantGenerations(diversities([0.5, 0.04, 0.03]), options)).toBe(2);
+    expect(stagnantGenerations(diversities([0.5, 0.3, 0.3, 0.3]), options)).toBe(2);
+    expect(stagnantGenerations(diversities([0.3, 0.3, 0.5]), options)).toBe(0);
+  });
+
+  it('should increase the rate while diversity stalls even if the best fitness improves', () => {
+    const stallOptions = { ...options, stallGenerations: 2, stallBoost: 2 };
+    const improving = (diversity: number[]) =>
+      diversity.map((value, i) => ({ bestFitness: i, diversity: value }) as GenerationStats);
+    expect(stallSchedule(0.05, improving([0.5, 0.4, 0.3]), stallOptions)).toBe(0.05);
+    expect(stallSchedule(0.05, improving([0.5, 0.02, 0.02, 0.01]), stallOptions)).toBe(0.1);
+    expect(stallSchedule(0.05, improving([0.5, 0.3, 0.3, 0.3, 0.3, 0.3]), stallOptions)).toBe(0.2);
+  });
+
+  it('should keep self-adaptive rates within the limits', () => {
+    const random = new Random(1);
+    let rate = 0.05;
+    for (let i = 0; i < 200; i++) {
+      rate = adaptRate(rate, random, { ...options, selfAdaptation: 1 });
+      expect(rate).toBeGreaterThanOrEqual(options.minMutationRate);
+      expect(rate).toBeLessThanOrEqual(options.maxMutationRate);
+    }
+  });
+});
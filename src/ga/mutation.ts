@@ -0,0 +1,224 @@
+import { Vector2D } from '../utils/vector';
+import { Random } from '../utils/random';
+import { GenerationStats } from '../simulation/statistics';
+
+/**
+ * Returns a mutated copy of a directions genome and the number of genes that changed. Genes from index usedFrom up to
+ * the end were used by the parent, directions are used from the end of the genome backwards.
+ */
+export type MutationOperator = (
+  directions: Vector2D[],
+  rate: number,
+  random: Random,
+  usedFrom: number,
+) => { directions: Vector2D[]; count: number };
+
+const ANGLE_SIGMA = 0.3; // standard deviation in radians of the gaussian angle perturbation
+const MAX_SEGMENT = 20; // longest segment that segment reversal and shift move
+
+/**
+ * Each gene has a chance given by rate of mutating, a mutated gene is replaced by a random direction with a chance given
+ * by rate, otherwise by a direction the parent used. The original mutation of the simulation.
+ */
+export const resetMutation: MutationOperator = (directions, rate, random, usedFrom) => {
+  const mutated = [...directions];
+  const length = mutated.length;
+  let count = 0;
+  for (let i = 0; i < length; i++) {
+    if (random.next() < rate) {
+      count++;
+      if (random.next() < rate) {
+        mutated[i] = Vector2D.fromAngle(random.angle()); // random direction
+      } else {
+        mutated[i] = mutated[Math.floor(random.next() * (length - usedFrom) + usedFrom)]; // direction used by parent
+      }
+    }
+  }
+  return { directions: mutated, count };
+};
+
+/**
+ * Each gene has a chance given by rate of being rotated by a normally distributed angle, small course corrections that
+ * keep most of a good path intact.
+ */
+export const gaussianMutation: MutationOperator = (directions, rate, random) => {
+  let count = 0;
+  const mutated = directions.map((direction) => {
+    if (random.next() >= rate) return direction;
+    count++;
+    return Vector2D.fromAngle(Math.atan2(direction.y, direction.x) + random.gaussian() * ANGLE_SIGMA);
+  });
+  return { directions: mutated, count };
+};
+
+/**
+ * Each gene has a chance given by rate of swapping places with another random gene.
+ */
+export const swapMutation: MutationOperator = (directions, rate, random) => {
+  const mutated = [...directions];
+  let count = 0;
+  for (let i = 0; i < mutated.length; i++) {
+    if (random.next() < rate) {
+      const j = random.int(mutated.length);
+      [mutated[i], mutated[j]] = [mutated[j], mutated[i]];
+      count += 2;
+    }
+  }
+  return { directions: mutated, count: Math.min(count, mutated.length) };
+};
+
+/**
+ * Applies a change to random segments of the genome, each gene has a chance given by rate of starting a segment of up
+ * to MAX_SEGMENT genes. Returns the number of genes in changed segments.
+ */
+const segmentMutation = (
+  directions: Vector2D[],
+  rate: number,
+  random: Random,
+  change: (segment: Vector2D[]) => Vector2D[],
+) => {
+  const mutated = [...directions];
+  let count = 0;
+  for (let start = 0; start < mutated.length; start++) {
+    if (random.next() < rate) {
+      const end = Math.min(mutated.length, start + 2 + random.int(MAX_SEGMENT - 1));
+      mutated.splice(start, end - start, ...change(mutated.slice(start, end)));
+      count += end - start;
+    }
+  }
+  return { directions: mutated, count: Math.min(count, mutated.length) };
+};
+
+/**
+ * Reverses the order of random segments of the genome, the same moves are made in the opposite order.
+ */
+export const reverseMutation: MutationOperator = (directions, rate, random) =>
+  segmentMutation(directions, rate, random, (segment) => segment.reverse());
+
+/**
+ * Rotates random segments of the genome by a random offset, moves inside a segment happen earlier or later.
+ */
+export const shiftMutation: MutationOperator = (directions, rate, random) =>
+  segmentMutation(directions, rate, random, (segment) => {
+    const offset = 1 + random.int(segment.length - 1);
+    return [...segment.slice(offset), ...segment.slice(0, offset)];
+  });
+
+export const mutationOperators: Record<'reset' | 'gaussian' | 'swap' | 'reverse' | 'shift', MutationOperator> = {
+  reset: resetMutation,
+  gaussian: gaussianMutation,
+  swap: swapMutation,
+  reverse: reverseMutation,
+  shift: shiftMutation,
+};
+
+export type MutationName = keyof typeof mutationOperators;
+
+export interface MutationScheduleOptions {
+  mutationDecay: number; // factor the rate is multiplied by every generation by the decay schedule
+  minMutationRate: number; // lowest rate any schedule or self-adaptive cell can use
+  maxMutationRate: number; // highest rate any schedule or self-adaptive cell can use
+  stallGenerations: number; // generations without a new best fitness before the stall schedule increases the rate
+  stallBoost: number; // factor the stall schedule multiplies the rate by for every stallGenerations without progress
+  minDiversity: number; // diversity below which the stall schedule counts a generation as stalled
+  diversityTolerance: number; // smallest change in diversity between generations that the stall schedule counts as progress
+  selfAdaptation: number; // standard deviation of the log-normal change to a self-adaptive cell's rate per generation
+}
+
+export const defaultMutationScheduleOptions: MutationScheduleOptions = {
+  mutationDecay: 0.98,
+  minMutationRate: 0.001,
+  maxMutationRate: 0.5,
+  stallGenerations: 10,
+  stallBoost: 2,
+  minDiversity: 0.05,
+  diversityTolerance: 0.001,
+  selfAdaptation: 0.2,
+};
+
+/**
+ * Returns the mutation rate for breeding the next generation from the base rate and the statistics of every generation
+ * so far. Schedules only depend on the history so a loaded run continues with the same rate.
+ */
+export type MutationSchedule = (rate: number, history: GenerationStats[], options: MutationScheduleOptions) => number;
+
+const clampRate = (rate: number, options: MutationScheduleOptions) =>
+  Math.max(options.minMutationRate, Math.min(options.maxMutationRate, rate));
+
+/**
+ * Always the base rate.
+ */
+export const constantSchedule: MutationSchedule = (rate) => rate;
+
+/**
+ * The base rate decays exponentially over generations, exploring early and fine tuning late.
+ */
+export const decaySchedule: MutationSchedule = (rate, history, options) =>
+  clampRate(rate * Math.pow(options.mutationDecay, history.length), options);
+
+/**
+ * Returns the number of most recent generations that did not beat the best fitness of the generations before them.
+ * @param history
+ */
+export const stalledGenerations = (history: GenerationStats[]) => {
+  let best = -Infinity;
+  let lastImprovement = -1;
+  history.forEach((stats, i) => {
+    if (stats.bestFitness > best) {
+      best = stats.bestFitness;
+      lastImprovement = i;
+    }
+  });
+  return history.length - 1 - lastImprovement;
+};
+
+/**
+ * Returns the number of most recent generations in a row whose diversity was below minDiversity or changed by less than
+ * diversityTolerance since the generation before, the population has converged or stopped exploring.
+ * @param history
+ * @param options
+ */
+export const stagnantGenerations = (history: GenerationStats[], options: MutationScheduleOptions) => {
+  let count = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const { diversity } = history[i];
+    const unchanged = i > 0 && Math.abs(diversity - history[i - 1].diversity) < options.diversityTolerance;
+    if (!(diversity < options.minDiversity) && !unchanged) break;
+    count++;
+  }
+  return count;
+};
+
+/**
+ * The base rate is multiplied by stallBoost for every stallGenerations in a row without a new best fitness or with
+ * stagnant diversity, and returns to the base rate as soon as the best fitness improves and diversity moves again.
+ */
+export const stallSchedule: MutationSchedule = (rate, history, options) => {
+  const stalled = Math.max(stalledGenerations(history), stagnantGenerations(history, options));
+  const boosts = Math.floor(stalled / Math.max(1, options.stallGenerations));
+  return boosts === 0 ? rate : clampRate(rate * Math.pow(options.stallBoost, boosts), options);
+};
+
+/**
+ * Every cell carries its own rate in its genome, the base rate is only used for cells that have none. Children inherit
+ * the rate of their parent with a log-normal change, rates that produce fitter children spread through the population.
+ */
+export const selfAdaptiveSchedule: MutationSchedule = (rate) => rate;
+
+export const mutationSchedules: Record<'constant' | 'decay' | 'stall' | 'self-adaptive', MutationSchedule> = {
+  constant: constantSchedule,
+  decay: decaySchedule,
+  stall: stallSchedule,
+  'self-adaptive': selfAdaptiveSchedule,
+};
+
+export type MutationScheduleName = keyof typeof mutationSchedules;
+
+/**
+ * Returns the rate a self-adaptive child inherits, the parent's rate changed by a log-normal factor.
+ * @param rate - the parent's rate
+ * @param random
+ * @param options
+ */
+export const adaptRate = (rate: number, random: Random, options: MutationScheduleOptions) =>
+  clampRate(rate * Math.exp(random.gaussian() * options.selfAdaptation), options);
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { Random } from '../utils/random';
+import { NeuralNetwork, weightCrossoverOperators } from './network';
+
+describe('NeuralNetwork', () => {
+  it('should count weights including biases', () => {
+    expect(NeuralNetwork.weightCount([3, 4, 2])).toBe(4 * 4 + 2 * 5);
+  });
+
+  it('should reject the wrong number of weights', () => {
+    expect(() => new NeuralNetwork([2, 1], [1, 2])).toThrow('Expected 3 weights but got 2');
+  });
+
+  it('should compute tanh of the weighted sum of inputs', () => {
+    const network = new NeuralNetwork([2, 1], [0.5, 1, -1]);
+    expect(network.activate([2, 1])).toEqual([Math.tanh(0.5 + 2 - 1)]);
+  });
+
+  it('should return one output per neuron in the last layer', () => {
+    const network = NeuralNetwork.random([5, 8, 2], new Random(1));
+    const outputs = network.activate([1, 0, -1, 0.5, 0.2]);
+    expect(outputs).toHaveLength(2);
+    outputs.forEach((output) => expect(Math.abs(output)).toBeLessThanOrEqual(1));
+  });
+
+  it('should clone without sharing weights', () => {
+    const network = NeuralNetwork.random([2, 2], new Random(1));
+    const clone = network.clone();
+    clone.weights[0] = 100;
+    expect(network.weights[0]).not.toBe(100);
+  });
+});
+
+describe('weightCrossoverOperators', () => {
+  it('should blend weights between both parents', () => {
+    const child = weightCrossoverOperators.blend([0, 0, 0], [1, 1, 1], new Random(2));
+    child.forEach((weight) => {
+      expect(weight).toBeGreaterThanOrEqual(0);
+      expect(weight).toBeLessThanOrEqual(1);
+    });
+  });
+});
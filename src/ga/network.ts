@@ -0,0 +1,90 @@
+import { Random } from '../utils/random';
+import { CrossoverName, singlePointCrossover, twoPointCrossover, uniformCrossover } from './crossover';
+
+export class NeuralNetwork {
+  layers: number[];
+  weights: number[];
+
+  /**
+   * Constructor for NeuralNetwork, a fully connected feed-forward network with tanh activations.
+   * Weights are stored flat, layer by layer, each neuron has a bias followed by one weight per input.
+   * @param layers - number of neurons in each layer, starting with the inputs and ending with the outputs
+   * @param weights - every weight of the network, see NeuralNetwork.weightCount
+   */
+  constructor(layers: number[], weights: number[]) {
+    if (weights.length !== NeuralNetwork.weightCount(layers)) {
+      throw new Error(`Expected ${NeuralNetwork.weightCount(layers)} weights but got ${weights.length}`);
+    }
+    this.layers = layers;
+    this.weights = weights;
+  }
+
+  /**
+   * Returns the number of weights, including biases, of a network with the given layers
+   * @param layers
+   */
+  static weightCount(layers: number[]) {
+    let count = 0;
+    for (let i = 1; i < layers.length; i++) {
+      count += layers[i] * (layers[i - 1] + 1);
+    }
+    return count;
+  }
+
+  /**
+   * Returns a network with weights picked uniformly in range [-1, 1)
+   * @param layers
+   * @param random
+   */
+  static random(layers: number[], random: Random) {
+    const weights = [];
+    for (let i = 0; i < NeuralNetwork.weightCount(layers); i++) {
+      weights.push(random.range(-1, 1));
+    }
+    return new NeuralNetwork(layers, weights);
+  }
+
+  /**
+   * Returns the outputs of the network for the given inputs, every output is in range [-1, 1]
+   * @param inputs - one value per neuron in the first layer
+   */
+  activate(inputs: number[]) {
+    let values = inputs;
+    let w = 0;
+    for (let layer = 1; layer < this.layers.length; layer++) {
+      const next = [];
+      for (let j = 0; j < this.layers[layer]; j++) {
+        let sum = this.weights[w++]; // bias
+        for (let i = 0; i < values.length; i++) {
+          sum += this.weights[w++] * values[i];
+        }
+        next.push(Math.tanh(sum));
+      }
+      values = next;
+    }
+    return values;
+  }
+
+  /**
+   * Return a copy of this network.
+   */
+  clone() {
+    return new NeuralNetwork([...this.layers], [...this.weights]);
+  }
+}
+
+/**
+ * Child weight is a random point between the weights of both parents.
+ */
+const blendWeights = (a: number[], b: number[], random: Random) =>
+  a.map((weight, i) => weight + random.next() * (b[i] - weight));
+
+/**
+ * Crossover operators for network weights, matching the operators for directions by name.
+ */
+export const weightCrossoverOperators: Record<CrossoverName, (a: number[], b: number[], random: Random) => number[]> = {
+  'single-point': singlePointCrossover,
+  'two-point': twoPointCrossover,
+  uniform: uniformCrossover,
+  blend: blendWeights,
+};
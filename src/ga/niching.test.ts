@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from '../utils/vector';
+import {
+  GenomeDistance,
+  Species,
+  allocateOffspring,
+  defaultNichingOptions,
+  directionDistance,
+  sharedFitness,
+  speciate,
+  speciesColor,
+  weightDistance,
+} from './niching';
+
+interface Genome {
+  fitness: number;
+  position: number; // a one dimensional genome, distance is the difference in position
+}
+
+const distance: GenomeDistance<Genome> = (a, b) => Math.min(1, Math.abs(a.position - b.position));
+
+const up = [new Vector2D(0, -1), new Vector2D(0, -1)];
+
+describe('genome distance', () => {
+  it('should be 0 for the same directions and 1 for opposite directions', () => {
+    expect(directionDistance(up, up)).toBe(0);
+    expect(directionDistance(up, [new Vector2D(0, 2), new Vector2D(0, 1)])).toBe(1);
+    expect(directionDistance(up, [new Vector2D(1, 0), new Vector2D(0, -1)])).toBeCloseTo(0.25);
+  });
+
+  it('should compare weights with large differences counting as 1', () => {
+    expect(weightDistance([0, 0], [0, 0])).toBe(0);
+    expect(weightDistance([0, 0], [1, 5])).toBeCloseTo(0.75);
+  });
+});
+
+describe('sharedFitness', () => {
+  it('should divide fitness between individuals in the same niche', () => {
+    const crowd: Genome[] = [
+      { fitness: 10, position: 0 },
+      { fitness: 10, position: 0 },
+      { fitness: 10, position: 0 },
+      { fitness: 10, position: 0.9 },
+    ];
+    const shared = sharedFitness(crowd, distance, 0.1);
+    expect(shared[0]).toBeCloseTo(10 / 3);
+    expect(shared[3]).toBe(10);
+  });
+});
+
+describe('speciate', () => {
+  const options = { ...defaultNichingOptions, speciesThreshold: 0.2, maxSpecies: 3 };
+
+  it('should group similar individuals and keep species between generations', () => {
+    let id = 0;
+    const first = speciate(
+      [
+        { fitness: 1, position: 0 },
+        { fitness: 2, position: 0.1 },
+        { fitness: 1, position: 0.8 },
+      ],
+      [],
+      distance,
+      options,
+      () => id++,
+    );
+    expect(first.map((species) => species.members.length)).toEqual([2, 1]);
+    expect(first[0].representative.fitness).toBe(2);
+    expect(first[0].color).toBe(speciesColor(0));
+
+    const second = speciate([{ fitness: 1, position: 0.75 }], first, distance, options, () => id++);
+    expect(second.map((species) => species.id)).toEqual([1]); // the first species died out
+  });
+
+  it('should join the closest species once there are as many species as allowed', () => {
+    let id = 0;
+    const individuals = [0, 0.3, 0.6, 0.95].map((position) => ({ fitness: 1, position }));
+    const species = speciate(individuals, [], distance, options, () => id++);
+    expect(species).toHaveLength(3);
+    expect(species[2].members.map((member) => member.position)).toEqual([0.6, 0.95]);
+  });
+});
+
+describe('allocateOffspring', () => {
+  const species = (...fitness: number[][]): Species<Genome>[] =>
+    fitness.map((members, id) => ({
+      id,
+      color: speciesColor(id),
+      representative: { fitness: members[0], position: id },
+      members: members.map((value) => ({ fitness: value, position: id })),
+    }));
+
+  it('should give species offspring in proportion to their mean fitness', () => {
+    // a large species does not get more offspring for being large
+    expect(allocateOffspring(species([3], [1, 1, 1, 1, 1]), 8)).toEqual([6, 2]);
+    expect(allocateOffspring(species([1], [1], [1]), 10).reduce((a, b) => a + b)).toBe(10);
+  });
+
+  it('should share offspring by size when no species has any fitness', () => {
+    expect(allocateOffspring(species([0], [0, 0, 0]), 4)).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,175 @@
+import { Vector2D } from '../utils/vector';
+import { hslToHex } from '../utils/color';
+import { Individual } from './selection';
+
+export interface NichingOptions {
+  sharingRadius: number; // genome distance within which fitness sharing counts two individuals as the same niche
+  speciesThreshold: number; // genome distance within which an individual joins a species
+  maxSpecies: number; // once there are this many species individuals join the closest species instead of a new one
+}
+
+export const defaultNichingOptions: NichingOptions = {
+  sharingRadius: 0.1,
+  speciesThreshold: 0.15,
+  maxSpecies: 8,
+};
+
+/**
+ * none - parents are selected by their raw fitness
+ * sharing - fitness is divided by the number of similar individuals, so crowded niches are less attractive
+ * speciation - individuals are grouped into species, each species breeds a share of the children in proportion to its
+ * mean fitness and parents are only selected from within a species
+ * crowding - every child competes with a copy of its most similar parent living through the same generation, and only
+ * replaces it if it is at least as fit
+ */
+export type NichingName = 'none' | 'sharing' | 'speciation' | 'crowding';
+
+/**
+ * Returns the distance between two direction genomes in range [0, 1], the mean over every gene of (1 - cos θ) / 2 where
+ * θ is the angle between the directions. 0 means the genomes point the same way, random genomes are about 0.5 apart.
+ * Only the genes both genomes have are compared.
+ * @param a
+ * @param b
+ */
+export const directionDistance = (a: Vector2D[], b: Vector2D[]) => {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    const magnitudes = a[i].magnitude() * b[i].magnitude();
+    const cos = magnitudes === 0 ? 1 : (a[i].x * b[i].x + a[i].y * b[i].y) / magnitudes;
+    sum += (1 - cos) / 2;
+  }
+  return sum / length;
+};
+
+/**
+ * Returns the distance between two weight genomes in range [0, 1], the mean absolute difference of the weights with a
+ * difference of 2 or more counting as 1.
+ * @param a
+ * @param b
+ */
+export const weightDistance = (a: number[], b: number[]) => {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += Math.min(1, Math.abs(a[i] - b[i]) / 2);
+  }
+  return sum / length;
+};
+
+/**
+ * Returns the genome distance between two individuals in range [0, 1].
+ */
+export type GenomeDistance<T> = (a: T, b: T) => number;
+
+/**
+ * Returns the shared fitness of every individual, its fitness divided by its niche count. The niche count is the sum of
+ * 1 - distance / radius over every individual closer than radius, including itself. Compares every pair so the cost
+ * grows with the square of the number of individuals.
+ * @param individuals
+ * @param distance
+ * @param radius - sharing radius, individuals further apart do not share fitness
+ */
+export const sharedFitness = <T extends Individual>(individuals: T[], distance: GenomeDistance<T>, radius: number) => {
+  const nicheCounts = individuals.map(() => 1);
+  for (let i = 0; i < individuals.length; i++) {
+    for (let j = i + 1; j < individuals.length; j++) {
+      const d = distance(individuals[i], individuals[j]);
+      if (d < radius) {
+        nicheCounts[i] += 1 - d / radius;
+        nicheCounts[j] += 1 - d / radius;
+      }
+    }
+  }
+  return individuals.map((individual, i) => individual.fitness / nicheCounts[i]);
+};
+
+export interface Species<T> {
+  id: number;
+  color: string;
+  representative: T; // members are compared with it, the fittest member of the previous generation
+  members: T[];
+}
+
+/**
+ * Returns the colour of a species, hues are spread by the golden angle so consecutive species look different.
+ * @param id
+ */
+export const speciesColor = (id: number) => hslToHex(id * 137.508, 0.65, 0.55);
+
+/**
+ * Returns the species of a new generation. Every individual joins the first existing species whose representative is
+ * within speciesThreshold, otherwise it starts a new species unless there are already maxSpecies, in which case it joins
+ * the closest species. Species without members die out and every species is represented by its fittest member.
+ * @param individuals - the fitness of every individual must be calculated beforehand
+ * @param previous - species of the previous generation
+ * @param distance
+ * @param options
+ * @param nextId - returns the id of a new species
+ */
+export const speciate = <T extends Individual>(
+  individuals: T[],
+  previous: Species<T>[],
+  distance: GenomeDistance<T>,
+  options: NichingOptions,
+  nextId: () => number,
+) => {
+  const species: Species<T>[] = previous.map((existing) => ({ ...existing, members: [] }));
+  for (const individual of individuals) {
+    let closest: Species<T> | null = null;
+    let closestDistance = Infinity;
+    for (const candidate of species) {
+      const d = distance(individual, candidate.representative);
+      if (d < closestDistance) {
+        closest = candidate;
+        closestDistance = d;
+      }
+      if (d < options.speciesThreshold) break;
+    }
+    if (closest && (closestDistance < options.speciesThreshold || species.length >= options.maxSpecies)) {
+      closest.members.push(individual);
+    } else {
+      const id = nextId();
+      species.push({ id, color: speciesColor(id), representative: individual, members: [individual] });
+    }
+  }
+
+  return species
+    .filter((existing) => existing.members.length > 0)
+    .map((existing) => ({
+      ...existing,
+      representative: existing.members.reduce((fittest, member) =>
+        member.fitness > fittest.fitness ? member : fittest,
+      ),
+    }));
+};
+
+/**
+ * Returns how many of the given number of offspring each species breeds, in proportion to the mean fitness of its
+ * members (the sum of fitness shared equally within the species). Rounding uses the largest remainders so the counts
+ * add up to the total. If every species has a mean fitness of 0 the offspring are shared in proportion to size.
+ * @param species
+ * @param total - number of offspring to share out
+ */
+export const allocateOffspring = <T extends Individual>(species: Species<T>[], total: number) => {
+  const means = species.map(
+    (existing) => existing.members.reduce((sum, member) => sum + member.fitness, 0) / existing.members.length,
+  );
+  const sum = means.reduce((a, b) => a + b, 0);
+  const weights = sum > 0 ? means : species.map((existing) => existing.members.length);
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  if (weightSum === 0) return species.map(() => 0);
+
+  const exact = weights.map((weight) => (weight / weightSum) * total);
+  const counts = exact.map(Math.floor);
+  const order = exact.map((value, i) => i).sort((a, b) => exact[b] - counts[b] - (exact[a] - counts[a]));
+  let remaining = total - counts.reduce((a, b) => a + b, 0);
+  for (const i of order) {
+    if (remaining <= 0) break;
+    counts[i]++;
+    remaining--;
+  }
+  return counts;
+};
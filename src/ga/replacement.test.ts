@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { Individual } from './selection';
+import { defaultReplacementOptions, eliteCount, replacementStrategies } from './replacement';
+
+// sorted from fittest to least fit like the population ranks its cells
+const ranked: Individual[] = Array.from({ length: 10 }, (_, i) => ({ fitness: 10 - i }));
+
+describe('eliteCount', () => {
+  it('should keep the larger of the elite count and the elite fraction', () => {
+    expect(eliteCount(100, { ...defaultReplacementOptions, eliteCount: 2, eliteFraction: 0 })).toBe(2);
+    expect(eliteCount(100, { ...defaultReplacementOptions, eliteCount: 2, eliteFraction: 0.05 })).toBe(5);
+    expect(eliteCount(3, { ...defaultReplacementOptions, eliteCount: 10 })).toBe(3);
+    expect(eliteCount(100, { ...defaultReplacementOptions, eliteCount: 0 })).toBe(0);
+  });
+});
+
+describe('replacement strategies', () => {
+  it('should only keep the elites with generational replacement', () => {
+    const { survivors, parents } = replacementStrategies.generational(ranked, {
+      ...defaultReplacementOptions,
+      eliteCount: 2,
+    });
+    expect(survivors).toEqual(ranked.slice(0, 2));
+    expect(parents).toBe(ranked);
+  });
+
+  it('should only replace the least fit with steady-state replacement', () => {
+    const { survivors } = replacementStrategies['steady-state'](ranked, {
+      ...defaultReplacementOptions,
+      steadyStateRate: 0.3,
+    });
+    expect(survivors).toEqual(ranked.slice(0, 7));
+  });
+
+  it('should keep the mu fittest as survivors and parents with (mu+lambda)', () => {
+    const { survivors, parents } = replacementStrategies['mu-plus-lambda'](ranked, {
+      ...defaultReplacementOptions,
+      muFraction: 0.3,
+    });
+    expect(survivors).toEqual(ranked.slice(0, 3));
+    expect(parents).toEqual(ranked.slice(0, 3));
+  });
+
+  it('should keep no survivors with (mu,lambda)', () => {
+    const { survivors, parents } = replacementStrategies['mu-comma-lambda'](ranked, {
+      ...defaultReplacementOptions,
+      muFraction: 0,
+      eliteCount: 5,
+    });
+    expect(survivors).toEqual([]);
+    expect(parents).toEqual(ranked.slice(0, 1)); // there is always at least one parent
+  });
+});
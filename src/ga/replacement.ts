@@ -0,0 +1,92 @@
+import { Individual } from './selection';
+
+export interface ReplacementOptions {
+  eliteCount: number; // number of the fittest individuals copied unchanged into the next generation
+  eliteFraction: number; // fraction of the population kept as elites, the larger of this and eliteCount is used
+  steadyStateRate: number; // fraction of the population replaced by children each generation with steady-state
+  muFraction: number; // fraction of the population that are parents (mu) with (mu+lambda) and (mu,lambda)
+  immigrationRate: number; // fraction of each new generation that are random newcomers instead of children
+}
+
+export const defaultReplacementOptions: ReplacementOptions = {
+  eliteCount: 1,
+  eliteFraction: 0,
+  steadyStateRate: 0.1,
+  muFraction: 0.2,
+  immigrationRate: 0,
+};
+
+/**
+ * Which individuals of a generation carry over unchanged and which can be selected as parents of the children that
+ * fill the rest of the next generation.
+ */
+export interface Replacement<T extends Individual> {
+  survivors: T[];
+  parents: T[];
+}
+
+/**
+ * Decides how a generation is replaced, given the individuals sorted from fittest to least fit.
+ */
+export type ReplacementStrategy = <T extends Individual>(ranked: T[], options: ReplacementOptions) => Replacement<T>;
+
+/**
+ * Returns the number of elites kept from a population of the given size.
+ * @param size
+ * @param options
+ */
+export const eliteCount = (size: number, options: ReplacementOptions) =>
+  Math.min(size, Math.max(0, Math.round(options.eliteCount), Math.round(size * options.eliteFraction)));
+
+/**
+ * Returns the number of parents (mu) kept from a population of the given size, at least one.
+ */
+const muCount = (size: number, options: ReplacementOptions) =>
+  Math.min(size, Math.max(1, Math.round(size * options.muFraction)));
+
+/**
+ * Only the elites survive, every other individual is replaced by a child of parents selected from the whole generation.
+ */
+export const generationalReplacement: ReplacementStrategy = (ranked, options) => ({
+  survivors: ranked.slice(0, eliteCount(ranked.length, options)),
+  parents: ranked,
+});
+
+/**
+ * Only the least fit fraction given by steadyStateRate is replaced by children, the rest survive.
+ */
+export const steadyStateReplacement: ReplacementStrategy = (ranked, options) => {
+  const replaced = Math.round(ranked.length * options.steadyStateRate);
+  const kept = Math.max(ranked.length - replaced, eliteCount(ranked.length, options));
+  return { survivors: ranked.slice(0, kept), parents: ranked };
+};
+
+/**
+ * (mu+lambda), the mu fittest survive and are the only parents, lambda children fill the rest of the generation so
+ * parents compete with their children for survival.
+ */
+export const muPlusLambdaReplacement: ReplacementStrategy = (ranked, options) => {
+  const parents = ranked.slice(0, muCount(ranked.length, options));
+  return { survivors: parents, parents };
+};
+
+/**
+ * (mu,lambda), the mu fittest are the only parents but none survive, the next generation is entirely children. Elitism
+ * does not apply so good solutions can be lost, which helps escape local optima.
+ */
+export const muCommaLambdaReplacement: ReplacementStrategy = (ranked, options) => ({
+  survivors: [],
+  parents: ranked.slice(0, muCount(ranked.length, options)),
+});
+
+export const replacementStrategies: Record<
+  'generational' | 'steady-state' | 'mu-plus-lambda' | 'mu-comma-lambda',
+  ReplacementStrategy
+> = {
+  generational: generationalReplacement,
+  'steady-state': steadyStateReplacement,
+  'mu-plus-lambda': muPlusLambdaReplacement,
+  'mu-comma-lambda': muCommaLambdaReplacement,
+};
+
+export type ReplacementName = keyof typeof replacementStrategies;
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Random } from '../utils/random';
+import {
+  Individual,
+  SelectionStrategy,
+  defaultSelectionOptions,
+  rankSelection,
+  rouletteSelection,
+  stochasticUniversalSampling,
+  tournamentSelection,
+  truncationSelection,
+} from './selection';
+
+const individuals: Individual[] = [{ fitness: 1 }, { fitness: 2 }, { fitness: 3 }, { fitness: 1000 }, { fitness: 0 }];
+
+/**
+ * Returns how many times each individual was selected out of the given number of selections.
+ */
+const countSelections = (strategy: SelectionStrategy, selections: number, options = defaultSelectionOptions) => {
+  const select = strategy(individuals, new Random(1), options);
+  const counts = individuals.map(() => 0);
+  for (let i = 0; i < selections; i++) {
+    counts[individuals.indexOf(select())]++;
+  }
+  return counts;
+};
+
+describe('rouletteSelection', () => {
+  it('should select individuals in proportion to fitness', () => {
+    const counts = countSelections(rouletteSelection, 1000);
+    expect(counts[3]).toBeGreaterThan(980);
+    expect(counts[4]).toBe(0);
+  });
+
+  it('should select uniformly when every fitness is 0', () => {
+    const select = rouletteSelection([{ fitness: 0 }, { fitness: 0 }], new Random(1), defaultSelectionOptions);
+    expect(select()).toBeDefined();
+  });
+});
+
+describe('tournamentSelection', () => {
+  it('should never select the least fit individual with large tournaments', () => {
+    const counts = countSelections(tournamentSelection, 500, { ...defaultSelectionOptions, tournamentSize: 50 });
+    expect(counts[4]).toBe(0);
+    expect(counts[3]).toBeGreaterThan(450);
+  });
+
+  it('should select uniformly with a tournament size of 1', () => {
+    const counts = countSelections(tournamentSelection, 1000, { ...defaultSelectionOptions, tournamentSize: 1 });
+    expect(Math.min(...counts)).toBeGreaterThan(100);
+  });
+});
+
+describe('rankSelection', () => {
+  it('should select by rank rather than by fitness', () => {
+    const counts = countSelections(rankSelection, 1500);
+    // ranks are 1..5 so the fittest individual is picked about a third of the time
+    expect(counts[3]).toBeGreaterThan(400);
+    expect(counts[3]).toBeLessThan(600);
+    expect(counts[4]).toBeGreaterThan(0);
+  });
+});
+
+describe('stochasticUniversalSampling', () => {
+  it('should select individuals close to their expected count', () => {
+    const counts = countSelections(stochasticUniversalSampling, individuals.length);
+    expect(counts[3]).toBe(5);
+  });
+
+  it('should keep selecting after a batch runs out', () => {
+    const counts = countSelections(stochasticUniversalSampling, 12);
+    expect(counts.reduce((a, b) => a + b)).toBe(12);
+  });
+});
+
+describe('truncationSelection', () => {
+  it('should only select from the fittest fraction', () => {
+    const counts = countSelections(truncationSelection, 200, { ...defaultSelectionOptions, truncationRate: 0.4 });
+    expect(counts[2] + counts[3]).toBe(200);
+  });
+});
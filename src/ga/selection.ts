@@ -0,0 +1,170 @@
+import { Random } from '../utils/random';
+
+export interface Individual {
+  fitness: number;
+}
+
+export interface SelectionOptions {
+  tournamentSize: number; // number of individuals that compete in each tournament
+  truncationRate: number; // fraction of the fittest individuals that can be selected by truncation selection
+}
+
+export const defaultSelectionOptions: SelectionOptions = {
+  tournamentSize: 3,
+  truncationRate: 0.2,
+};
+
+/**
+ * Returns a parent selected from the individuals a Selector was created for.
+ */
+export type Selector<T extends Individual> = () => T;
+
+/**
+ * Creates a Selector for one generation of individuals, anything the strategy needs (sums, sorting, ranks) is computed
+ * once here instead of every time a parent is selected. The fitness of every individual must be calculated beforehand.
+ */
+export type SelectionStrategy = <T extends Individual>(
+  individuals: T[],
+  random: Random,
+  options: SelectionOptions,
+) => Selector<T>;
+
+/**
+ * Returns a Selector that picks index i with a chance proportional to weights[i]. The cumulative sum of weights is
+ * computed once and a random value in range [0, sum of weights) is located with a binary search. If every weight is 0
+ * an index is picked uniformly.
+ * @param weights - non-negative weight of each index
+ * @param random
+ */
+const weightedIndex = (weights: number[], random: Random) => {
+  const cumulative: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < weights.length; i++) {
+    sum += weights[i];
+    cumulative.push(sum);
+  }
+
+  return () => {
+    if (sum <= 0) return random.int(weights.length);
+    const target = random.next() * sum;
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (cumulative[mid] >= target) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    return low;
+  };
+};
+
+/**
+ * Returns the indices of individuals sorted from least fit to fittest.
+ */
+const sortedIndices = (individuals: Individual[]) =>
+  individuals.map((_, i) => i).sort((a, b) => individuals[a].fitness - individuals[b].fitness);
+
+/**
+ * Fitness proportionate selection, fitter individuals have a higher chance of being selected.
+ */
+export const rouletteSelection: SelectionStrategy = (individuals, random) => {
+  const pick = weightedIndex(
+    individuals.map((individual) => individual.fitness),
+    random,
+  );
+  return () => individuals[pick()];
+};
+
+/**
+ * Selects the fittest of tournamentSize individuals picked uniformly at random, the chance of being selected depends
+ * only on how an individual compares to others and not on how much fitter it is.
+ */
+export const tournamentSelection: SelectionStrategy =
+  (individuals, random, { tournamentSize }) =>
+  () => {
+    let best = individuals[random.int(individuals.length)];
+    for (let i = 1; i < tournamentSize; i++) {
+      const contender = individuals[random.int(individuals.length)];
+      if (contender.fitness > best.fitness) {
+        best = contender;
+      }
+    }
+    return best;
+  };
+
+/**
+ * Linear rank selection, the least fit individual has weight 1 and the fittest has weight equal to the number of
+ * individuals so one very fit individual cannot dominate selection.
+ */
+export const rankSelection: SelectionStrategy = (individuals, random) => {
+  const order = sortedIndices(individuals);
+  const pick = weightedIndex(
+    order.map((_, rank) => rank + 1),
+    random,
+  );
+  return () => individuals[order[pick()]];
+};
+
+/**
+ * Stochastic universal sampling, selects a whole generation of parents at once using evenly spaced pointers over the
+ * cumulative fitness so the number of times an individual is selected is close to its expected value. Parents are
+ * handed out in a shuffled order and a new batch is sampled when they run out.
+ */
+export const stochasticUniversalSampling: SelectionStrategy = (individuals, random) => {
+  const cumulative: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < individuals.length; i++) {
+    sum += individuals[i].fitness;
+    cumulative.push(sum);
+  }
+
+  let batch: number[] = [];
+  const sample = () => {
+    const n = individuals.length;
+    if (sum <= 0) {
+      batch = individuals.map(() => random.int(n));
+      return;
+    }
+    const spacing = sum / n;
+    let pointer = random.next() * spacing;
+    let index = 0;
+    batch = [];
+    for (let i = 0; i < n; i++) {
+      while (index < n - 1 && cumulative[index] < pointer) index++;
+      batch.push(index);
+      pointer += spacing;
+    }
+    // shuffle so consecutive parents are not always neighbours
+    for (let i = n - 1; i > 0; i--) {
+      const j = random.int(i + 1);
+      [batch[i], batch[j]] = [batch[j], batch[i]];
+    }
+  };
+
+  return () => {
+    if (batch.length === 0) sample();
+    return individuals[batch.pop() as number];
+  };
+};
+
+/**
+ * Selects uniformly from the fittest truncationRate fraction of individuals, at least one individual is always kept.
+ */
+export const truncationSelection: SelectionStrategy = (individuals, random, { truncationRate }) => {
+  const order = sortedIndices(individuals).reverse();
+  const count = Math.max(1, Math.round(individuals.length * truncationRate));
+  return () => individuals[order[random.int(count)]];
+};
+
+export const selectionStrategies = {
+  roulette: rouletteSelection,
+  tournament: tournamentSelection,
+  rank: rankSelection,
+  sus: stochasticUniversalSampling,
+  truncation: truncationSelection,
+};
+
+export type SelectionName = keyof typeof selectionStrategies;
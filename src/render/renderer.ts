@@ -0,0 +1,233 @@
+import { OrganismSnapshot, SimulationSnapshot, WorldSnapshot } from '../simulation/simulation';
+import { CellFrame, unpackColor } from '../simulation/frame';
+import { WALL_THICKNESS, Wall } from '../simulation/wall';
+import { EcosystemSnapshot, PredatorSnapshot } from '../ecosystem/ecosystem';
+import { DeathMarker, Heatmap, OverlaySnapshot } from '../simulation/overlays';
+
+/**
+ * Colour of the death markers of each cause.
+ */
+export const deathColors: Record<DeathMarker['cause'], string> = {
+  virus: '#4287F5',
+  wall: '#2C2C2C',
+  energy: '#FFFFFF',
+};
+
+export class CanvasRenderer {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D | null;
+
+  /**
+   * Constructor for CanvasRenderer.
+   * @param canvas - canvas that snapshots of the simulation will be drawn on
+   */
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.context = canvas.getContext('2d');
+  }
+
+  /**
+   * Clears the canvas and draws the walls, start, goals, viruses and cells of a snapshot. Overlays are drawn between the
+   * world and the cells, except death markers which are drawn on top.
+   * @param snapshot
+   * @param overlays
+   */
+  render(snapshot: SimulationSnapshot, overlays: OverlaySnapshot = {}) {
+    if (!this.context) return;
+    this.drawWorld(snapshot);
+    if (overlays.heatmap) this.drawHeatmap(overlays.heatmap);
+    if (overlays.trails) this.drawTrails(overlays.trails);
+    if (overlays.elitePath) this.drawPath(overlays.elitePath, '#000000');
+    for (let i = 0; i < snapshot.cells.length; i++) {
+      this.drawOrganism(snapshot.cells[i]);
+    }
+    if (overlays.deaths) this.drawDeaths(overlays.deaths);
+  }
+
+  /**
+   * Clears the canvas and draws the world and the cells of a frame posted by the simulation worker.
+   * @param world
+   * @param frame
+   */
+  renderFrame(world: WorldSnapshot, frame: CellFrame) {
+    const context = this.context;
+    if (!context) return;
+    // moving goals are in the frame, the world only has where they were when it was posted
+    const goals = world.goals.map((goal, i) => ({ ...goal, x: frame.goals[i * 2], y: frame.goals[i * 2 + 1] }));
+    this.drawWorld({ ...world, goals });
+    for (let i = 0; i < frame.count; i++) {
+      context.beginPath();
+      context.arc(frame.positions[i * 2], frame.positions[i * 2 + 1], frame.radii[i], 0, 2 * Math.PI, false);
+      context.fillStyle = unpackColor(frame.colors[i]);
+      context.fill();
+    }
+  }
+
+  /**
+   * Clears the canvas and draws the walls, start, goals and viruses.
+   * @param world
+   */
+  drawWorld(world: WorldSnapshot) {
+    if (!this.context) return;
+    this.context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+
+    for (let i = 0; i < world.walls.length; i++) {
+      this.drawWall(world.walls[i]);
+    }
+    this.drawStart(world.start.x, world.start.y);
+    for (let i = 0; i < world.goals.length; i++) {
+      this.drawOrganism(world.goals[i]);
+    }
+    for (let i = 0; i < world.viruses.length; i++) {
+      this.drawOrganism(world.viruses[i]);
+    }
+  }
+
+  /**
+   * Clears the canvas and draws the food and predators of an ecosystem snapshot.
+   * @param snapshot
+   */
+  renderEcosystem(snapshot: EcosystemSnapshot) {
+    if (!this.context) return;
+    this.context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+
+    for (let i = 0; i < snapshot.food.length; i++) {
+      this.drawOrganism(snapshot.food[i]);
+    }
+    for (let i = 0; i < snapshot.predators.length; i++) {
+      this.drawPredator(snapshot.predators[i]);
+    }
+  }
+
+  /**
+   * Draw a predator with its sense radius as a black ring and its velocity as a black line.
+   * @param predator
+   */
+  drawPredator(predator: PredatorSnapshot) {
+    if (!this.context) return;
+    this.context.strokeStyle = '#000000';
+    this.context.beginPath();
+    this.context.arc(predator.x, predator.y, predator.senseRadius, 0, 2 * Math.PI, false);
+    this.context.stroke();
+    this.context.beginPath();
+    this.context.moveTo(predator.x, predator.y);
+    this.context.lineTo(predator.x + predator.vx * 5, predator.y + predator.vy * 5); // scaled so slow predators are visible
+    this.context.stroke();
+    this.drawOrganism(predator);
+  }
+
+  /**
+   * Draw organism as a colour filled circle on the canvas at the organisms x,y coordinates.
+   * @param organism
+   */
+  drawOrganism(organism: OrganismSnapshot) {
+    if (!this.context) return;
+    this.context.beginPath();
+    this.context.arc(organism.x, organism.y, organism.radius, 0, 2 * Math.PI, false);
+    this.context.fillStyle = organism.color;
+    this.context.fill();
+  }
+
+  /**
+   * Draw a path as a line through its points.
+   * @param points - x, y pairs of every point along the path
+   * @param color
+   */
+  drawPath(points: ArrayLike<number>, color: string) {
+    if (!this.context || points.length < 4) return;
+    this.context.beginPath();
+    this.context.moveTo(points[0], points[1]);
+    for (let i = 2; i < points.length; i += 2) {
+      this.context.lineTo(points[i], points[i + 1]);
+    }
+    this.context.strokeStyle = color;
+    this.context.lineWidth = 2;
+    this.context.stroke();
+    this.context.lineWidth = 1;
+  }
+
+  /**
+   * Draw the path of every cell as a faint line, so the routes many cells take stand out.
+   * @param trails - x, y pairs of every point along each path
+   */
+  drawTrails(trails: number[][]) {
+    if (!this.context) return;
+    this.context.beginPath();
+    for (const trail of trails) {
+      this.context.moveTo(trail[0], trail[1]);
+      for (let i = 2; i < trail.length; i += 2) {
+        this.context.lineTo(trail[i], trail[i + 1]);
+      }
+    }
+    this.context.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    this.context.stroke();
+  }
+
+  /**
+   * Draw every bin of a heatmap as a yellow square, the more steps cells spent in a bin the more opaque it is. Opacity
+   * grows with the square root of the count so quiet areas remain visible next to the start.
+   * @param heatmap
+   */
+  drawHeatmap(heatmap: Heatmap) {
+    if (!this.context || heatmap.max === 0) return;
+    const { binSize, columns, counts, max } = heatmap;
+    for (let i = 0; i < counts.length; i++) {
+      if (counts[i] === 0) continue;
+      this.context.fillStyle = `rgba(255, 221, 0, ${(0.8 * Math.sqrt(counts[i] / max)).toFixed(3)})`;
+      this.context.fillRect((i % columns) * binSize, Math.floor(i / columns) * binSize, binSize, binSize);
+    }
+  }
+
+  /**
+   * Draw a cross where each cell died, coloured by deathColors.
+   * @param deaths
+   */
+  drawDeaths(deaths: DeathMarker[]) {
+    if (!this.context) return;
+    for (const cause of Object.keys(deathColors) as DeathMarker['cause'][]) {
+      this.context.beginPath();
+      for (const { x, y } of deaths.filter((death) => death.cause === cause)) {
+        this.context.moveTo(x - 3, y - 3);
+        this.context.lineTo(x + 3, y + 3);
+        this.context.moveTo(x + 3, y - 3);
+        this.context.lineTo(x - 3, y + 3);
+      }
+      this.context.strokeStyle = deathColors[cause];
+      this.context.stroke();
+    }
+  }
+
+  /**
+   * Draw a wall as a filled rectangle or a thick line.
+   * @param wall
+   */
+  drawWall(wall: Wall) {
+    if (!this.context) return;
+    this.context.fillStyle = '#2C2C2C';
+    this.context.strokeStyle = '#2C2C2C';
+    if (wall.type === 'rect') {
+      this.context.fillRect(wall.x, wall.y, wall.width, wall.height);
+      return;
+    }
+    this.context.beginPath();
+    this.context.lineWidth = WALL_THICKNESS;
+    this.context.lineCap = 'round';
+    this.context.moveTo(wall.x1, wall.y1);
+    this.context.lineTo(wall.x2, wall.y2);
+    this.context.stroke();
+    this.context.lineWidth = 1;
+  }
+
+  /**
+   * Draw the point cells start at as a ring.
+   * @param x
+   * @param y
+   */
+  drawStart(x: number, y: number) {
+    if (!this.context) return;
+    this.context.beginPath();
+    this.context.arc(x, y, 5, 0, 2 * Math.PI, false);
+    this.context.strokeStyle = '#FFFFFF';
+    this.context.stroke();
+  }
+}
@@ -0,0 +1,214 @@
+import { Vector2D } from '../utils/vector';
+import { Random } from '../utils/random';
+import { CrossoverName, crossoverOperators } from '../ga/crossover';
+import { MutationName, mutationOperators } from '../ga/mutation';
+import { directionDistance } from '../ga/niching';
+import { Organism } from './organism';
+import { Contact, Environment } from './environment';
+
+/**
+ * Returns an array of random unit Vector2D accelerations, one for each unit of energy a Cell has.
+ * @param energy - the amount of directions to create
+ * @param random - random number generator used to pick each direction
+ */
+export const randomDirections = (energy: number, random: Random) => {
+  const directions = [];
+  for (let i = 0; i < energy; i++) {
+    directions.push(Vector2D.fromAngle(random.angle()));
+  }
+  return directions;
+};
+
+export type DeathCause = 'energy' | 'wall' | 'virus' | 'goal';
+
+export class Cell extends Organism {
+  startPosition: Vector2D;
+  velocity: Vector2D;
+  acceleration: Vector2D;
+  directions: Vector2D[];
+  energy: number;
+  minEnergy: number;
+  maxEnergy: number;
+  speed: number;
+  fitness: number;
+  isDead: boolean;
+  reachedGoal: boolean;
+  goalsReached: number;
+  deathCause: DeathCause | null;
+  steps: number;
+  pathLength: number;
+  contactPoint: Vector2D | null;
+  contactStep: number | null;
+  mutationRate: number | null;
+  crowdingParent: Cell | null;
+
+  /**
+   * Constructor for Cell.
+   * @param position - coordinates in the world that the Cell starts at.
+   * @param directions - the directions / accelerations of the Cell, the Cell has one unit of energy per direction.
+   * @param speed - distance the Cell moves each step.
+   */
+  constructor(position: Vector2D, directions: Vector2D[], speed: number = 5) {
+    super(position, 2, '#FFFFFF');
+
+    this.startPosition = position.clone();
+
+    this.velocity = new Vector2D(0, 0);
+    this.acceleration = new Vector2D(0, 0);
+
+    this.directions = directions;
+
+    const energy = directions.length;
+    this.energy = energy - 1; // energy is used as an index for the directions array
+    this.minEnergy = energy; // min amount of energy that this cell has had
+    this.maxEnergy = energy;
+    this.speed = speed;
+    this.fitness = 0;
+    this.isDead = false;
+    this.reachedGoal = false;
+    this.goalsReached = 0; // number of goals reached, a sequence of goals is only complete once every goal is reached
+    this.deathCause = null; // why the Cell stopped moving, reaching the goal is also recorded as a cause
+    this.steps = 0; // number of moves made
+    this.pathLength = 0; // total distance travelled
+    this.contactPoint = null; // where the Cell touched the goal or an obstacle
+    this.contactStep = null; // fractional step at which the contact happened, i.e. 11.5 is halfway through the 12th move
+    this.mutationRate = null; // the Cell's own mutation rate when rates are self-adaptive, null uses the population's
+    this.crowdingParent = null; // copy of the parent this Cell competes with in its own generation with crowding
+  }
+
+  /**
+   * Returns the acceleration of the Cell for its current step, taken from directions.
+   */
+  steer() {
+    return this.directions[this.energy]; // get acceleration Vector2D from directions
+  }
+
+  /**
+   * Move the Cell by updating its acceleration, velocity and x,y coordinates.
+   */
+  move() {
+    this.acceleration = this.steer();
+
+    const velocity = this.velocity.add(this.acceleration);
+    if (velocity.magnitude() > 0) {
+      this.velocity = velocity
+        .normalize() // make velocity vector a unit vector to preserve direction given by acceleration
+        .multiply(this.speed); // direction of velocity is different but speed is constant
+    }
+
+    this.position = this.position.add(this.velocity);
+    this.steps++;
+    this.pathLength += this.velocity.magnitude();
+  }
+
+  /**
+   * Moves the Cell if it is alive, and checks if the Cell left the boundaries of the environment, reached the goal or
+   * touched a virus or wall anywhere along the way it moved, so fast cells cannot pass through obstacles between steps.
+   * If the Cell goes outside the boundaries of the environment, touches an obstacle or reaches the goal we consider it dead
+   * so we no longer update it, the reason it died is kept in deathCause. Reaching a goal of a sequence that is not the
+   * last one is counted and the Cell carries on moving.
+   * @param environment
+   */
+  update(environment: Environment) {
+    if (!this.isDead) {
+      if (this.energy > 0) {
+        const from = this.position;
+        this.move();
+        this.energy--;
+
+        let contact = environment.sweep(from, this.position, this.radius, this.goalsReached);
+        while (contact && contact.cause === 'goal' && this.goalsReached + 1 < environment.goalsNeeded) {
+          this.goalsReached++;
+          environment.consume(contact.goal as number);
+          const done = contact.t; // fraction of the move completed before the rest is checked for the next goal
+          contact = environment.sweep(contact.point, this.position, this.radius, this.goalsReached);
+          if (contact) contact.t = done + (1 - done) * contact.t;
+        }
+        if (contact) {
+          if (contact.cause === 'goal') environment.consume(contact.goal as number);
+          this.touch(contact, from);
+        }
+      } else {
+        this.die('energy');
+      }
+    }
+  }
+
+  /**
+   * Stop the Cell where it made contact with the goal or an obstacle during its last move and record the contact.
+   * @param contact
+   * @param from - position at the start of the last move
+   */
+  touch(contact: Contact, from: Vector2D) {
+    this.pathLength -= (1 - contact.t) * from.distance(this.position); // the rest of the move never happened
+    this.position = contact.point;
+    this.contactPoint = contact.point.clone();
+    this.contactStep = this.steps - 1 + contact.t;
+    if (contact.cause === 'goal') {
+      this.goalsReached++;
+      this.reachedGoal = true;
+    }
+    this.die(contact.cause);
+  }
+
+  /**
+   * Mark the Cell as dead for the given reason.
+   * @param cause
+   */
+  die(cause: DeathCause) {
+    this.isDead = true;
+    this.deathCause = cause;
+  }
+
+  /**
+   * Mutates the cell by changing acceleration Vector2D in directions with a mutation operator, the chance of a mutation
+   * is given by mutationRate. The default operator replaces an acceleration Vector2D with a Vector2D that was used in
+   * the parent of this Cell, or with a random Vector2D with a chance given by mutationRate.
+   * @param mutationRate - percentage chance that a mutation will occur
+   * @param random - random number generator used to decide which mutations occur
+   * @param operator - name of the mutation operator
+   */
+  mutate(mutationRate: number, random: Random, operator: MutationName = 'reset') {
+    this.directions = mutationOperators[operator](this.directions, mutationRate, random, this.minEnergy).directions;
+  }
+
+  /**
+   * Returns how different the genome of this Cell is from the genome of another Cell, in range [0, 1].
+   * @param other
+   */
+  genomeDistance(other: Cell) {
+    return directionDistance(this.directions, other.directions);
+  }
+
+  /**
+   * Return clone of this instance and set the minimum energy to be the remaining energy of this instance.
+   */
+  getChild() {
+    const clone = this.clone();
+    clone.minEnergy = this.energy;
+    return clone;
+  }
+
+  /**
+   * Return a child Cell whose directions are a recombination of the directions of this Cell and a partner Cell. The
+   * minimum energy of the child covers the directions used by either parent.
+   * @param partner - the second parent
+   * @param operator - name of the crossover operator used to combine the directions of both parents
+   * @param random - random number generator used by the crossover operator
+   */
+  crossover(partner: Cell, operator: CrossoverName, random: Random) {
+    const directions = crossoverOperators[operator](this.directions, partner.directions, random);
+    const child = new Cell(this.startPosition, directions, this.speed);
+    child.minEnergy = Math.min(this.energy, partner.energy);
+    return child;
+  }
+
+  /**
+   * Return Cell that has the same directions, x,y, speed and energy values that this instance had when it was created.
+   */
+  clone() {
+    const clone = new Cell(this.startPosition, [...this.directions], this.speed);
+    clone.mutationRate = this.mutationRate;
+    return clone;
+  }
+}
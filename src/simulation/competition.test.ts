@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { Competition, CompetitorConfig, parseCompetitors } from './competition';
+import { Layout } from './layout';
+
+const competitors: CompetitorConfig[] = [
+  { name: 'A', color: '#FF0000', populationSize: 6, energy: 30, mutationRate: 0.01 },
+  { name: 'B', color: '#00FF00', populationSize: 4, energy: 40, selection: 'tournament' },
+];
+const config = { competitors, numOfViruses: 5, seed: 11 };
+
+// cells start right next to the goal so many of them reach it
+const nearGoal: Layout = { start: [300, 300], goals: [[300, 290]], viruses: [], walls: [] };
+
+describe('Competition', () => {
+  it('should run every population in the same world with its own parameters', () => {
+    const competition = new Competition(config);
+    const [a, b] = competition.competitors;
+    expect(a.population.environment).toBe(competition.environment);
+    expect(b.population.environment).toBe(competition.environment);
+    expect(a.population.cells).toHaveLength(6);
+    expect(b.population.cells[0].directions).toHaveLength(40);
+    expect(a.config.mutationRate).toBe(0.01);
+    expect(b.config.selection).toBe('tournament');
+  });
+
+  it('should draw the cells of each population in its colour', () => {
+    const snapshot = new Competition(config).snapshot();
+    expect(snapshot.cells.map((cell) => cell.color)).toEqual([
+      ...Array(6).fill('#FF0000'),
+      ...Array(4).fill('#00FF00'),
+    ]);
+    expect(snapshot.goals).toHaveLength(1);
+  });
+
+  it('should evolve every population together once every cell is dead', () => {
+    const competition = new Competition(config);
+    competition.runGenerations(2);
+    expect(competition.generation).toBe(3);
+    for (const { population } of competition.competitors) {
+      expect(population.generation).toBe(3);
+      expect(population.history).toHaveLength(2);
+    }
+    expect(competition.history.map((stats) => stats.generation)).toEqual([1, 2]);
+    expect(competition.history[1].stats).toEqual(
+      competition.competitors.map(({ population }) => population.history[1]),
+    );
+  });
+
+  it('should produce the same competition from the same seed', () => {
+    const first = new Competition(config);
+    const second = new Competition(config);
+    first.runGenerations(2);
+    second.runGenerations(2);
+    expect(second.history).toEqual(first.history);
+    expect(second.snapshot()).toEqual(first.snapshot());
+  });
+
+  it('should not let more cells reach a goal than it has food', () => {
+    const unlimited = new Competition({ ...config, layout: nearGoal });
+    unlimited.runGeneration();
+    const reached = unlimited.history[0].goalsReached.reduce((a, b) => a + b, 0);
+    expect(reached).toBeGreaterThan(2);
+
+    const limited = new Competition({ ...config, layout: nearGoal, food: 2 });
+    limited.runGeneration();
+    expect(limited.history[0].goalsReached.reduce((a, b) => a + b, 0)).toBe(2);
+    limited.runGeneration();
+    expect(limited.history[1].goalsReached.reduce((a, b) => a + b, 0)).toBeLessThanOrEqual(2);
+  });
+
+  it('should need at least one population', () => {
+    expect(() => new Competition({ competitors: [] })).toThrow('A competition needs at least one population');
+  });
+});
+
+describe('parseCompetitors', () => {
+  it('should parse competitors with valid parameters', () => {
+    expect(parseCompetitors(JSON.stringify(competitors))).toEqual(competitors);
+  });
+
+  it('should report the first invalid competitor', () => {
+    expect(() => parseCompetitors('[]')).toThrow('Invalid competitors: should be a non-empty array');
+    expect(() => parseCompetitors('[{"name": "A"}]')).toThrow('Invalid competitors: competitors[0].color should be');
+    expect(() => parseCompetitors('[{"name": "A", "color": "red", "selection": "lottery"}]')).toThrow(
+      'Invalid competitors: competitors[0].selection should be one of',
+    );
+  });
+});
@@ -0,0 +1,205 @@
+import { Random, randomSeed } from '../utils/random';
+import { Environment } from './environment';
+import { Population } from './population';
+import { Layout, createEnvironment } from './layout';
+import { GenerationStats } from './statistics';
+import { checkConfig } from './persistence';
+import {
+  SimulationConfig,
+  SimulationSnapshot,
+  defaultConfig,
+  defaultEnvironment,
+  snapshotOrganism,
+  snapshotWorld,
+} from './simulation';
+
+/**
+ * Name, colour and parameters of one population of a competition, parameters that are not given are taken from
+ * defaultConfig. The size of the world, the viruses and the layout are shared by every population so they are ignored.
+ */
+export interface CompetitorConfig extends Partial<SimulationConfig> {
+  name: string;
+  color: string;
+}
+
+export interface CompetitionConfig {
+  width: number;
+  height: number;
+  numOfViruses: number; // number of viruses placed randomly if there is no layout
+  layout: Layout | null; // positions of the start, goals, viruses and walls shared by every population
+  food: number | null; // number of cells that can reach each goal every generation, null means no limit
+  competitors: CompetitorConfig[];
+  seed: number; // the seed of every population is drawn from it, so the same seed always produces the same competition
+}
+
+export const defaultCompetitors: CompetitorConfig[] = [
+  { name: 'Roulette', color: '#F5D142', populationSize: 300, selection: 'roulette' },
+  { name: 'Tournament', color: '#42F5E3', populationSize: 300, selection: 'tournament' },
+];
+
+export const defaultCompetitionConfig: Omit<CompetitionConfig, 'seed'> = {
+  width: 600,
+  height: 600,
+  numOfViruses: 30,
+  layout: null,
+  food: null,
+  competitors: defaultCompetitors,
+};
+
+export interface Competitor {
+  name: string;
+  color: string;
+  config: SimulationConfig;
+  population: Population;
+}
+
+export interface CompetitionStats {
+  generation: number;
+  stats: GenerationStats[]; // statistics of each population, in the order of the competitors
+  goalsReached: number[]; // number of goals reached by the cells of each population, the food eaten if it is limited
+}
+
+export class Competition {
+  config: CompetitionConfig;
+  random: Random;
+  environment: Environment;
+  competitors: Competitor[];
+  generation: number;
+  history: CompetitionStats[];
+
+  /**
+   * Constructor for Competition, several populations with their own parameters evolve side by side in one world and
+   * race for the same goals. With limited food only the first cells to reach a goal each generation count as reaching
+   * it, later cells pass through it. Every population has its own random number generator, so the parameters of one
+   * population do not change the random decisions of another.
+   * @param config - any missing values are taken from defaultCompetitionConfig and a random seed is used if none is given
+   */
+  constructor(config: Partial<CompetitionConfig> = {}) {
+    this.config = { ...defaultCompetitionConfig, ...config, seed: config.seed ?? randomSeed() };
+    const { width, height, numOfViruses, layout, food, competitors, seed } = this.config;
+    if (competitors.length === 0) throw new Error('A competition needs at least one population');
+
+    this.random = new Random(seed);
+    this.environment = layout
+      ? createEnvironment(width, height, layout)
+      : defaultEnvironment(width, height, numOfViruses, this.random);
+    this.environment.foodPerGoal = food;
+    this.competitors = competitors.map(({ name, color, ...overrides }) => {
+      const populationConfig = {
+        ...defaultConfig,
+        ...overrides,
+        width,
+        height,
+        numOfViruses,
+        layout,
+        seed: this.random.int(0x100000000),
+      };
+      return {
+        name,
+        color,
+        config: populationConfig,
+        population: new Population(
+          { ...populationConfig, size: populationConfig.populationSize },
+          this.environment,
+          new Random(populationConfig.seed),
+        ),
+      };
+    });
+    this.generation = 1;
+    this.history = []; // statistics of every generation that has evolved
+  }
+
+  /**
+   * Advance every population by a single step. Populations move one after another and the first to move reaches limited
+   * food first, so the order rotates every step to keep the race fair. Once every cell of every population is dead all
+   * populations evolve and the world restarts. Returns true if the populations evolved into a new generation.
+   */
+  step() {
+    this.environment.advance();
+    const count = this.competitors.length;
+    let allDead = true;
+    for (let i = 0; i < count; i++) {
+      const { population } = this.competitors[(i + this.environment.step) % count];
+      if (!population.updateCells()) allDead = false;
+    }
+    if (allDead) this.evolve();
+    return allDead;
+  }
+
+  /**
+   * Evolve every population into a new generation and record how each of them did.
+   */
+  private evolve() {
+    const goalsReached = this.competitors.map(({ population }) =>
+      population.cells.reduce((sum, cell) => sum + cell.goalsReached, 0),
+    );
+    for (const { population } of this.competitors) {
+      population.nextGeneration();
+    }
+    this.history.push({
+      generation: this.generation,
+      stats: this.competitors.map(({ population }) => population.history[population.history.length - 1]),
+      goalsReached,
+    });
+    this.generation++;
+  }
+
+  /**
+   * Step the competition until the current generation has finished and the populations have evolved.
+   */
+  runGeneration() {
+    while (!this.step());
+  }
+
+  /**
+   * Run the given number of complete generations.
+   * @param generations
+   */
+  runGenerations(generations: number) {
+    for (let i = 0; i < generations; i++) {
+      this.runGeneration();
+    }
+  }
+
+  /**
+   * Returns a plain object copy of the world with the cells of every population drawn in the colour of the population.
+   */
+  snapshot(): SimulationSnapshot {
+    return {
+      ...snapshotWorld(this.environment, this.generation),
+      cells: this.competitors.flatMap(({ color, population }) =>
+        population.cells.map((cell) => ({ ...snapshotOrganism(cell), color })),
+      ),
+    };
+  }
+}
+
+/**
+ * Parses competitors given as JSON, i.e. from a URL, throws an error describing the first mismatch if they are not an
+ * array of competitors with valid parameters.
+ * @param text
+ */
+export const parseCompetitors = (text: string): CompetitorConfig[] => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid competitors: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(value) || value.length === 0) throw new Error('Invalid competitors: should be a non-empty array');
+  return value.map((competitor: unknown, i) => {
+    const path = `competitors[${i}]`;
+    if (typeof competitor !== 'object' || competitor === null || Array.isArray(competitor)) {
+      throw new Error(`Invalid competitors: ${path} should be an object`);
+    }
+    const { name, color, ...overrides } = competitor as Record<string, unknown>;
+    if (typeof name !== 'string') throw new Error(`Invalid competitors: ${path}.name should be a string`);
+    if (typeof color !== 'string') throw new Error(`Invalid competitors: ${path}.color should be a string`);
+    try {
+      checkConfig({ seed: 0, ...overrides }, path);
+    } catch (error) {
+      throw new Error(`Invalid competitors: ${(error as Error).message}`);
+    }
+    return { name, color, ...overrides } as CompetitorConfig;
+  });
+};
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from '../utils/vector';
+import { Random } from '../utils/random';
+import { Bacteria, Organism, Virus } from './organism';
+import { Environment, randomGoalPosition, randomViruses } from './environment';
+import { Cell } from './cell';
+
+const createEnvironment = (viruses: Virus[] = []) =>
+  new Environment(100, 100, new Vector2D(50, 95), [new Bacteria(new Vector2D(50, 25))], viruses);
+
+describe('Environment', () => {
+  it('should detect an organism inside the boundaries', () => {
+    const environment = createEnvironment();
+    expect(environment.isOutOfBounds(new Organism(new Vector2D(50, 50), 2, '#FFFFFF'))).toBe(false);
+  });
+
+  it('should detect an organism touching the boundaries', () => {
+    const environment = createEnvironment();
+    expect(environment.isOutOfBounds(new Organism(new Vector2D(1, 50), 2, '#FFFFFF'))).toBe(true);
+    expect(environment.isOutOfBounds(new Organism(new Vector2D(50, 99), 2, '#FFFFFF'))).toBe(true);
+  });
+
+  it('should detect an organism overlapping a virus', () => {
+    const environment = createEnvironment([new Virus(new Vector2D(10, 10))]);
+    expect(environment.virusKills(new Organism(new Vector2D(12, 10), 2, '#FFFFFF'))).toBe(true);
+    expect(environment.virusKills(new Organism(new Vector2D(20, 10), 2, '#FFFFFF'))).toBe(false);
+  });
+
+  it('should index viruses again when they are replaced', () => {
+    const environment = createEnvironment([new Virus(new Vector2D(10, 10))]);
+    environment.viruses = [new Virus(new Vector2D(80, 80))];
+    expect(environment.virusKills(new Organism(new Vector2D(10, 10), 2, '#FFFFFF'))).toBe(false);
+    expect(environment.virusKills(new Organism(new Vector2D(81, 80), 2, '#FFFFFF'))).toBe(true);
+  });
+
+  it('should detect an organism touching a wall', () => {
+    const environment = new Environment(
+      100,
+      100,
+      new Vector2D(50, 95),
+      [new Bacteria(new Vector2D(50, 25))],
+      [],
+      [{ type: 'segment', x1: 0, y1: 50, x2: 100, y2: 50 }],
+    );
+    expect(environment.wallKills(new Organism(new Vector2D(30, 53), 2, '#FFFFFF'))).toBe(true);
+    expect(environment.wallKills(new Organism(new Vector2D(30, 60), 2, '#FFFFFF'))).toBe(false);
+  });
+
+  it('should find the first contact along a movement', () => {
+    const environment = new Environment(
+      100,
+      100,
+      new Vector2D(50, 95),
+      [new Bacteria(new Vector2D(50, 25))],
+      [new Virus(new Vector2D(50, 60))],
+      [{ type: 'rect', x: 40, y: 40, width: 20, height: 2 }],
+    );
+    const contact = environment.sweep(new Vector2D(50, 70), new Vector2D(50, 10), 2);
+    expect(contact?.cause).toBe('virus');
+    expect(contact?.point.toArray()).toEqual([50, 64]);
+    expect(contact?.t).toBeCloseTo(0.1);
+    expect(environment.sweep(new Vector2D(80, 70), new Vector2D(80, 60), 2)).toBeNull();
+  });
+
+  it('should detect a fast organism passing through a virus between steps', () => {
+    const environment = createEnvironment([new Virus(new Vector2D(50, 50))]);
+    const from = new Vector2D(50, 55);
+    const to = new Vector2D(50, 45);
+    expect(environment.virusKills(new Organism(to, 2, '#FFFFFF'))).toBe(false);
+    expect(environment.sweep(from, to, 2)?.cause).toBe('virus');
+  });
+
+  it('should prefer the goal on a tie and treat the boundaries as walls', () => {
+    const environment = createEnvironment();
+    expect(environment.sweep(new Vector2D(50, 25), new Vector2D(50, 20), 2)?.cause).toBe('goal');
+    const contact = environment.sweep(new Vector2D(90, 50), new Vector2D(110, 50), 2);
+    expect(contact?.cause).toBe('wall');
+    expect(contact?.point.toArray()).toEqual([98, 50]);
+  });
+});
+
+describe('Environment with limited food', () => {
+  it('should let cells pass through a goal once its food has run out until the world restarts', () => {
+    const environment = new Environment(100, 100, new Vector2D(50, 95), [new Bacteria(new Vector2D(50, 25))], []);
+    environment.foodPerGoal = 1;
+    const from = new Vector2D(50, 40);
+    const to = new Vector2D(50, 20);
+    expect(environment.sweep(from, to, 2)).toMatchObject({ cause: 'goal', goal: 0 });
+    environment.consume(0);
+    expect(environment.hasFood(0)).toBe(false);
+    expect(environment.sweep(from, to, 2)).toBeNull();
+    environment.restart();
+    expect(environment.sweep(from, to, 2)?.cause).toBe('goal');
+  });
+
+  it('should never run out of food without a limit', () => {
+    const environment = new Environment(100, 100, new Vector2D(50, 95), [new Bacteria(new Vector2D(50, 25))], []);
+    environment.consume(0);
+    expect(environment.hasFood(0)).toBe(true);
+  });
+});
+
+describe('Environment with several goals', () => {
+  const goals = () => [new Bacteria(new Vector2D(50, 60)), new Bacteria(new Vector2D(50, 20))];
+
+  it('should only let cells touch the next goal of a sequence', () => {
+    const environment = new Environment(100, 100, new Vector2D(50, 95), goals(), []);
+    expect(environment.goalsNeeded).toBe(2);
+    expect(environment.targetGoals(0)).toEqual([0]);
+    expect(environment.sweep(new Vector2D(50, 30), new Vector2D(50, 10), 2, 0)).toBeNull();
+    expect(environment.sweep(new Vector2D(50, 30), new Vector2D(50, 10), 2, 1)?.cause).toBe('goal');
+  });
+
+  it('should let cells touch any goal when any goal is enough', () => {
+    const environment = new Environment(100, 100, new Vector2D(50, 95), goals(), [], [], 'any');
+    expect(environment.goalsNeeded).toBe(1);
+    expect(environment.targetGoals(0)).toEqual([0, 1]);
+    expect(environment.nearestGoal(new Vector2D(50, 10), 0)?.toArray()).toEqual([50, 20]);
+  });
+
+  it('should count goals a cell passes and stop it at the last one', () => {
+    const environment = new Environment(100, 100, new Vector2D(50, 95), goals(), []);
+    const cell = new Cell(new Vector2D(50, 70), [new Vector2D(0, -1), new Vector2D(0, -1)], 60);
+    cell.update(environment);
+    expect(cell.goalsReached).toBe(2);
+    expect(cell.reachedGoal).toBe(true);
+    expect(cell.position.toArray()).toEqual([50, 25]);
+    expect(cell.contactStep).toBeCloseTo(0.75);
+  });
+
+  it('should move goals along their paths', () => {
+    const environment = new Environment(100, 100, new Vector2D(50, 95), goals(), [], [], 'sequence', [
+      { goal: 1, points: [new Vector2D(50, 20), new Vector2D(60, 20)], speed: 2 },
+    ]);
+    environment.advance();
+    environment.advance();
+    expect(environment.goals[1].position.toArray()).toEqual([54, 20]);
+    expect(environment.goalPosition(1, 6).toArray()).toEqual([58, 20]);
+    environment.placeGoal(1, new Vector2D(10, 10));
+    expect(environment.goals[1].position.toArray()).toEqual([14, 10]);
+    environment.restart();
+    expect(environment.goals[1].position.toArray()).toEqual([10, 10]);
+  });
+});
+
+describe('randomGoalPosition', () => {
+  it('should place goals inside the world away from the boundaries', () => {
+    const random = new Random(1);
+    for (let i = 0; i < 20; i++) {
+      const position = randomGoalPosition(new Vector2D(50, 95), 100, 100, random);
+      expect(Math.min(position.x, position.y, 100 - position.x, 100 - position.y)).toBeGreaterThanOrEqual(25);
+    }
+  });
+});
+
+describe('randomViruses', () => {
+  it('should place the given number of viruses inside the world', () => {
+    const viruses = randomViruses(20, 100, 50, new Random(1));
+    expect(viruses).toHaveLength(20);
+    for (const virus of viruses) {
+      expect(virus.position.x).toBeGreaterThanOrEqual(0);
+      expect(virus.position.x).toBeLessThan(100);
+      expect(virus.position.y).toBeGreaterThanOrEqual(0);
+      expect(virus.position.y).toBeLessThan(50);
+    }
+  });
+
+  it('should place viruses at the same coordinates for the same seed', () => {
+    const a = randomViruses(10, 100, 100, new Random(3)).map((virus) => virus.position.toArray());
+    const b = randomViruses(10, 100, 100, new Random(3)).map((virus) => virus.position.toArray());
+    expect(a).toEqual(b);
+  });
+});
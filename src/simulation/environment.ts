@@ -0,0 +1,335 @@
+import { Vector2D } from '../utils/vector';
+import { Random } from '../utils/random';
+import { Bacteria, Organism, Virus } from './organism';
+import { WALL_THICKNESS, Wall, wallHits } from './wall';
+import { SpatialGrid } from './spatial-grid';
+import { pointAlongLoop, segmentCircleEntry, sweepCircleRect, sweepCircleSegment } from '../utils/geometry';
+
+export const VIRUS_GRID_CELL_SIZE = 20;
+export const GOAL_MARGIN = 25; // closest a random goal is placed to the boundaries of the world
+
+/**
+ * 'sequence' means every goal has to be reached in order, 'any' means reaching any one of the goals is enough.
+ */
+export type GoalOrder = 'sequence' | 'any';
+
+/**
+ * A scripted path that moves a goal around a closed loop through the points at a constant speed, the loop starts at
+ * the first point and returns to it from the last point.
+ */
+export interface GoalPath {
+  goal: number; // index of the goal that moves
+  points: Vector2D[];
+  speed: number; // distance the goal moves each step
+}
+
+/**
+ * The first thing an organism touches while moving, t is the fraction of the movement completed at the moment of
+ * contact and point is where the organism's centre was at that moment.
+ */
+export interface Contact {
+  cause: 'wall' | 'virus' | 'goal';
+  t: number;
+  point: Vector2D;
+  goal?: number; // index of the goal touched
+}
+
+export class Environment {
+  width: number;
+  height: number;
+  start: Vector2D;
+  goals: Bacteria[];
+  goalOrder: GoalOrder;
+  goalPaths: GoalPath[];
+  walls: Wall[];
+  step: number;
+  foodPerGoal: number | null;
+  virusGrid: SpatialGrid<Virus>;
+  private virusList: Virus[];
+  private eaten: number[];
+
+  /**
+   * Constructor for Environment, the world that a population of cells moves around in.
+   * @param width - width of the world, x coordinates are in the range [0, width]
+   * @param height - height of the world, y coordinates are in the range [0, height]
+   * @param start - coordinates that every cell starts at
+   * @param goals - the goals that cells should move towards
+   * @param viruses - viruses are obstacles for cells
+   * @param walls - walls are obstacles for cells
+   * @param goalOrder - whether the goals have to be reached in order or any one of them is enough
+   * @param goalPaths - paths that move goals around during a generation, goals without a path stay where they are
+   */
+  constructor(
+    width: number,
+    height: number,
+    start: Vector2D,
+    goals: Bacteria[],
+    viruses: Virus[],
+    walls: Wall[] = [],
+    goalOrder: GoalOrder = 'sequence',
+    goalPaths: GoalPath[] = [],
+  ) {
+    this.width = width;
+    this.height = height;
+    this.start = start;
+    this.goals = goals;
+    this.goalOrder = goalOrder;
+    this.goalPaths = goalPaths;
+    this.virusList = viruses;
+    this.virusGrid = new SpatialGrid(VIRUS_GRID_CELL_SIZE, viruses);
+    this.walls = walls;
+    this.step = 0; // number of steps taken in the current generation, moving goals are placed by it
+    this.foodPerGoal = null; // number of cells that can reach each goal every generation, null means no limit
+    this.eaten = []; // number of times each goal has been reached this generation
+  }
+
+  /**
+   * Viruses are obstacles for cells, they are indexed in virusGrid so assign a new array instead of changing this one.
+   */
+  get viruses() {
+    return this.virusList;
+  }
+
+  set viruses(viruses: Virus[]) {
+    this.virusList = viruses;
+    this.virusGrid = new SpatialGrid(VIRUS_GRID_CELL_SIZE, viruses);
+  }
+
+  /**
+   * Number of goals a cell has to reach to have reached the goal of the environment.
+   */
+  get goalsNeeded() {
+    return this.goalOrder === 'sequence' ? this.goals.length : Math.min(1, this.goals.length);
+  }
+
+  /**
+   * Returns the indices of the goals a cell that has already reached the given number of goals is heading for.
+   * @param goalsReached
+   */
+  targetGoals(goalsReached: number) {
+    if (this.goalOrder === 'any') return goalsReached > 0 ? [] : this.goals.map((_, i) => i);
+    return goalsReached < this.goals.length ? [goalsReached] : [];
+  }
+
+  /**
+   * Returns where a goal is at the given step of a generation, goals without a path never move.
+   * @param index - index of the goal
+   * @param step - defaults to the current step
+   */
+  goalPosition(index: number, step = this.step) {
+    const path = this.goalPaths.find((path) => path.goal === index);
+    return path ? pointAlongLoop(path.points, step * path.speed) : this.goals[index].position.clone();
+  }
+
+  /**
+   * Returns the position of the target goal closest to a position at the given step, or null if there is none left.
+   * @param position
+   * @param goalsReached - number of goals already reached
+   * @param step - defaults to the current step
+   */
+  nearestGoal(position: Vector2D, goalsReached: number, step = this.step) {
+    let nearest: Vector2D | null = null;
+    for (const index of this.targetGoals(goalsReached)) {
+      const goal = this.goalPosition(index, step);
+      if (!nearest || position.distance(goal) < position.distance(nearest)) nearest = goal;
+    }
+    return nearest;
+  }
+
+  /**
+   * Move every goal with a path one step further along it.
+   */
+  advance() {
+    this.moveGoals(this.step + 1);
+  }
+
+  /**
+   * Move every goal with a path back to where it starts and put back all the food for a new generation.
+   */
+  restart() {
+    this.moveGoals(0);
+    this.eaten = [];
+  }
+
+  /**
+   * Returns true if a goal can still be reached this generation, goals run out of food once foodPerGoal cells have
+   * reached them.
+   * @param index - index of the goal
+   */
+  hasFood(index: number) {
+    return this.foodPerGoal === null || (this.eaten[index] ?? 0) < this.foodPerGoal;
+  }
+
+  /**
+   * Record that a cell reached a goal and ate some of its food.
+   * @param index - index of the goal
+   */
+  consume(index: number) {
+    this.eaten[index] = (this.eaten[index] ?? 0) + 1;
+  }
+
+  private moveGoals(step: number) {
+    this.step = step;
+    for (const path of this.goalPaths) {
+      this.goals[path.goal].position = this.goalPosition(path.goal);
+    }
+  }
+
+  /**
+   * Move a goal to a new position, its path is moved by the same offset.
+   * @param index - index of the goal
+   * @param position - where the goal is at the start of a generation
+   */
+  placeGoal(index: number, position: Vector2D) {
+    const path = this.goalPaths.find((path) => path.goal === index);
+    if (path) {
+      const offset = position.subtract(path.points[0]);
+      path.points = path.points.map((point) => point.add(offset));
+    }
+    this.goals[index].position = path ? this.goalPosition(index) : position.clone();
+  }
+
+  /**
+   * Returns true if organism has touched or crossed the boundaries of the world
+   * @param organism
+   */
+  isOutOfBounds(organism: Organism) {
+    return (
+      organism.position.x + organism.radius >= this.width ||
+      organism.position.x - organism.radius <= 0 ||
+      organism.position.y + organism.radius >= this.height ||
+      organism.position.y - organism.radius <= 0
+    );
+  }
+
+  /**
+   * Returns true if organism has overlapped with a Virus instance
+   * @param organism
+   */
+  virusKills(organism: Organism) {
+    return this.virusGrid.overlaps(organism.position, 0);
+  }
+
+  /**
+   * Returns true if organism has touched a wall
+   * @param organism
+   */
+  wallKills(organism: Organism) {
+    for (let i = 0; i < this.walls.length; i++) {
+      if (wallHits(this.walls[i], organism.position, organism.radius)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Returns the first contact of a circle moving in a straight line with a target goal, a virus, a wall or the
+   * boundaries of the world, or null if it touches nothing. Touching the boundaries counts as touching a wall. Checking
+   * the whole movement instead of only where it ends means fast organisms cannot pass through obstacles between steps.
+   * Goals and viruses are touched when the centre of the circle enters them, like virusKills. Goals that are not a
+   * target of the moving cell or have run out of food are passed through.
+   * @param from - position at the start of the movement
+   * @param to - position at the end of the movement
+   * @param radius - radius of the moving circle
+   * @param goalsReached - number of goals the moving cell has already reached
+   */
+  sweep(from: Vector2D, to: Vector2D, radius: number, goalsReached = 0): Contact | null {
+    const goals = this.targetGoals(goalsReached).filter((index) => this.hasFood(index));
+    const candidates: [Contact['cause'], number | null, number?][] = [
+      ...goals.map((index): [Contact['cause'], number | null, number] => [
+        'goal',
+        segmentCircleEntry(from, to, this.goals[index].position, this.goals[index].radius),
+        index,
+      ]),
+      ...this.virusGrid
+        .querySegment(from, to)
+        .map((virus): [Contact['cause'], number | null] => [
+          'virus',
+          segmentCircleEntry(from, to, virus.position, virus.radius),
+        ]),
+      ['wall', this.boundaryExit(from, to, radius)],
+      ...this.walls.map((wall): [Contact['cause'], number | null] => [
+        'wall',
+        wall.type === 'rect'
+          ? sweepCircleRect(from, to, radius, wall.x, wall.y, wall.width, wall.height)
+          : sweepCircleSegment(
+              from,
+              to,
+              radius + WALL_THICKNESS / 2,
+              new Vector2D(wall.x1, wall.y1),
+              new Vector2D(wall.x2, wall.y2),
+            ),
+      ]),
+    ];
+
+    // on a tie the earlier candidate wins, so reaching the goal takes priority over dying
+    let first: { cause: Contact['cause']; t: number; goal?: number } | null = null;
+    for (const [cause, t, goal] of candidates) {
+      if (t !== null && (first === null || t < first.t)) first = cause === 'goal' ? { cause, t, goal } : { cause, t };
+    }
+    if (!first) return null;
+    return { ...first, point: from.add(to.subtract(from).multiply(first.t)) };
+  }
+
+  /**
+   * Returns the fraction of a movement completed when a circle touches the boundaries of the world, or null if it stays
+   * inside. A circle that starts touching the boundaries touches them at 0.
+   */
+  private boundaryExit(from: Vector2D, to: Vector2D, radius: number) {
+    let exit: number | null = null;
+    const axes: [number, number, number][] = [
+      [from.x, to.x, this.width],
+      [from.y, to.y, this.height],
+    ];
+    for (const [start, end, size] of axes) {
+      const min = radius;
+      const max = size - radius;
+      let t: number | null = null;
+      if (start <= min || start >= max) t = 0;
+      else if (end <= min) t = (start - min) / (start - end);
+      else if (end >= max) t = (max - start) / (end - start);
+      if (t !== null && (exit === null || t < exit)) exit = t;
+    }
+    return exit;
+  }
+}
+
+/**
+ * Returns an array of viruses placed at random integer coordinates inside a world of the given size.
+ * @param numOfViruses - number of viruses to create
+ * @param width - width of the world
+ * @param height - height of the world
+ * @param random - random number generator used to place the viruses
+ */
+export const randomViruses = (numOfViruses: number, width: number, height: number, random: Random) => {
+  const viruses = [];
+  let randomX = 0;
+  let randomY = 0;
+  for (let i = 0; i < numOfViruses; i++) {
+    randomX = random.int(width); // find random x coordinate
+    randomY = random.int(height); // find random y coordinate
+    viruses.push(new Virus(new Vector2D(randomX, randomY)));
+  }
+  return viruses;
+};
+
+/**
+ * Returns a random position for a goal at least GOAL_MARGIN inside the boundaries of a world of the given size, as far
+ * from the start as the best of a few tries so cells do not start next to it.
+ * @param start - where cells start
+ * @param width - width of the world
+ * @param height - height of the world
+ * @param random - random number generator used to place the goal
+ */
+export const randomGoalPosition = (start: Vector2D, width: number, height: number, random: Random) => {
+  let best: Vector2D | null = null;
+  for (let i = 0; i < 5; i++) {
+    const position = new Vector2D(
+      GOAL_MARGIN + random.next() * Math.max(0, width - 2 * GOAL_MARGIN),
+      GOAL_MARGIN + random.next() * Math.max(0, height - 2 * GOAL_MARGIN),
+    );
+    if (!best || position.distance(start) > best.distance(start)) best = position;
+  }
+  return best as Vector2D;
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from '../utils/vector';
+import { Cell } from './cell';
+import { Bacteria } from './organism';
+import { FLAG_DEAD, FLAG_REACHED_GOAL, encodeCells, frameTransferables, packColor, unpackColor } from './frame';
+
+describe('frame', () => {
+  it('should pack and unpack hex colours', () => {
+    expect(packColor('#67B555')).toBe(0x67b555);
+    expect(unpackColor(packColor('#67B555'))).toBe('#67b555');
+    expect(unpackColor(packColor('#000000'))).toBe('#000000');
+  });
+
+  it('should encode the position, colour and flags of every cell', () => {
+    const alive = new Cell(new Vector2D(10, 20), []);
+    const dead = new Cell(new Vector2D(30, 40), []);
+    dead.isDead = true;
+    dead.reachedGoal = true;
+    dead.color = '#000000';
+    const frame = encodeCells([alive, dead], 3);
+
+    expect(frame.generation).toBe(3);
+    expect(frame.count).toBe(2);
+    expect(Array.from(frame.positions)).toEqual([10, 20, 30, 40]);
+    expect(Array.from(frame.radii)).toEqual([2, 2]);
+    expect(Array.from(frame.colors)).toEqual([0xffffff, 0]);
+    expect(Array.from(frame.flags)).toEqual([0, FLAG_DEAD | FLAG_REACHED_GOAL]);
+    expect(frame.goals).toHaveLength(0);
+    expect(frameTransferables(frame)).toHaveLength(5);
+  });
+
+  it('should encode the position of every goal', () => {
+    const frame = encodeCells([], 1, [new Bacteria(new Vector2D(5, 6)), new Bacteria(new Vector2D(7, 8))]);
+    expect(Array.from(frame.goals)).toEqual([5, 6, 7, 8]);
+  });
+});
@@ -0,0 +1,81 @@
+import { hexToRgb } from '../utils/color';
+import { Cell } from './cell';
+import { Organism } from './organism';
+
+export const FLAG_DEAD = 1;
+export const FLAG_REACHED_GOAL = 2;
+
+/**
+ * Compact copy of the cells of a population stored in typed arrays, so it can be transferred from a worker to the main
+ * thread without copying or serializing an object per cell.
+ */
+export interface CellFrame {
+  generation: number;
+  count: number; // number of cells in the frame
+  positions: Float32Array; // x and y of each cell, interleaved
+  radii: Float32Array;
+  colors: Uint32Array; // colour of each cell as 0xRRGGBB
+  flags: Uint8Array; // FLAG_DEAD and FLAG_REACHED_GOAL of each cell
+  goals: Float32Array; // x and y of each goal, interleaved, goals can move every frame
+}
+
+/**
+ * Returns a colour as a single 0xRRGGBB number, colours that are not in hex format are black.
+ * @param color - colour in hexadecimal format i.e. #FF01A2
+ */
+export const packColor = (color: string) => {
+  const rgb = hexToRgb(color);
+  return rgb ? (rgb.r << 16) | (rgb.g << 8) | rgb.b : 0;
+};
+
+/**
+ * Returns a colour packed by packColor in hexadecimal format.
+ * @param color
+ */
+export const unpackColor = (color: number) => '#' + color.toString(16).padStart(6, '0');
+
+/**
+ * Returns a frame containing the position, radius, colour and flags of every cell and the position of every goal.
+ * @param cells
+ * @param generation - generation the cells belong to
+ * @param goals - organisms the cells are heading for
+ */
+export const encodeCells = (cells: Cell[], generation: number, goals: Organism[] = []): CellFrame => {
+  const count = cells.length;
+  const positions = new Float32Array(count * 2);
+  const radii = new Float32Array(count);
+  const colors = new Uint32Array(count);
+  const flags = new Uint8Array(count);
+  const packed = new Map<string, number>(); // most cells share a handful of colours
+  for (let i = 0; i < count; i++) {
+    const cell = cells[i];
+    positions[i * 2] = cell.position.x;
+    positions[i * 2 + 1] = cell.position.y;
+    radii[i] = cell.radius;
+    let color = packed.get(cell.color);
+    if (color === undefined) {
+      color = packColor(cell.color);
+      packed.set(cell.color, color);
+    }
+    colors[i] = color;
+    flags[i] = (cell.isDead ? FLAG_DEAD : 0) | (cell.reachedGoal ? FLAG_REACHED_GOAL : 0);
+  }
+  const goalPositions = new Float32Array(goals.length * 2);
+  for (let i = 0; i < goals.length; i++) {
+    goalPositions[i * 2] = goals[i].position.x;
+    goalPositions[i * 2 + 1] = goals[i].position.y;
+  }
+  return { generation, count, positions, radii, colors, flags, goals: goalPositions };
+};
+
+/**
+ * Returns the buffers of a frame, passed to postMessage so they are moved to the receiver instead of copied.
+ * @param frame
+ */
+export const frameTransferables = (frame: CellFrame) => [
+  frame.positions.buffer,
+  frame.radii.buffer,
+  frame.colors.buffer,
+  frame.flags.buffer,
+  frame.goals.buffer,
+];
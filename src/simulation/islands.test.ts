@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { IslandModel, arrivals, emigrants, immigrate, islandHistory } from './islands';
+import { CompetitorConfig } from './competition';
+import { Simulation } from './simulation';
+import { GenerationStats } from './statistics';
+
+const islands: CompetitorConfig[] = [
+  { name: 'A', color: '#FF0000', populationSize: 6, energy: 30 },
+  { name: 'B', color: '#00FF00', populationSize: 5, energy: 30, mutationRate: 0.05 },
+  { name: 'C', color: '#0000FF', populationSize: 4, energy: 30, selection: 'tournament' },
+];
+const config = { islands, numOfViruses: 5, migrationInterval: 2, migrants: 2, seed: 7 };
+
+describe('IslandModel', () => {
+  it('should give every island its own parameters and seed in the same world', () => {
+    const model = new IslandModel(config);
+    const [a, b, c] = model.islands;
+    expect(a.population.cells).toHaveLength(6);
+    expect(b.config.mutationRate).toBe(0.05);
+    expect(c.config.selection).toBe('tournament');
+    expect(new Set(model.islands.map((island) => island.config.seed)).size).toBe(3);
+    expect(b.world().viruses).toEqual(a.world().viruses);
+  });
+
+  it('should reject islands whose cells cannot migrate between them', () => {
+    expect(() => new IslandModel({ ...config, islands: [islands[0], { ...islands[1], energy: 40 }] })).toThrow(
+      'B has 40 energy but A has 30 energy',
+    );
+    expect(() => new IslandModel({ ...config, islands: [islands[0], { ...islands[1], brain: 'neural' }] })).toThrow(
+      'B has a neural brain but A has a directions brain',
+    );
+    expect(() => new IslandModel({ ...config, islands: [] })).toThrow('at least one island');
+  });
+
+  it('should wait for every island before migrating', () => {
+    const model = new IslandModel(config);
+    model.runMigration();
+    expect(model.islands.map((island) => island.generation)).toEqual([3, 3, 3]);
+    expect(model.migrations).toEqual([
+      {
+        generation: 3,
+        routes: [
+          [0, 1],
+          [1, 2],
+          [2, 0],
+        ],
+        migrants: [2, 2, 2],
+      },
+    ]);
+    expect(model.nextMigration).toBe(5);
+    expect(model.history).toHaveLength(2);
+    expect(model.history[1]).toHaveLength(3);
+  });
+
+  it('should move the fittest cells of an island to the next island', () => {
+    const model = new IslandModel(config);
+    while (model.islands.some((island) => island.generation < 3)) {
+      for (const island of model.islands) if (island.generation < 3) island.step();
+    }
+    const best = model.islands[0].population.ranked.slice(0, 2).map((cell) => cell.directions);
+    model.migrate();
+    expect(model.islands[1].population.cells.slice(0, 2).map((cell) => cell.directions)).toEqual(best);
+  });
+
+  it('should produce the same run from the same seed', () => {
+    const run = (topology: 'ring' | 'full' | 'random') => {
+      const model = new IslandModel({ ...config, topology, policy: 'random' });
+      model.runMigrations(2);
+      return model.history.map((stats) => stats.map(({ bestFitness }) => bestFitness));
+    };
+    expect(run('random')).toEqual(run('random'));
+    expect(run('full')).not.toEqual(run('ring'));
+  });
+});
+
+describe('migrants', () => {
+  it('should pick migrants from the current cells before the first generation has evolved', () => {
+    const simulation = new Simulation({ populationSize: 4, energy: 10, seed: 1 });
+    const cells = emigrants(simulation, 2, 'best');
+    expect(cells.map((cell) => cell.directions)).toEqual(
+      simulation.population.cells.slice(0, 2).map((cell) => cell.directions.map((direction) => direction.toArray())),
+    );
+  });
+
+  it('should replace the first cells of an island with the migrants', () => {
+    const from = new Simulation({ populationSize: 4, energy: 10, seed: 1 });
+    const to = new Simulation({ populationSize: 4, energy: 10, speed: 3, seed: 2 });
+    from.runGeneration();
+    const last = to.population.cells[3];
+    immigrate(to, emigrants(from, 2, 'best'));
+    const [first] = to.population.cells;
+    expect(first.directions).toEqual(from.population.ranked[0].directions);
+    expect(first.speed).toBe(3);
+    expect(first.position).toEqual(to.environment.start);
+    expect(to.population.cells[3]).toBe(last);
+  });
+
+  it('should gather the migrants arriving at each island', () => {
+    expect(
+      arrivals(
+        [['a'], ['b'], ['c']],
+        [
+          [0, 1],
+          [2, 1],
+          [1, 0],
+        ],
+      ),
+    ).toEqual([['b'], ['a', 'c'], []]);
+  });
+
+  it('should only list generations every island has finished', () => {
+    const stats = (bestFitness: number) => ({ bestFitness }) as GenerationStats;
+    expect(islandHistory([[stats(1), stats(2)], [stats(3)]])).toEqual([[stats(1), stats(3)]]);
+  });
+});
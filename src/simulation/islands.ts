@@ -0,0 +1,232 @@
+import { Random, randomSeed } from '../utils/random';
+import {
+  MigrantPolicy,
+  MigrationOptions,
+  TopologyName,
+  chooseMigrants,
+  defaultMigrationOptions,
+  migrationRoutes,
+} from '../ga/migration';
+import { Layout, layoutOf } from './layout';
+import { GenerationStats } from './statistics';
+import { SavedCell, loadCell, saveCell } from './persistence';
+import { CompetitorConfig } from './competition';
+import { Simulation, SimulationConfig, defaultConfig, defaultEnvironment } from './simulation';
+
+export interface IslandModelConfig extends MigrationOptions {
+  width: number;
+  height: number;
+  numOfViruses: number; // number of viruses placed randomly if there is no layout
+  layout: Layout | null; // positions of the start, goals, viruses and walls, every island gets a copy of the same layout
+  islands: CompetitorConfig[]; // name, colour and parameters of each island
+  topology: TopologyName; // which islands send migrants to which
+  policy: MigrantPolicy; // which individuals migrate
+  seed: number; // the seed of every island is drawn from it, so the same seed always produces the same run
+}
+
+export const defaultIslands: CompetitorConfig[] = [
+  { name: 'Island 1', color: '#F5D142', populationSize: 200 },
+  { name: 'Island 2', color: '#42F5E3', populationSize: 200, selection: 'tournament' },
+  { name: 'Island 3', color: '#F542A7', populationSize: 200, mutationRate: 0.02 },
+  { name: 'Island 4', color: '#67B555', populationSize: 200, crossover: 'uniform' },
+];
+
+export const defaultIslandModelConfig: Omit<IslandModelConfig, 'seed'> = {
+  width: 600,
+  height: 600,
+  numOfViruses: 30,
+  layout: null,
+  islands: defaultIslands,
+  topology: 'ring',
+  policy: 'best',
+  ...defaultMigrationOptions,
+};
+
+/**
+ * Routes of one migration and how many cells moved along each route.
+ */
+export interface Migration {
+  generation: number; // generation the migrants arrived at
+  routes: [number, number][]; // indices of the islands each route leads from and to
+  migrants: number[]; // number of cells that arrived at each island
+}
+
+/**
+ * Returns the parameters of an island without its name and colour.
+ * @param island
+ */
+const simulationOverrides = (island: CompetitorConfig): Partial<SimulationConfig> =>
+  Object.fromEntries(Object.entries(island).filter(([key]) => key !== 'name' && key !== 'color'));
+
+/**
+ * Returns the config of every island. The layout is generated once if there is none so every island has the same
+ * world, and the seed of every island is drawn from the random number generator of the model.
+ * @param config
+ * @param random - random number generator of the model, seeded with the seed of the config
+ */
+export const createIslandConfigs = (config: IslandModelConfig, random: Random): SimulationConfig[] => {
+  const { width, height, numOfViruses, islands } = config;
+  if (islands.length === 0) throw new Error('An island model needs at least one island');
+  const layout = config.layout ?? layoutOf(defaultEnvironment(width, height, numOfViruses, random));
+  const configs = islands.map((island) => ({
+    ...defaultConfig,
+    ...simulationOverrides(island),
+    width,
+    height,
+    numOfViruses,
+    layout,
+    seed: random.int(0x100000000),
+  }));
+  const [first] = configs;
+  configs.forEach((island, i) => {
+    const name = islands[i].name;
+    if (island.brain !== first.brain) {
+      throw new Error(`${name} has a ${island.brain} brain but ${islands[0].name} has a ${first.brain} brain`);
+    }
+    if (island.brain === 'directions' && island.energy !== first.energy) {
+      throw new Error(`${name} has ${island.energy} energy but ${islands[0].name} has ${first.energy} energy`);
+    }
+    if (island.brain === 'neural' && island.hiddenLayers.join() !== first.hiddenLayers.join()) {
+      throw new Error(
+        `${name} has hidden layers [${island.hiddenLayers}] but ${islands[0].name} has [${first.hiddenLayers}]`,
+      );
+    }
+  });
+  return configs;
+};
+
+/**
+ * Returns the genomes of the cells that leave an island. Migrants are picked from the last generation that evolved,
+ * or from the current cells before the first generation has evolved.
+ * @param simulation - island the migrants leave
+ * @param count - number of migrants
+ * @param policy - migrate the fittest cells or cells picked with the island's random number generator
+ */
+export const emigrants = (simulation: Simulation, count: number, policy: MigrantPolicy): SavedCell[] => {
+  const { population } = simulation;
+  const ranked = population.ranked.length > 0 ? population.ranked : population.cells;
+  return chooseMigrants(ranked, count, policy, simulation.random).map(saveCell);
+};
+
+/**
+ * Replace cells of an island with migrants from other islands, children of the current generation are replaced first.
+ * @param simulation - island the migrants arrive at, must use the same brain and energy as the islands they come from
+ * @param cells - genomes of the migrants
+ */
+export const immigrate = (simulation: Simulation, cells: SavedCell[]) => {
+  const { population } = simulation;
+  population.seed(cells.map((cell) => loadCell(cell, population)));
+};
+
+/**
+ * Returns the statistics of every generation that all islands have finished, with the statistics of each island in
+ * the order of the islands.
+ * @param histories - statistics of every generation of each island
+ */
+export const islandHistory = (histories: GenerationStats[][]): GenerationStats[][] => {
+  const generations = Math.min(...histories.map((history) => history.length));
+  return Array.from({ length: generations }, (_, i) => histories.map((history) => history[i]));
+};
+
+/**
+ * Returns the migrants arriving at each island.
+ * @param leaving - migrants leaving each island
+ * @param routes - routes of the migration as [from, to] pairs
+ */
+export const arrivals = <T>(leaving: T[][], routes: [number, number][]) => {
+  const arriving: T[][] = leaving.map(() => []);
+  for (const [from, to] of routes) {
+    arriving[to].push(...leaving[from]);
+  }
+  return arriving;
+};
+
+export class IslandModel {
+  config: IslandModelConfig;
+  random: Random;
+  islands: Simulation[];
+  migrations: Migration[];
+
+  /**
+   * Constructor for IslandModel, several populations with their own parameters evolve in worlds of their own and every
+   * few generations some cells migrate between them along the routes of a topology. Islands evolve independently between
+   * migrations, an island that reaches the next migration waits for the others, so the result does not depend on how
+   * fast each island runs.
+   * @param config - any missing values are taken from defaultIslandModelConfig and a random seed is used if none is given
+   */
+  constructor(config: Partial<IslandModelConfig> = {}) {
+    this.config = { ...defaultIslandModelConfig, ...config, seed: config.seed ?? randomSeed() };
+    this.random = new Random(this.config.seed);
+    this.islands = createIslandConfigs(this.config, this.random).map((island) => new Simulation(island));
+    this.migrations = [];
+  }
+
+  /**
+   * Generation of the slowest island.
+   */
+  get generation() {
+    return Math.min(...this.islands.map((island) => island.generation));
+  }
+
+  /**
+   * Generation the islands wait at for the next migration.
+   */
+  get nextMigration() {
+    const { migrationInterval } = this.config;
+    return (Math.floor((this.generation - 1) / migrationInterval) + 1) * migrationInterval + 1;
+  }
+
+  /**
+   * Advance every island that has not reached the next migration by a single step. Once every island has reached it the
+   * migrants move. Returns true if cells migrated.
+   */
+  step() {
+    const next = this.nextMigration;
+    let waiting = true;
+    for (const island of this.islands) {
+      if (island.generation < next) {
+        island.step();
+        if (island.generation < next) waiting = false;
+      }
+    }
+    if (waiting) this.migrate();
+    return waiting;
+  }
+
+  /**
+   * Move migrants between the islands along the routes of the topology, every island sends the same migrants along each
+   * of its routes.
+   */
+  migrate() {
+    const { topology, policy, migrants } = this.config;
+    const leaving = this.islands.map((island) => emigrants(island, migrants, policy));
+    const routes = migrationRoutes(this.islands.length, topology, this.random);
+    const arriving = arrivals(leaving, routes);
+    this.islands.forEach((island, i) => immigrate(island, arriving[i]));
+    this.migrations.push({ generation: this.generation, routes, migrants: arriving.map((cells) => cells.length) });
+  }
+
+  /**
+   * Step the islands until the next migration has happened.
+   */
+  runMigration() {
+    while (!this.step());
+  }
+
+  /**
+   * Run the given number of migrations.
+   * @param migrations
+   */
+  runMigrations(migrations: number) {
+    for (let i = 0; i < migrations; i++) {
+      this.runMigration();
+    }
+  }
+
+  /**
+   * Statistics of every generation that all islands have finished.
+   */
+  get history() {
+    return islandHistory(this.islands.map((island) => island.history));
+  }
+}
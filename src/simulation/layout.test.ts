@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from '../utils/vector';
+import { Simulation } from './simulation';
+import { Layout, builtInLayouts, findLayoutItem, layoutOf, moveLayoutItem, removeLayoutItem } from './layout';
+
+const layout: Layout = {
+  start: [50, 95],
+  goals: [[50, 5]],
+  goalOrder: 'sequence',
+  goalPaths: [],
+  viruses: [
+    [10, 10],
+    [80, 80],
+  ],
+  walls: [{ type: 'rect', x: 20, y: 40, width: 60, height: 10 }],
+};
+
+describe('findLayoutItem', () => {
+  it('should find items near a point', () => {
+    expect(findLayoutItem(layout, new Vector2D(11, 11))).toEqual({ kind: 'virus', index: 0 });
+    expect(findLayoutItem(layout, new Vector2D(50, 7))).toEqual({ kind: 'goal', index: 0 });
+    expect(findLayoutItem(layout, new Vector2D(52, 95))).toEqual({ kind: 'start' });
+    expect(findLayoutItem(layout, new Vector2D(30, 45))).toEqual({ kind: 'wall', index: 0 });
+  });
+
+  it('should return null when there is nothing at a point', () => {
+    expect(findLayoutItem(layout, new Vector2D(90, 20))).toBeNull();
+  });
+});
+
+describe('moveLayoutItem', () => {
+  it('should move viruses and walls without changing the original layout', () => {
+    const moved = moveLayoutItem(
+      moveLayoutItem(layout, { kind: 'virus', index: 1 }, new Vector2D(5, -5)),
+      { kind: 'wall', index: 0 },
+      new Vector2D(1, 2),
+    );
+    expect(moved.viruses[1]).toEqual([85, 75]);
+    expect(moved.walls[0]).toEqual({ type: 'rect', x: 21, y: 42, width: 60, height: 10 });
+    expect(layout.viruses[1]).toEqual([80, 80]);
+  });
+
+  it('should move the path of a moving goal with the goal', () => {
+    const patrol = builtInLayouts.patrol(100, 100);
+    const moved = moveLayoutItem(patrol, { kind: 'goal', index: 0 }, new Vector2D(0, 10));
+    expect(moved.goals[0]).toEqual([20, 35]);
+    expect(moved.goalPaths?.[0].waypoints).toEqual([[80, 35]]);
+  });
+});
+
+describe('removeLayoutItem', () => {
+  it('should remove viruses and walls but not the last goal', () => {
+    expect(removeLayoutItem(layout, { kind: 'virus', index: 0 }).viruses).toEqual([[80, 80]]);
+    expect(removeLayoutItem(layout, { kind: 'wall', index: 0 }).walls).toEqual([]);
+    expect(removeLayoutItem(layout, { kind: 'goal', index: 0 })).toBe(layout);
+  });
+
+  it('should remove a goal and renumber the paths of the goals after it', () => {
+    const removed = removeLayoutItem(
+      { ...layout, goals: [[10, 5], ...layout.goals], goalPaths: [{ goal: 1, waypoints: [[90, 5]], speed: 1 }] },
+      { kind: 'goal', index: 0 },
+    );
+    expect(removed.goals).toEqual([[50, 5]]);
+    expect(removed.goalPaths).toEqual([{ goal: 0, waypoints: [[90, 5]], speed: 1 }]);
+  });
+});
+
+describe('Simulation with a layout', () => {
+  it('should place everything where the layout says', () => {
+    const simulation = new Simulation({ width: 100, height: 100, populationSize: 5, layout });
+    expect(layoutOf(simulation.environment)).toEqual(layout);
+  });
+
+  it('should keep moving goals and the order of goals', () => {
+    const patrol = builtInLayouts.patrol(100, 100);
+    const simulation = new Simulation({ width: 100, height: 100, populationSize: 5, layout: patrol });
+    expect(layoutOf(simulation.environment)).toEqual({ ...patrol, goalOrder: 'sequence' });
+  });
+
+  it('should kill cells that touch a wall', () => {
+    const simulation = new Simulation({
+      populationSize: 20,
+      energy: 200,
+      seed: 1,
+      layout: builtInLayouts.barrier(600, 600),
+    });
+    simulation.runGeneration();
+    const [stats] = simulation.history;
+    expect(stats.wallDeaths).toBeGreaterThan(0);
+  });
+});
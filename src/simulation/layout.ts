@@ -0,0 +1,200 @@
+import { Vector2D } from '../utils/vector';
+import { Bacteria, Virus } from './organism';
+import { Environment, GoalOrder } from './environment';
+import { Wall, moveWall, wallHits } from './wall';
+
+export type Point = [number, number];
+
+/**
+ * A goal that moves from where it is placed through the waypoints and back again, over and over.
+ */
+export interface LayoutGoalPath {
+  goal: number; // index of the goal that moves
+  waypoints: Point[];
+  speed: number; // distance the goal moves each step
+}
+
+/**
+ * Positions of everything in an environment, a plain object so layouts can be saved as JSON and reused between runs.
+ */
+export interface Layout {
+  start: Point; // coordinates every cell starts at
+  goals: Point[]; // at least one goal, in the order they have to be reached when goalOrder is 'sequence'
+  goalOrder?: GoalOrder; // 'sequence' if missing
+  goalPaths?: LayoutGoalPath[]; // goals without a path stay where they are placed
+  viruses: Point[];
+  walls: Wall[];
+}
+
+/**
+ * Returns the layout of an environment, moving goals are placed where they start their path.
+ * @param environment
+ */
+export const layoutOf = (environment: Environment): Layout => ({
+  start: environment.start.toArray(),
+  goals: environment.goals.map((_, i) => environment.goalPosition(i, 0).toArray()),
+  goalOrder: environment.goalOrder,
+  goalPaths: environment.goalPaths.map((path) => ({
+    goal: path.goal,
+    waypoints: path.points.slice(1).map((point) => point.toArray()),
+    speed: path.speed,
+  })),
+  viruses: environment.viruses.map((virus) => virus.position.toArray()),
+  walls: environment.walls.map((wall) => ({ ...wall })),
+});
+
+/**
+ * Returns a new environment of the given size with everything placed where the layout says
+ * @param width
+ * @param height
+ * @param layout
+ */
+export const createEnvironment = (width: number, height: number, layout: Layout) =>
+  new Environment(
+    width,
+    height,
+    Vector2D.fromArray(layout.start),
+    layout.goals.map((goal) => new Bacteria(Vector2D.fromArray(goal))),
+    layout.viruses.map((virus) => new Virus(Vector2D.fromArray(virus))),
+    layout.walls.map((wall) => ({ ...wall })),
+    layout.goalOrder ?? 'sequence',
+    (layout.goalPaths ?? []).map((path) => ({
+      goal: path.goal,
+      points: [layout.goals[path.goal], ...path.waypoints].map((point) => Vector2D.fromArray(point)),
+      speed: path.speed,
+    })),
+  );
+
+/**
+ * Layouts that ship with the simulation, each is created for a world of the given size with the goal at the top centre
+ * and the start at the bottom centre.
+ */
+export const builtInLayouts: Record<string, (width: number, height: number) => Layout> = {
+  empty: (width, height) => ({ start: [width / 2, height - 5], goals: [[width / 2, 25]], viruses: [], walls: [] }),
+  barrier: (width, height) => ({
+    start: [width / 2, height - 5],
+    goals: [[width / 2, 25]],
+    viruses: [],
+    walls: [{ type: 'rect', x: width * 0.2, y: height / 2 - 5, width: width * 0.6, height: 10 }],
+  }),
+  corridor: (width, height) => ({
+    start: [width / 2, height - 5],
+    goals: [[width / 2, 25]],
+    viruses: [],
+    walls: [
+      { type: 'rect', x: 0, y: height / 2 - 5, width: width / 2 - 20, height: 10 },
+      { type: 'rect', x: width / 2 + 20, y: height / 2 - 5, width: width / 2 - 20, height: 10 },
+    ],
+  }),
+  maze: (width, height) => ({
+    start: [width / 2, height - 5],
+    goals: [[width / 2, 25]],
+    viruses: [],
+    walls: [
+      { type: 'segment', x1: 0, y1: height * 0.75, x2: width * 0.7, y2: height * 0.75 },
+      { type: 'segment', x1: width * 0.3, y1: height * 0.5, x2: width, y2: height * 0.5 },
+      { type: 'segment', x1: 0, y1: height * 0.25, x2: width * 0.7, y2: height * 0.25 },
+    ],
+  }),
+  checkpoints: (width, height) => ({
+    start: [width / 2, height - 5],
+    goals: [
+      [width * 0.2, height * 0.6],
+      [width * 0.8, height * 0.4],
+      [width / 2, 25],
+    ],
+    goalOrder: 'sequence',
+    viruses: [],
+    walls: [],
+  }),
+  patrol: (width, height) => ({
+    start: [width / 2, height - 5],
+    goals: [[width * 0.2, 25]],
+    goalPaths: [{ goal: 0, waypoints: [[width * 0.8, 25]], speed: 1 }],
+    viruses: [],
+    walls: [{ type: 'rect', x: width * 0.3, y: height / 2 - 5, width: width * 0.4, height: 10 }],
+  }),
+};
+
+/**
+ * Returns the built-in layout with the given name, or null if there is none.
+ * @param name
+ */
+export const findBuiltInLayout = (name: string) =>
+  Object.prototype.hasOwnProperty.call(builtInLayouts, name) ? builtInLayouts[name] : null;
+
+/**
+ * Something in a layout that can be selected, viruses and walls are referenced by their index.
+ */
+export type LayoutItem =
+  | { kind: 'start' }
+  | { kind: 'goal'; index: number }
+  | { kind: 'virus'; index: number }
+  | { kind: 'wall'; index: number };
+
+/**
+ * Returns the item of the layout at a point or null if there is nothing there. Viruses, the goal and the start are
+ * checked before walls so they can still be selected when placed on top of a wall.
+ * @param layout
+ * @param point
+ * @param tolerance - how far from an item the point can be and still select it
+ */
+export const findLayoutItem = (layout: Layout, point: Vector2D, tolerance = 4): LayoutItem | null => {
+  for (let i = layout.viruses.length - 1; i >= 0; i--) {
+    if (point.distance(Vector2D.fromArray(layout.viruses[i])) <= 4 + tolerance) return { kind: 'virus', index: i };
+  }
+  for (let i = layout.goals.length - 1; i >= 0; i--) {
+    if (point.distance(Vector2D.fromArray(layout.goals[i])) <= 5 + tolerance) return { kind: 'goal', index: i };
+  }
+  if (point.distance(Vector2D.fromArray(layout.start)) <= 5 + tolerance) return { kind: 'start' };
+  for (let i = layout.walls.length - 1; i >= 0; i--) {
+    if (wallHits(layout.walls[i], point, tolerance)) return { kind: 'wall', index: i };
+  }
+  return null;
+};
+
+/**
+ * Returns a copy of the layout with an item moved by an offset, the path of a moving goal moves with it
+ * @param layout
+ * @param item
+ * @param offset
+ */
+export const moveLayoutItem = (layout: Layout, item: LayoutItem, offset: Vector2D): Layout => {
+  const move = (point: Point): Point => [point[0] + offset.x, point[1] + offset.y];
+  switch (item.kind) {
+    case 'start':
+      return { ...layout, start: move(layout.start) };
+    case 'goal':
+      return {
+        ...layout,
+        goals: layout.goals.map((goal, i) => (i === item.index ? move(goal) : goal)),
+        goalPaths: layout.goalPaths?.map((path) =>
+          path.goal === item.index ? { ...path, waypoints: path.waypoints.map(move) } : path,
+        ),
+      };
+    case 'virus':
+      return { ...layout, viruses: layout.viruses.map((virus, i) => (i === item.index ? move(virus) : virus)) };
+    case 'wall':
+      return { ...layout, walls: layout.walls.map((wall, i) => (i === item.index ? moveWall(wall, offset) : wall)) };
+  }
+};
+
+/**
+ * Returns a copy of the layout without a virus, wall or goal, the start and the last goal cannot be removed
+ * @param layout
+ * @param item
+ */
+export const removeLayoutItem = (layout: Layout, item: LayoutItem): Layout => {
+  if (item.kind === 'goal' && layout.goals.length > 1) {
+    return {
+      ...layout,
+      goals: layout.goals.filter((_, i) => i !== item.index),
+      goalPaths: layout.goalPaths
+        ?.filter((path) => path.goal !== item.index)
+        .map((path) => (path.goal > item.index ? { ...path, goal: path.goal - 1 } : path)),
+    };
+  }
+  if (item.kind === 'virus') return { ...layout, viruses: layout.viruses.filter((_, i) => i !== item.index) };
+  if (item.kind === 'wall') return { ...layout, walls: layout.walls.filter((_, i) => i !== item.index) };
+  return layout;
+};
@@ -0,0 +1,100 @@
+import { Vector2D } from '../utils/vector';
+import { Random } from '../utils/random';
+import { CrossoverName } from '../ga/crossover';
+import { NeuralNetwork, weightCrossoverOperators } from '../ga/network';
+import { weightDistance } from '../ga/niching';
+import { Cell } from './cell';
+import { Environment } from './environment';
+import { senseEnvironment } from './sensors';
+
+export class NeuralCell extends Cell {
+  network: NeuralNetwork;
+  senseRange: number;
+  readings: number[];
+
+  /**
+   * Constructor for NeuralCell, a Cell whose acceleration each step is decided by a neural network from what it senses
+   * instead of a fixed list of directions. The weights of the network are its genome.
+   * @param position - coordinates in the world that the Cell starts at.
+   * @param network - network with one input per sensor reading and two outputs, the x and y of the acceleration.
+   * @param energy - the amount of moves the Cell can make.
+   * @param speed - distance the Cell moves each step.
+   * @param senseRange - distance at which the Cell starts sensing viruses and walls.
+   */
+  constructor(position: Vector2D, network: NeuralNetwork, energy: number, speed: number, senseRange: number) {
+    super(position, [], speed);
+    this.network = network;
+    this.senseRange = senseRange;
+    this.energy = energy - 1;
+    this.minEnergy = energy;
+    this.maxEnergy = energy;
+    this.readings = []; // sensor readings taken before the current move
+  }
+
+  /**
+   * Reads the sensors before the Cell moves, then updates it like any other Cell.
+   * @param environment
+   */
+  update(environment: Environment) {
+    if (!this.isDead && this.energy > 0) this.readings = senseEnvironment(this, environment, this.senseRange);
+    super.update(environment);
+  }
+
+  /**
+   * Returns the acceleration decided by the network from the sensor readings taken before this move.
+   */
+  steer() {
+    const [x, y] = this.network.activate(this.readings);
+    return new Vector2D(x, y);
+  }
+
+  /**
+   * Mutates the network, each weight has a chance given by mutationRate of being nudged by normally distributed noise.
+   * The mutation operators for directions do not apply to weights, a network is always mutated this way.
+   * @param mutationRate - percentage chance that a weight is mutated
+   * @param random
+   */
+  mutate(mutationRate: number, random: Random) {
+    const { weights } = this.network;
+    for (let i = 0; i < weights.length; i++) {
+      if (random.next() < mutationRate) {
+        weights[i] += random.gaussian() * 0.5;
+      }
+    }
+  }
+
+  /**
+   * Returns how different the network weights of this Cell are from the weights of another NeuralCell, in range [0, 1].
+   * @param other - must also be a NeuralCell with the same layers
+   */
+  genomeDistance(other: Cell) {
+    return weightDistance(this.network.weights, (other as NeuralCell).network.weights);
+  }
+
+  /**
+   * Return a child whose network weights are a recombination of the weights of this Cell and a partner Cell.
+   * @param partner - the second parent, must also be a NeuralCell with the same layers
+   * @param operator - name of the crossover operator used to combine the weights of both parents
+   * @param random
+   */
+  crossover(partner: Cell, operator: CrossoverName, random: Random) {
+    const other = (partner as NeuralCell).network;
+    const weights = weightCrossoverOperators[operator](this.network.weights, other.weights, random);
+    return new NeuralCell(
+      this.startPosition,
+      new NeuralNetwork([...this.network.layers], weights),
+      this.maxEnergy,
+      this.speed,
+      this.senseRange,
+    );
+  }
+
+  /**
+   * Return NeuralCell with a copy of this Cell's network that starts where this Cell started.
+   */
+  clone() {
+    const clone = new NeuralCell(this.startPosition, this.network.clone(), this.maxEnergy, this.speed, this.senseRange);
+    clone.mutationRate = this.mutationRate;
+    return clone;
+  }
+}
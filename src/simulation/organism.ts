@@ -0,0 +1,46 @@
+import { Vector2D } from '../utils/vector';
+
+export class Organism {
+  position: Vector2D;
+  radius: number;
+  color: string;
+
+  /**
+   * Constructor for Organism.
+   * @param position - coordinates of the Organism in the world.
+   * @param radius - radius of organism (circle) in the world.
+   * @param color - color of organism (circle) when rendered in rgb or hex.
+   */
+  constructor(position: Vector2D, radius: number, color: string) {
+    this.position = position;
+    this.radius = radius;
+    this.color = color;
+  }
+
+  /**
+   * Return the Euclidean distance between this Organism and another organism
+   */
+  dist(other: Organism) {
+    return this.position.distance(other.position);
+  }
+}
+
+export class Bacteria extends Organism {
+  /**
+   * Constructor for Bacteria.
+   * @param position - coordinates of the Bacteria in the world
+   */
+  constructor(position: Vector2D) {
+    super(position, 5, '#67B555');
+  }
+}
+
+export class Virus extends Organism {
+  /**
+   * Constructor for Virus.
+   * @param position - coordinates of the Virus in the world
+   */
+  constructor(position: Vector2D) {
+    super(position, 4, '#4287F5');
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { Simulation } from './simulation';
+import { OverlayRecorder } from './overlays';
+import { createEnvironment, layoutOf } from './layout';
+import { tracePath } from './replay';
+
+const config = { populationSize: 10, energy: 30, numOfViruses: 20, seed: 3 };
+
+/**
+ * Returns a simulation with an overlay recorder attached from the start of the first generation.
+ */
+const recordedSimulation = (overrides = {}) => {
+  const simulation = new Simulation({ ...config, ...overrides });
+  simulation.overlays = new OverlayRecorder(simulation.config.width, simulation.config.height);
+  simulation.overlays.start(simulation);
+  return simulation;
+};
+
+describe('OverlayRecorder', () => {
+  it('should record the trail of every cell until it dies', () => {
+    const simulation = recordedSimulation();
+    const overlays = simulation.overlays as OverlayRecorder;
+    while (!simulation.population.move()) overlays.record(simulation.population.cells);
+    overlays.record(simulation.population.cells);
+
+    simulation.population.cells.forEach((cell, i) => {
+      const trail = overlays.trails[i];
+      expect(trail.length).toBeLessThanOrEqual((cell.steps + 1) * 2);
+      expect(trail.slice(-2)).toEqual([cell.position.x, cell.position.y]);
+    });
+  });
+
+  it('should count the steps cells spend in each bin of the heatmap', () => {
+    const simulation = recordedSimulation();
+    const overlays = simulation.overlays as OverlayRecorder;
+    for (let i = 0; i < 5; i++) {
+      simulation.population.move();
+      overlays.record(simulation.population.cells);
+    }
+    const total = overlays.trails.reduce((sum, trail) => sum + trail.length / 2 - 1, 0);
+    expect(overlays.heatmap.counts.reduce((a, b) => a + b, 0)).toBe(total);
+    expect(overlays.heatmap.max).toBe(Math.max(...overlays.heatmap.counts));
+    expect(overlays.heatmap.columns).toBe(60);
+  });
+
+  it('should mark where cells died by cause', () => {
+    const simulation = recordedSimulation();
+    while (!simulation.population.move());
+    const { cells } = simulation.population;
+    const deaths = (simulation.overlays as OverlayRecorder).snapshot(cells, ['deaths']).deaths;
+    const expected = cells
+      .filter((cell) => cell.deathCause !== 'goal')
+      .map((cell) => ({ x: cell.position.x, y: cell.position.y, cause: cell.deathCause }));
+    expect(deaths).toEqual(expected);
+    expect(deaths?.length).toBeGreaterThan(0);
+  });
+
+  it('should only include the requested overlays', () => {
+    const simulation = recordedSimulation();
+    const snapshot = (simulation.overlays as OverlayRecorder).snapshot(simulation.population.cells, ['heatmap']);
+    expect(Object.keys(snapshot)).toEqual(['heatmap']);
+  });
+
+  it('should start again every generation with the path of the elite', () => {
+    const simulation = recordedSimulation();
+    const overlays = simulation.overlays as OverlayRecorder;
+    expect(overlays.elitePath).toBeNull();
+    simulation.runGeneration();
+
+    const { champion } = simulation.population;
+    expect(overlays.trails.every((trail) => trail.length === 2)).toBe(true);
+    expect(overlays.heatmap.max).toBe(0);
+    expect(overlays.elitePath).toEqual(
+      tracePath(champion!, createEnvironment(600, 600, layoutOf(simulation.environment))),
+    );
+  });
+
+  it('should not change the run of the simulation', () => {
+    const simulation = recordedSimulation();
+    const plain = new Simulation(config);
+    simulation.runGenerations(3);
+    plain.runGenerations(3);
+    expect(simulation.history).toEqual(plain.history);
+    expect(simulation.snapshot()).toEqual(plain.snapshot());
+  });
+});
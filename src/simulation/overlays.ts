@@ -0,0 +1,115 @@
+import { Cell, DeathCause } from './cell';
+import { createEnvironment, layoutOf } from './layout';
+import { tracePath } from './replay';
+import { Simulation } from './simulation';
+
+export const HEATMAP_BIN_SIZE = 10;
+
+/**
+ * trails - the path of every cell this generation
+ * heatmap - how many steps cells have spent in each part of the world this generation
+ * deaths - where cells died, coloured by what killed them
+ * elite - the whole path the elite cell of this generation takes
+ */
+export type OverlayName = 'trails' | 'heatmap' | 'deaths' | 'elite';
+
+export interface Heatmap {
+  binSize: number;
+  columns: number;
+  rows: number;
+  counts: Uint32Array; // number of steps cells ended in each bin, row by row
+  max: number;
+}
+
+export interface DeathMarker {
+  x: number;
+  y: number;
+  cause: Exclude<DeathCause, 'goal'>;
+}
+
+/**
+ * Plain object copy of the overlays a renderer draws on top of a snapshot, only the requested overlays are included.
+ */
+export interface OverlaySnapshot {
+  trails?: number[][]; // x, y pairs of every position of every cell
+  heatmap?: Heatmap;
+  deaths?: DeathMarker[];
+  elitePath?: Float32Array | null;
+}
+
+export class OverlayRecorder {
+  trails: number[][];
+  heatmap: Heatmap;
+  elitePath: Float32Array | null;
+
+  /**
+   * Constructor for OverlayRecorder, records where the cells of a simulation go during a generation. Attach it to the
+   * simulation and the simulation records every step and starts a new recording every generation.
+   * @param width - width of the world
+   * @param height - height of the world
+   * @param binSize - width and height of each bin of the heatmap
+   */
+  constructor(width: number, height: number, binSize = HEATMAP_BIN_SIZE) {
+    const columns = Math.ceil(width / binSize);
+    const rows = Math.ceil(height / binSize);
+    this.heatmap = { binSize, columns, rows, counts: new Uint32Array(columns * rows), max: 0 };
+    this.trails = [];
+    this.elitePath = null;
+  }
+
+  /**
+   * Forget the last generation and start recording the cells of the simulation from where they are now. The path of
+   * the elite is traced through a copy of the world so the simulation is not changed.
+   * @param simulation
+   */
+  start(simulation: Simulation) {
+    const { cells, champion } = simulation.population;
+    this.trails = cells.map((cell) => [cell.position.x, cell.position.y]);
+    this.heatmap.counts.fill(0);
+    this.heatmap.max = 0;
+    const { width, height } = simulation.config;
+    this.elitePath = champion
+      ? tracePath(champion, createEnvironment(width, height, layoutOf(simulation.environment)))
+      : null;
+  }
+
+  /**
+   * Record the positions of the cells that moved during the last step.
+   * @param cells
+   */
+  record(cells: Cell[]) {
+    const { binSize, columns, rows, counts } = this.heatmap;
+    for (let i = 0; i < cells.length && i < this.trails.length; i++) {
+      const trail = this.trails[i];
+      const { x, y } = cells[i].position;
+      if (trail[trail.length - 2] === x && trail[trail.length - 1] === y) continue; // dead cells stay where they are
+      trail.push(x, y);
+
+      const column = Math.min(columns - 1, Math.max(0, Math.floor(x / binSize)));
+      const row = Math.min(rows - 1, Math.max(0, Math.floor(y / binSize)));
+      const count = ++counts[row * columns + column];
+      if (count > this.heatmap.max) this.heatmap.max = count;
+    }
+  }
+
+  /**
+   * Returns the requested overlays for the cells of the current generation.
+   * @param cells
+   * @param names - overlays to include
+   */
+  snapshot(cells: Cell[], names: OverlayName[]): OverlaySnapshot {
+    const snapshot: OverlaySnapshot = {};
+    if (names.includes('trails')) snapshot.trails = this.trails;
+    if (names.includes('heatmap')) snapshot.heatmap = this.heatmap;
+    if (names.includes('elite')) snapshot.elitePath = this.elitePath;
+    if (names.includes('deaths')) {
+      snapshot.deaths = [];
+      for (const cell of cells) {
+        if (cell.isDead && cell.deathCause && cell.deathCause !== 'goal') {
+          snapshot.deaths.push({ x: cell.position.x, y: cell.position.y, cause: cell.deathCause });
+        }
+      }
+    }
+    return snapshot;
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { Simulation } from './simulation';
+import { loadSimulation, parseSavedState, saveSimulation, seedChampion } from './persistence';
+
+const config = { populationSize: 10, energy: 30, numOfViruses: 5, seed: 99 };
+
+describe('saveSimulation and loadSimulation', () => {
+  it('should survive a round trip through JSON', () => {
+    const simulation = new Simulation(config);
+    simulation.runGenerations(2);
+    const loaded = loadSimulation(parseSavedState(JSON.stringify(saveSimulation(simulation))));
+    expect(loaded.generation).toBe(3);
+    expect(loaded.history).toEqual(simulation.history);
+    expect(loaded.snapshot()).toEqual(simulation.snapshot());
+  });
+
+  it('should continue exactly where the saved run left off', () => {
+    const simulation = new Simulation(config);
+    simulation.runGenerations(2);
+    const loaded = loadSimulation(parseSavedState(JSON.stringify(saveSimulation(simulation))));
+    simulation.runGenerations(2);
+    loaded.runGenerations(2);
+    expect(loaded.snapshot()).toEqual(simulation.snapshot());
+  });
+
+  it('should continue a crowding run exactly, keeping the parent each child competes with', () => {
+    const simulation = new Simulation({ ...config, niching: 'crowding' });
+    simulation.runGenerations(2);
+    const state = saveSimulation(simulation);
+    expect(state.cells.some((cell) => cell.crowdingParent !== undefined)).toBe(true);
+    const loaded = loadSimulation(parseSavedState(JSON.stringify(state)));
+    simulation.runGenerations(2);
+    loaded.runGenerations(2);
+    expect(loaded.snapshot()).toEqual(simulation.snapshot());
+    expect(loaded.history).toEqual(simulation.history);
+  });
+
+  it('should save and load cells with a neural brain', () => {
+    const simulation = new Simulation({ ...config, brain: 'neural', hiddenLayers: [4] });
+    simulation.runGeneration();
+    const loaded = loadSimulation(parseSavedState(JSON.stringify(saveSimulation(simulation))));
+    simulation.runGeneration();
+    loaded.runGeneration();
+    expect(loaded.snapshot()).toEqual(simulation.snapshot());
+  });
+});
+
+describe('parseSavedState', () => {
+  const saved = () => saveSimulation(new Simulation(config));
+
+  it('should reject text that is not JSON', () => {
+    expect(() => parseSavedState('not json')).toThrow('Invalid save file');
+  });
+
+  it('should reject an unsupported version', () => {
+    expect(() => parseSavedState(JSON.stringify({ ...saved(), version: 2 }))).toThrow(
+      'Unsupported save file version 2, expected version 1',
+    );
+  });
+
+  it('should report where the file does not match the schema', () => {
+    const state = saved();
+    (state.cells[3].directions[4] as unknown) = 'up';
+    expect(() => parseSavedState(JSON.stringify(state))).toThrow(
+      'Invalid save file: cells[3].directions[4] should be an [x, y] pair',
+    );
+  });
+
+  it('should reject unknown operator names', () => {
+    const state = saved();
+    (state.config.selection as string) = 'lottery';
+    expect(() => parseSavedState(JSON.stringify(state))).toThrow('config.selection should be one of');
+    (state.config.selection as string) = 'constructor';
+    expect(() => parseSavedState(JSON.stringify(state))).toThrow('config.selection should be one of');
+  });
+
+  it('should check every generation of the statistics', () => {
+    const simulation = new Simulation(config);
+    simulation.runGenerations(2);
+    const state = saveSimulation(simulation);
+    (state.history[1].bestFitness as unknown) = 'high';
+    expect(() => parseSavedState(JSON.stringify(state))).toThrow('history[1].bestFitness should be a number');
+    state.history[1].bestFitness = 1;
+    (state.history[0].bestStepsToGoal as unknown) = undefined;
+    expect(() => parseSavedState(JSON.stringify(state))).toThrow('history[0].bestStepsToGoal should be a number');
+  });
+
+  it('should reject a crowding parent that is not another cell', () => {
+    const state = saved();
+    state.cells[2].crowdingParent = 2;
+    expect(() => parseSavedState(JSON.stringify(state))).toThrow('cells[2].crowdingParent should be the index');
+    state.cells[2].crowdingParent = state.cells.length;
+    expect(() => parseSavedState(JSON.stringify(state))).toThrow('cells[2].crowdingParent should be the index');
+  });
+
+  it('should reject config values out of range', () => {
+    const state = saved();
+    state.config.hiddenLayers = [0];
+    expect(() => parseSavedState(JSON.stringify(state))).toThrow('config.hiddenLayers[0] should be a whole number');
+    state.config.hiddenLayers = [8];
+    state.config.minMutationRate = 0.6;
+    expect(() => parseSavedState(JSON.stringify(state))).toThrow('config.minMutationRate should be at most');
+  });
+});
+
+describe('seedChampion', () => {
+  it('should add the champion of a saved run to a new simulation', () => {
+    const simulation = new Simulation(config);
+    simulation.runGeneration();
+    const state = saveSimulation(simulation);
+    const seeded = new Simulation({ ...config, seed: 1 });
+    seedChampion(seeded, state);
+    expect(seeded.population.cells[0].directions.map((direction) => direction.toArray())).toEqual(
+      state.champion?.directions,
+    );
+  });
+
+  it('should reject a champion with a different amount of energy', () => {
+    const simulation = new Simulation(config);
+    simulation.runGeneration();
+    expect(() => seedChampion(new Simulation({ ...config, energy: 10 }), saveSimulation(simulation))).toThrow(
+      'Champion has 30 directions but the simulation uses 10 energy',
+    );
+  });
+
+  it('should reject a champion with a different brain', () => {
+    const simulation = new Simulation({ ...config, brain: 'neural' });
+    simulation.runGeneration();
+    expect(() => seedChampion(new Simulation(config), saveSimulation(simulation))).toThrow(
+      'Champion has a neural brain but the simulation uses a directions brain',
+    );
+  });
+});
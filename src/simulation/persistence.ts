@@ -0,0 +1,504 @@
+import { Vector2D } from '../utils/vector';
+import { crossoverOperators } from '../ga/crossover';
+import { selectionStrategies } from '../ga/selection';
+import { fitnessTerms } from '../ga/fitness';
+import { mutationOperators, mutationSchedules } from '../ga/mutation';
+import { replacementStrategies } from '../ga/replacement';
+import { NeuralNetwork } from '../ga/network';
+import { Cell } from './cell';
+import { NeuralCell } from './neural-cell';
+import { Population } from './population';
+import { GoalOrder } from './environment';
+import { SENSOR_COUNT } from './sensors';
+import { GenerationStats } from './statistics';
+import { Simulation, SimulationConfig, defaultConfig } from './simulation';
+import { Layout, LayoutGoalPath, Point, layoutOf } from './layout';
+import { Wall } from './wall';
+
+export const SAVE_VERSION = 1;
+
+export interface SavedCell {
+  directions: Point[];
+  weights?: number[]; // network weights of cells with a neural brain, directions is empty for them
+  mutationRate?: number; // the cell's own mutation rate when rates are self-adaptive
+  minEnergy: number;
+  color: string;
+  crowdingParent?: number; // index of the copy of the parent a child competes with in its generation with crowding
+}
+
+/**
+ * A species of the last generation that evolved, only its representative is needed to group the next generation.
+ */
+export interface SavedSpecies {
+  id: number;
+  color: string;
+  representative: SavedCell;
+}
+
+/**
+ * A complete snapshot of a simulation at the start of a generation. Cells are stored as genomes only, a snapshot taken
+ * part way through a generation resumes from the start of that generation.
+ */
+export interface SavedState {
+  version: typeof SAVE_VERSION;
+  config: SimulationConfig;
+  randomState: number;
+  generation: number;
+  environment: Layout;
+  cells: SavedCell[];
+  champion: SavedCell | null;
+  species: SavedSpecies[];
+  nextSpeciesId: number;
+  history: GenerationStats[];
+}
+
+/**
+ * Returns the JSON friendly form of a Cell's genome.
+ */
+export const saveCell = (cell: Cell): SavedCell => ({
+  directions: cell.directions.map((direction) => direction.toArray()),
+  ...(cell instanceof NeuralCell ? { weights: [...cell.network.weights] } : {}),
+  ...(cell.mutationRate !== null ? { mutationRate: cell.mutationRate } : {}),
+  minEnergy: cell.minEnergy,
+  color: cell.color,
+});
+
+/**
+ * Returns the genomes of the cells of a generation, each child keeps the index of the parent it competes with.
+ */
+const saveCells = (cells: Cell[]): SavedCell[] => {
+  const indices = new Map(cells.map((cell, i) => [cell, i]));
+  return cells.map((cell) => {
+    const parent = cell.crowdingParent ? indices.get(cell.crowdingParent) : undefined;
+    return parent === undefined ? saveCell(cell) : { ...saveCell(cell), crowdingParent: parent };
+  });
+};
+
+/**
+ * Returns a snapshot of the simulation that can be stored as JSON and loaded with loadSimulation.
+ * @param simulation
+ */
+export const saveSimulation = (simulation: Simulation): SavedState => ({
+  version: SAVE_VERSION,
+  config: { ...simulation.config },
+  randomState: simulation.random.state,
+  generation: simulation.population.generation,
+  environment: layoutOf(simulation.environment),
+  cells: saveCells(simulation.population.cells),
+  champion: simulation.population.champion ? saveCell(simulation.population.champion) : null,
+  species: simulation.population.species.map(({ id, color, representative }) => ({
+    id,
+    color,
+    representative: saveCell(representative),
+  })),
+  nextSpeciesId: simulation.population.nextSpeciesId,
+  history: simulation.population.history.map((stats) => ({ ...stats })),
+});
+
+/**
+ * Throws an error describing where a value does not match the schema.
+ */
+const invalid = (path: string, expected: string): never => {
+  throw new Error(`${path} should be ${expected}`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkNumber = (value: unknown, path: string) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) invalid(path, 'a number');
+  return value as number;
+};
+
+const checkPoint = (value: unknown, path: string) => {
+  if (!Array.isArray(value) || value.length !== 2) invalid(path, 'an [x, y] pair');
+  const [x, y] = value as unknown[];
+  return [checkNumber(x, `${path}[0]`), checkNumber(y, `${path}[1]`)] as Point;
+};
+
+const checkArray = (value: unknown, path: string) => {
+  if (!Array.isArray(value)) invalid(path, 'an array');
+  return value as unknown[];
+};
+
+const checkName = (value: unknown, names: object, path: string) => {
+  if (typeof value !== 'string' || !Object.prototype.hasOwnProperty.call(names, value)) {
+    invalid(path, `one of ${Object.keys(names).join(', ')}`);
+  }
+  return value as string;
+};
+
+/**
+ * Smallest and largest value a number can have and whether it has to be a whole number.
+ */
+interface NumberRange {
+  min: number;
+  max?: number;
+  integer?: boolean;
+}
+
+const checkRange = (value: number, path: string, { min, max, integer }: NumberRange) => {
+  if ((integer && !Number.isInteger(value)) || value < min || (max !== undefined && value > max)) {
+    const kind = integer ? 'a whole number' : 'a number';
+    invalid(path, max === undefined ? `${kind} of at least ${min}` : `${kind} from ${min} to ${max}`);
+  }
+  return value;
+};
+
+/**
+ * Valid range of each numeric config value, values that are not listed can be any number.
+ */
+const configRanges: Partial<Record<keyof SimulationConfig, NumberRange>> = {
+  width: { min: 1 },
+  height: { min: 1 },
+  populationSize: { min: 1, integer: true },
+  mutationRate: { min: 0, max: 1 },
+  mutationDecay: { min: 0 },
+  minMutationRate: { min: 0, max: 1 },
+  maxMutationRate: { min: 0, max: 1 },
+  stallGenerations: { min: 1, integer: true },
+  stallBoost: { min: 1 },
+  minDiversity: { min: 0, max: 1 },
+  diversityTolerance: { min: 0 },
+  selfAdaptation: { min: 0 },
+  crossoverRate: { min: 0, max: 1 },
+  tournamentSize: { min: 1, integer: true },
+  truncationRate: { min: 0, max: 1 },
+  eliteCount: { min: 0, integer: true },
+  eliteFraction: { min: 0, max: 1 },
+  steadyStateRate: { min: 0, max: 1 },
+  muFraction: { min: 0, max: 1 },
+  immigrationRate: { min: 0, max: 1 },
+  sharingRadius: { min: 0 },
+  speciesThreshold: { min: 0 },
+  maxSpecies: { min: 1, integer: true },
+  noveltyNeighbours: { min: 1, integer: true },
+  numOfViruses: { min: 0, integer: true },
+  energy: { min: 1, integer: true },
+  speed: { min: 0 },
+  senseRange: { min: 0 },
+};
+
+const checkWall = (value: unknown, path: string): Wall => {
+  if (!isObject(value)) return invalid(path, 'an object');
+  const wall = value as Record<string, unknown>;
+  if (wall.type === 'rect') {
+    return {
+      type: 'rect',
+      x: checkNumber(wall.x, `${path}.x`),
+      y: checkNumber(wall.y, `${path}.y`),
+      width: checkNumber(wall.width, `${path}.width`),
+      height: checkNumber(wall.height, `${path}.height`),
+    };
+  }
+  if (wall.type === 'segment') {
+    return {
+      type: 'segment',
+      x1: checkNumber(wall.x1, `${path}.x1`),
+      y1: checkNumber(wall.y1, `${path}.y1`),
+      x2: checkNumber(wall.x2, `${path}.x2`),
+      y2: checkNumber(wall.y2, `${path}.y2`),
+    };
+  }
+  return invalid(`${path}.type`, "'rect' or 'segment'");
+};
+
+const checkGoalPath = (value: unknown, path: string, goals: number): LayoutGoalPath => {
+  if (!isObject(value)) return invalid(path, 'an object');
+  const goal = checkNumber(value.goal, `${path}.goal`);
+  if (!Number.isInteger(goal) || goal < 0 || goal >= goals)
+    invalid(`${path}.goal`, `the index of one of ${goals} goals`);
+  return {
+    goal,
+    waypoints: checkArray(value.waypoints, `${path}.waypoints`).map((point, i) =>
+      checkPoint(point, `${path}.waypoints[${i}]`),
+    ),
+    speed: checkNumber(value.speed, `${path}.speed`),
+  };
+};
+
+/**
+ * Returns the value as a Layout if it matches the schema, otherwise throws an error describing the first mismatch.
+ * Walls, the goal order and goal paths are optional. Layouts saved before there could be several goals have a single
+ * goal instead of a list of goals.
+ * @param value
+ * @param path - where the layout is in the file, used in error messages
+ */
+export const checkLayout = (value: unknown, path: string): Layout => {
+  if (!isObject(value)) return invalid(path, 'an object');
+  const layout = value as Record<string, unknown>;
+  const goals =
+    layout.goals === undefined && layout.goal !== undefined
+      ? [checkPoint(layout.goal, `${path}.goal`)]
+      : checkArray(layout.goals, `${path}.goals`).map((goal, i) => checkPoint(goal, `${path}.goals[${i}]`));
+  if (goals.length === 0) invalid(`${path}.goals`, 'at least one goal');
+  return {
+    start: checkPoint(layout.start, `${path}.start`),
+    goals,
+    goalOrder: checkName(
+      layout.goalOrder ?? 'sequence',
+      { sequence: true, any: true },
+      `${path}.goalOrder`,
+    ) as GoalOrder,
+    goalPaths: checkArray(layout.goalPaths ?? [], `${path}.goalPaths`).map((goalPath, i) =>
+      checkGoalPath(goalPath, `${path}.goalPaths[${i}]`, goals.length),
+    ),
+    viruses: checkArray(layout.viruses, `${path}.viruses`).map((virus, i) =>
+      checkPoint(virus, `${path}.viruses[${i}]`),
+    ),
+    walls: checkArray(layout.walls ?? [], `${path}.walls`).map((wall, i) => checkWall(wall, `${path}.walls[${i}]`)),
+  };
+};
+
+const checkCell = (value: unknown, path: string, config: SimulationConfig): SavedCell => {
+  if (!isObject(value)) invalid(path, 'an object');
+  const cell = value as Record<string, unknown>;
+  const directions = checkArray(cell.directions, `${path}.directions`).map((direction, i) =>
+    checkPoint(direction, `${path}.directions[${i}]`),
+  );
+  if (typeof cell.color !== 'string') invalid(`${path}.color`, 'a string');
+  const saved: SavedCell = {
+    directions,
+    minEnergy: checkNumber(cell.minEnergy, `${path}.minEnergy`),
+    color: cell.color as string,
+  };
+  if (cell.mutationRate !== undefined) saved.mutationRate = checkNumber(cell.mutationRate, `${path}.mutationRate`);
+  if (cell.crowdingParent !== undefined) {
+    saved.crowdingParent = checkNumber(cell.crowdingParent, `${path}.crowdingParent`);
+  }
+
+  if (config.brain === 'neural') {
+    const count = NeuralNetwork.weightCount([SENSOR_COUNT, ...config.hiddenLayers, 2]);
+    saved.weights = checkArray(cell.weights, `${path}.weights`).map((weight, i) =>
+      checkNumber(weight, `${path}.weights[${i}]`),
+    );
+    if (saved.weights.length !== count)
+      invalid(`${path}.weights`, `${count} weights long to match config.hiddenLayers`);
+  } else if (directions.length !== config.energy) {
+    invalid(`${path}.directions`, `${config.energy} directions long to match config.energy`);
+  }
+  return saved;
+};
+
+/**
+ * Returns the value as a SimulationConfig if it matches the schema, otherwise throws an error describing the first
+ * mismatch. Missing values are taken from defaultConfig, the seed is required.
+ * @param value
+ * @param path - where the config is in the file, used in error messages
+ */
+export const checkConfig = (value: unknown, path: string): SimulationConfig => {
+  if (!isObject(value)) return invalid(path, 'an object');
+  const config = { ...defaultConfig, ...value } as SimulationConfig;
+  for (const key of Object.keys(defaultConfig) as (keyof SimulationConfig)[]) {
+    const type = typeof defaultConfig[key as keyof typeof defaultConfig];
+    if (type === 'number') {
+      const number = checkNumber(config[key], `${path}.${key}`);
+      const range = configRanges[key];
+      if (range) checkRange(number, `${path}.${key}`, range);
+    }
+    if (type === 'boolean' && typeof config[key] !== 'boolean') invalid(`${path}.${key}`, 'true or false');
+  }
+  if (config.minMutationRate > config.maxMutationRate) {
+    invalid(`${path}.minMutationRate`, `at most maxMutationRate (${config.maxMutationRate})`);
+  }
+  checkNumber(config.seed, `${path}.seed`);
+  checkName(config.mutation, mutationOperators, `${path}.mutation`);
+  checkName(config.mutationSchedule, mutationSchedules, `${path}.mutationSchedule`);
+  checkName(config.crossover, crossoverOperators, `${path}.crossover`);
+  checkName(config.selection, selectionStrategies, `${path}.selection`);
+  checkName(config.replacement, replacementStrategies, `${path}.replacement`);
+  checkName(config.niching, { none: true, sharing: true, speciation: true, crowding: true }, `${path}.niching`);
+  if (!isObject(config.fitness)) invalid(`${path}.fitness`, 'an object');
+  for (const [name, weight] of Object.entries(config.fitness)) {
+    checkName(name, fitnessTerms, `${path}.fitness keys`);
+    checkNumber(weight, `${path}.fitness.${name}`);
+  }
+  checkName(config.brain, { directions: true, neural: true }, `${path}.brain`);
+  checkArray(config.hiddenLayers, `${path}.hiddenLayers`).forEach((size, i) =>
+    checkRange(checkNumber(size, `${path}.hiddenLayers[${i}]`), `${path}.hiddenLayers[${i}]`, {
+      min: 1,
+      integer: true,
+    }),
+  );
+  config.layout = config.layout === null ? null : checkLayout(config.layout, `${path}.layout`);
+  return config;
+};
+
+const checkSpecies = (value: unknown, path: string, config: SimulationConfig): SavedSpecies => {
+  if (!isObject(value)) return invalid(path, 'an object');
+  if (typeof value.color !== 'string') invalid(`${path}.color`, 'a string');
+  return {
+    id: checkNumber(value.id, `${path}.id`),
+    color: value.color as string,
+    representative: checkCell(value.representative, `${path}.representative`, config),
+  };
+};
+
+const statsFields = [
+  'generation',
+  'bestFitness',
+  'meanFitness',
+  'medianFitness',
+  'worstFitness',
+  'reachedGoal',
+  'virusDeaths',
+  'wallDeaths',
+  'energyDeaths',
+  'diversity',
+] as const;
+
+/**
+ * The mutation rate and species were added to the statistics after the first version of the format, files without
+ * them leave them out.
+ */
+const checkStats = (value: unknown, path: string): GenerationStats => {
+  if (!isObject(value)) return invalid(path, 'an object');
+  const stats = { ...value } as Record<string, unknown>;
+  for (const field of statsFields) checkNumber(stats[field], `${path}.${field}`);
+  if (stats.bestStepsToGoal !== null) checkNumber(stats.bestStepsToGoal, `${path}.bestStepsToGoal`);
+  for (const field of ['mutationRate', 'species']) {
+    if (stats[field] !== undefined) checkNumber(stats[field], `${path}.${field}`);
+  }
+  return stats as unknown as GenerationStats;
+};
+
+/**
+ * Returns the value as a SavedState if it matches the schema, otherwise throws an error describing the first mismatch.
+ * Species were added after the first version of the format, files without them start grouping species again.
+ */
+const checkSavedState = (state: Record<string, unknown>): SavedState => {
+  const config = checkConfig(state.config, 'config');
+  const cells = checkArray(state.cells, 'cells').map((cell, i) => checkCell(cell, `cells[${i}]`, config));
+  if (cells.length !== config.populationSize) invalid('cells', `${config.populationSize} cells long`);
+  cells.forEach(({ crowdingParent }, i) => {
+    if (crowdingParent === undefined) return;
+    if (
+      !Number.isInteger(crowdingParent) ||
+      crowdingParent < 0 ||
+      crowdingParent >= cells.length ||
+      crowdingParent === i
+    ) {
+      invalid(`cells[${i}].crowdingParent`, 'the index of another cell');
+    }
+  });
+
+  return {
+    version: SAVE_VERSION,
+    config,
+    randomState: checkNumber(state.randomState, 'randomState'),
+    generation: checkNumber(state.generation, 'generation'),
+    environment: checkLayout(state.environment, 'environment'),
+    cells,
+    champion:
+      state.champion === null || state.champion === undefined ? null : checkCell(state.champion, 'champion', config),
+    species: checkArray(state.species ?? [], 'species').map((species, i) =>
+      checkSpecies(species, `species[${i}]`, config),
+    ),
+    nextSpeciesId: checkNumber(state.nextSpeciesId ?? 0, 'nextSpeciesId'),
+    history: checkArray(state.history ?? [], 'history').map((stats, i) => checkStats(stats, `history[${i}]`)),
+  };
+};
+
+/**
+ * Returns the value as a SavedState if it matches the schema, otherwise throws an error describing the first mismatch.
+ * @param value - parsed JSON
+ */
+export const validateSavedState = (value: unknown): SavedState => {
+  if (!isObject(value)) throw new Error('Invalid save file: the file should be a JSON object');
+  if (value.version !== SAVE_VERSION) {
+    throw new Error(`Unsupported save file version ${String(value.version)}, expected version ${SAVE_VERSION}`);
+  }
+  try {
+    return checkSavedState(value);
+  } catch (error) {
+    throw new Error(`Invalid save file: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Parses the text of a save file, throws an error if it is not valid JSON or does not match the schema.
+ * @param text
+ */
+export const parseSavedState = (text: string) => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid save file: ${(error as Error).message}`);
+  }
+  return validateSavedState(value);
+};
+
+/**
+ * Returns a Cell for a population created from a saved genome.
+ */
+export const loadCell = (saved: SavedCell, population: Population) => {
+  const start = population.environment.start.clone();
+  const cell = saved.weights
+    ? new NeuralCell(
+        start,
+        new NeuralNetwork(population.networkLayers, [...saved.weights]),
+        population.energy,
+        population.speed,
+        population.senseRange,
+      )
+    : new Cell(start, saved.directions.map(Vector2D.fromArray), population.speed);
+  cell.minEnergy = saved.minEnergy;
+  cell.color = saved.color;
+  cell.mutationRate = saved.mutationRate ?? null;
+  return cell;
+};
+
+/**
+ * Returns a Simulation that continues exactly where the saved simulation left off.
+ * @param state - a validated saved state
+ */
+export const loadSimulation = (state: SavedState) => {
+  const simulation = new Simulation({ ...state.config, populationSize: 0, layout: state.environment });
+  simulation.config = { ...state.config };
+
+  const { population } = simulation;
+
+  population.size = state.config.populationSize;
+  population.cells = state.cells.map((cell) => loadCell(cell, population));
+  state.cells.forEach(({ crowdingParent }, i) => {
+    if (crowdingParent !== undefined) population.cells[i].crowdingParent = population.cells[crowdingParent];
+  });
+  population.champion = state.champion ? loadCell(state.champion, population) : null;
+  population.species = state.species.map(({ id, color, representative }) => {
+    const cell = loadCell(representative, population);
+    return { id, color, representative: cell, members: [cell] };
+  });
+  population.nextSpeciesId = state.nextSpeciesId;
+  population.generation = state.generation;
+  population.history = state.history.map((stats) => ({ ...stats }));
+  simulation.random.state = state.randomState;
+  return simulation;
+};
+
+/**
+ * Replace the first cell of a simulation with the champion of a saved run.
+ * @param simulation - simulation to seed, must use the same brain and energy as the saved run
+ * @param state - a validated saved state
+ */
+export const seedChampion = (simulation: Simulation, state: SavedState) => {
+  const { champion } = state;
+  if (!champion) {
+    throw new Error('Save file has no champion, it was saved before the first generation evolved');
+  }
+  const { config } = simulation;
+  if (state.config.brain !== config.brain) {
+    throw new Error(`Champion has a ${state.config.brain} brain but the simulation uses a ${config.brain} brain`);
+  }
+  if (config.brain === 'neural' && state.config.hiddenLayers.join() !== config.hiddenLayers.join()) {
+    throw new Error(
+      `Champion has hidden layers [${state.config.hiddenLayers}] but the simulation uses [${config.hiddenLayers}]`,
+    );
+  }
+  if (config.brain === 'directions' && champion.directions.length !== config.energy) {
+    throw new Error(
+      `Champion has ${champion.directions.length} directions but the simulation uses ${config.energy} energy`,
+    );
+  }
+  simulation.population.seed([loadCell(champion, simulation.population)]);
+};
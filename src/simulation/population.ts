@@ -0,0 +1,375 @@
+import { Random } from '../utils/random';
+import { CrossoverName } from '../ga/crossover';
+import { NeuralNetwork } from '../ga/network';
+import { SelectionName, SelectionOptions, Selector, selectionStrategies } from '../ga/selection';
+import { FitnessWeights, createFitnessFunction } from '../ga/fitness';
+import {
+  MutationName,
+  MutationScheduleName,
+  MutationScheduleOptions,
+  adaptRate,
+  mutationSchedules,
+} from '../ga/mutation';
+import { ReplacementName, ReplacementOptions, eliteCount, replacementStrategies } from '../ga/replacement';
+import { NichingName, NichingOptions, Species, allocateOffspring, sharedFitness, speciate } from '../ga/niching';
+import { Cell, randomDirections } from './cell';
+import { NeuralCell } from './neural-cell';
+import { SENSOR_COUNT } from './sensors';
+import { Environment } from './environment';
+import { GenerationStats, collectStats } from './statistics';
+
+/**
+ * What decides how a cell moves, a fixed list of directions or a neural network reading the cell's sensors.
+ */
+export type Brain = 'directions' | 'neural';
+
+export interface PopulationOptions
+  extends SelectionOptions, MutationScheduleOptions, ReplacementOptions, NichingOptions {
+  size: number;
+  mutationRate: number; // percentage chance that a mutation will occur, the base rate of the mutation schedule
+  mutation: MutationName; // operator used to mutate directions
+  mutationSchedule: MutationScheduleName; // how the mutation rate changes over generations
+  energy: number; // the amount of directions / accelerations that each cell can have
+  speed: number; // distance each cell moves per step
+  crossover: CrossoverName; // operator used to recombine the directions of two parents
+  crossoverRate: number; // percentage chance that a child has two parents instead of being a clone of one parent
+  selection: SelectionName; // strategy used to select parents
+  replacement: ReplacementName; // how each generation is replaced by the next
+  niching: NichingName; // how diversity is preserved
+  fitness: FitnessWeights; // weight of each term of the fitness function
+  noveltyNeighbours: number; // number of nearest neighbours used by the novelty fitness term
+  brain: Brain; // what decides how each cell moves
+  hiddenLayers: number[]; // number of neurons in each hidden layer of a neural brain
+  senseRange: number; // distance at which cells with a neural brain start sensing viruses and walls
+}
+
+/**
+ * Returns how different the genomes of two cells are, in range [0, 1].
+ */
+const genomeDistance = (a: Cell, b: Cell) => a.genomeDistance(b);
+
+export class Population {
+  size: number;
+  mutationRate: number;
+  mutation: MutationName;
+  mutationSchedule: MutationScheduleName;
+  scheduleOptions: MutationScheduleOptions;
+  energy: number;
+  speed: number;
+  brain: Brain;
+  hiddenLayers: number[];
+  senseRange: number;
+  crossover: CrossoverName;
+  crossoverRate: number;
+  selection: SelectionName;
+  selectionOptions: SelectionOptions;
+  replacement: ReplacementName;
+  replacementOptions: ReplacementOptions;
+  niching: NichingName;
+  nichingOptions: NichingOptions;
+  species: Species<Cell>[];
+  nextSpeciesId: number;
+  calcFitness: ReturnType<typeof createFitnessFunction>;
+  cells: Cell[];
+  champion: Cell | null;
+  ranked: Cell[];
+  environment: Environment;
+  random: Random;
+  fitness: number;
+  generation: number;
+  history: GenerationStats[];
+
+  /**
+   * Constructor for Population.
+   * @param options - size of the population and parameters of the genetic operators
+   * @param environment - the world the cells move around in, containing the goal cells should move towards and the
+   * viruses that are obstacles for cells
+   * @param random - random number generator used for every random decision made by the population
+   */
+  constructor(options: PopulationOptions, environment: Environment, random: Random) {
+    this.size = options.size;
+    this.mutationRate = options.mutationRate;
+    this.mutation = options.mutation;
+    this.mutationSchedule = options.mutationSchedule;
+    this.scheduleOptions = {
+      mutationDecay: options.mutationDecay,
+      minMutationRate: options.minMutationRate,
+      maxMutationRate: options.maxMutationRate,
+      stallGenerations: options.stallGenerations,
+      stallBoost: options.stallBoost,
+      // diversity is only measured for directions, it is always 0 for a neural brain
+      minDiversity: options.brain === 'neural' ? 0 : options.minDiversity,
+      diversityTolerance: options.brain === 'neural' ? 0 : options.diversityTolerance,
+      selfAdaptation: options.selfAdaptation,
+    };
+    this.energy = options.energy;
+    this.speed = options.speed;
+    this.brain = options.brain;
+    this.hiddenLayers = options.hiddenLayers;
+    this.senseRange = options.senseRange;
+    this.crossover = options.crossover;
+    this.crossoverRate = options.crossoverRate;
+    this.selection = options.selection;
+    this.selectionOptions = { tournamentSize: options.tournamentSize, truncationRate: options.truncationRate };
+    this.replacement = options.replacement;
+    this.replacementOptions = {
+      eliteCount: options.eliteCount,
+      eliteFraction: options.eliteFraction,
+      steadyStateRate: options.steadyStateRate,
+      muFraction: options.muFraction,
+      immigrationRate: options.immigrationRate,
+    };
+    this.niching = options.niching;
+    this.nichingOptions = {
+      sharingRadius: options.sharingRadius,
+      speciesThreshold: options.speciesThreshold,
+      maxSpecies: options.maxSpecies,
+    };
+    this.species = []; // species of the last generation that evolved, used to colour cells by species
+    this.nextSpeciesId = 0; // id of the next species to appear
+    this.calcFitness = createFitnessFunction(options.fitness, options.noveltyNeighbours);
+    this.environment = environment;
+    this.random = random;
+    this.cells = [];
+    for (let i = 0; i < this.size; i++) {
+      this.cells.push(this.createCell());
+    }
+    this.champion = null; // fittest cell of the last generation that evolved
+    this.ranked = []; // cells of the last generation that evolved from fittest to least fit, used to pick migrants
+    this.fitness = 0; // sum of fitness of all cells in population
+    this.generation = 1;
+    this.history = []; // statistics of every generation that has evolved
+  }
+
+  /**
+   * Number of neurons in each layer of a neural brain, one input per sensor reading and two outputs for the acceleration.
+   */
+  get networkLayers() {
+    return [SENSOR_COUNT, ...this.hiddenLayers, 2];
+  }
+
+  /**
+   * Returns a new cell at the start of the environment with a random genome for the population's brain.
+   */
+  createCell() {
+    const start = this.environment.start.clone();
+    if (this.brain === 'neural') {
+      const network = NeuralNetwork.random(this.networkLayers, this.random);
+      return new NeuralCell(start, network, this.energy, this.speed, this.senseRange);
+    }
+    return new Cell(start, randomDirections(this.energy, this.random), this.speed);
+  }
+
+  /**
+   * Updates the cells and if all cells are dead it evolves the population and the environment restarts for the next
+   * generation.
+   * Returns true if the population evolved into a new generation.
+   */
+  update() {
+    const allDead = this.move();
+    if (allDead) this.nextGeneration();
+    return allDead;
+  }
+
+  /**
+   * Evolves the population and updates the generation, the environment restarts for the new generation.
+   */
+  nextGeneration() {
+    // perform natural selection and evolve the population
+    this.evolve();
+    this.generation++;
+    this.environment.restart();
+  }
+
+  /**
+   * Moves the goals of the environment and updates the coordinates of every cell without evolving the population.
+   * Returns true if every cell is dead.
+   */
+  move() {
+    this.environment.advance(); // moving goals move before the cells so the step of a cell matches the environment's
+    return this.updateCells();
+  }
+
+  /**
+   * Updates the coordinates of every cell without moving the goals, for populations that share an environment.
+   * Returns true if every cell is dead.
+   */
+  updateCells() {
+    let allDead = true;
+    for (let i = 0; i < this.size; i++) {
+      this.cells[i].update(this.environment); // check if cell is within boundaries, alive and move it
+      if (!this.cells[i].isDead) {
+        allDead = false;
+      }
+    }
+    return allDead;
+  }
+
+  /**
+   * Evolve the population of cells.
+   * Calculates the fitness of every cell once and ranks the cells from fittest to least fit. With crowding only the
+   * fitter of each child and the copy of the parent it most resembles is ranked, both lived through the same world. The cells are grouped into
+   * species, which give every cell its colour. The replacement strategy decides which cells survive into the next
+   * generation unchanged and which can be parents, the fittest survivors are elites and coloured black. The rest of the
+   * next generation is a fraction of random immigrants given by immigrationRate and children. Parents are picked by the
+   * selection strategy, using shared fitness with fitness sharing and only from within one species with speciation.
+   * With a chance given by crossoverRate a second parent is selected and the child's directions are a recombination of
+   * both parents. The mutation rate is given by the mutation schedule, with self-adaptive rates every child inherits and
+   * mutates its parent's own rate instead.
+   */
+  evolve() {
+    if (this.cells.length === 0) return; // nothing to rank or breed, the generation passes without statistics
+    let parent: Cell;
+    let partner: Cell;
+    let child: Cell;
+    const newCells = [];
+
+    this.fitness = this.fitnessSum(); // fitness of population is the sum of fitness of all cells in population
+    const selfAdaptive = this.mutationSchedule === 'self-adaptive';
+    const rate = mutationSchedules[this.mutationSchedule](this.mutationRate, this.history, this.scheduleOptions);
+    const stats = collectStats(this.cells, this.generation);
+    stats.mutationRate = selfAdaptive
+      ? this.cells.reduce((sum, cell) => sum + (cell.mutationRate ?? rate), 0) / Math.max(this.cells.length, 1)
+      : rate;
+
+    const contenders = this.niching === 'crowding' ? this.crowd() : this.cells;
+    this.species = speciate(contenders, this.species, genomeDistance, this.nichingOptions, () => this.nextSpeciesId++);
+    stats.species = this.species.length;
+    this.history.push(stats);
+    const colors = new Map<Cell, string>();
+    for (const species of this.species) {
+      for (const member of species.members) colors.set(member, species.color);
+    }
+
+    const ranked = [...contenders].sort((a, b) => b.fitness - a.fitness); // stable, ties keep the order of the cells
+    const { survivors, parents } = replacementStrategies[this.replacement](ranked, this.replacementOptions);
+    const immigrants = Math.min(
+      this.size - survivors.length,
+      Math.round(this.size * this.replacementOptions.immigrationRate),
+    );
+
+    const children = this.size - survivors.length - immigrants;
+    const paired = new Set<Cell>(); // parents that already have a child competing with a copy of them
+    for (const selectParent of this.breeders(parents, children)) {
+      if (newCells.length === children) break; // copies of parents take up places of children with crowding
+      parent = selectParent();
+      if (this.random.next() < this.crossoverRate) {
+        partner = selectParent();
+        child = parent.crossover(partner, this.crossover, this.random);
+      } else {
+        partner = parent;
+        child = parent.getChild();
+      }
+      if (selfAdaptive) {
+        child.mutationRate = adaptRate(parent.mutationRate ?? rate, this.random, this.scheduleOptions);
+      }
+      child.mutate(child.mutationRate ?? rate, this.random, this.mutation);
+      child.color = colors.get(parent) ?? child.color;
+      if (this.niching === 'crowding') {
+        const rival =
+          partner === parent || child.genomeDistance(parent) <= child.genomeDistance(partner) ? parent : partner;
+        if (!paired.has(rival) && newCells.length + 2 <= children) {
+          paired.add(rival);
+          const copy = rival.clone();
+          copy.color = colors.get(rival) ?? copy.color;
+          if (selfAdaptive) copy.mutationRate = copy.mutationRate ?? rate;
+          child.crowdingParent = copy;
+          newCells.push(copy);
+        }
+      }
+      newCells.push(child);
+    }
+    for (let i = 0; i < immigrants; i++) {
+      const immigrant = this.createCell();
+      if (selfAdaptive) immigrant.mutationRate = rate;
+      newCells.push(immigrant);
+    }
+
+    // survivors are added last so they are drawn on top, elites are the fittest survivors
+    const elites = eliteCount(this.size, this.replacementOptions);
+    for (let i = survivors.length - 1; i >= 0; i--) {
+      const survivor = survivors[i].clone();
+      survivor.color = i < elites ? '#000000' : (colors.get(survivors[i]) ?? survivor.color);
+      if (selfAdaptive) survivor.mutationRate = survivor.mutationRate ?? rate; // cells of the first generation have none
+      newCells.push(survivor);
+    }
+
+    const champion = ranked[0].clone();
+    champion.color = '#000000';
+    this.champion = champion; // fittest cell of the generation, whether or not it survives
+    this.ranked = ranked;
+    this.cells = newCells;
+  }
+
+  /**
+   * Returns the cells that compete for a place in the next generation with crowding. Every child is paired with a copy
+   * of the parent it most resembles that lived through the same generation, and only the fitter of the two competes, so
+   * a child can only take over the niche of a similar parent. A parent that has been replaced, i.e. by a migrant, leaves
+   * its child without a rival.
+   */
+  private crowd() {
+    const cells = new Set(this.cells);
+    const losers = new Set<Cell>();
+    for (const cell of this.cells) {
+      const parent = cell.crowdingParent;
+      if (parent && cells.has(parent)) losers.add(parent.fitness > cell.fitness ? cell : parent);
+    }
+    return this.cells.filter((cell) => !losers.has(cell));
+  }
+
+  /**
+   * Returns the parent selector of each child to be bred, created once per generation. With speciation each species
+   * breeds a share of the children in proportion to its mean fitness and selects parents only from its own members.
+   * @param parents - cells that can be selected as parents
+   * @param children - number of children to breed
+   */
+  private breeders(parents: Cell[], children: number): Selector<Cell>[] {
+    if (this.niching === 'speciation') {
+      const candidates = new Set(parents);
+      const species = this.species
+        .map((existing) => ({ ...existing, members: existing.members.filter((member) => candidates.has(member)) }))
+        .filter((existing) => existing.members.length > 0);
+      const counts = allocateOffspring(species, children);
+      return species.flatMap((existing, i) => {
+        const select = selectionStrategies[this.selection](existing.members, this.random, this.selectionOptions);
+        return Array.from({ length: counts[i] }, () => select);
+      });
+    }
+
+    let select: Selector<Cell>;
+    if (this.niching === 'sharing') {
+      const shared = sharedFitness(parents, genomeDistance, this.nichingOptions.sharingRadius);
+      const niches = parents.map((cell, i) => ({ cell, fitness: shared[i] }));
+      const selectNiche = selectionStrategies[this.selection](niches, this.random, this.selectionOptions);
+      select = () => selectNiche().cell;
+    } else {
+      select = selectionStrategies[this.selection](parents, this.random, this.selectionOptions);
+    }
+    return Array.from({ length: children }, () => select);
+  }
+
+  /**
+   * Replace cells of the population with the given cells, starting from the first cell. Used to seed a population with
+   * genomes from another run or with migrants from another island. The first cells of a new generation are children and
+   * with crowding the copies of their parents, so the survivors of the last generation are the last to be replaced.
+   * @param cells - cells with the same brain and energy as the population
+   */
+  seed(cells: Cell[]) {
+    for (let i = 0; i < Math.min(cells.length, this.size); i++) {
+      this.cells[i] = cells[i];
+    }
+  }
+
+  /**
+   * Calculates the fitness of every cell and returns the sum of fitness of all cells in the population
+   */
+  fitnessSum() {
+    this.calcFitness(this.cells, this.environment);
+    let sum = 0;
+    for (let i = 0; i < this.size; i++) {
+      sum += this.cells[i].fitness;
+    }
+    this.fitness = sum;
+    return sum;
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { Simulation } from './simulation';
+import { createEnvironment } from './layout';
+import { GenerationRecorder, Replay, tracePath } from './replay';
+
+const config = { populationSize: 10, energy: 30, numOfViruses: 5, seed: 7 };
+
+/**
+ * Returns a simulation that has run the given number of generations, recorded by a recorder.
+ */
+const recordedRun = (generations: number, recorder: GenerationRecorder, overrides = {}) => {
+  const simulation = new Simulation({ ...config, ...overrides });
+  recorder.record(simulation);
+  for (let i = 0; i < generations; i++) {
+    simulation.runGeneration();
+    recorder.record(simulation);
+  }
+  return simulation;
+};
+
+describe('GenerationRecorder', () => {
+  it('should simulate a past generation exactly as it happened', () => {
+    const recorder = new GenerationRecorder({ interval: 3 });
+    recordedRun(7, recorder);
+
+    const original = new Simulation(config);
+    original.runGenerations(4);
+    const simulated = recorder.simulate(5);
+    expect(simulated.generation).toBe(5);
+    expect(simulated.snapshot()).toEqual(original.snapshot());
+    original.runGeneration();
+    simulated.runGeneration();
+    expect(simulated.history).toEqual(original.history);
+  });
+
+  it('should simulate a past generation of a crowding run exactly as it happened', () => {
+    const crowding = { niching: 'crowding' as const, randomizeGoals: true };
+    const recorder = new GenerationRecorder({ interval: 2 });
+    recordedRun(6, recorder, crowding);
+
+    const original = new Simulation({ ...config, ...crowding });
+    original.runGenerations(3);
+    const simulated = recorder.simulate(4);
+    expect(simulated.snapshot()).toEqual(original.snapshot());
+    original.runGenerations(2);
+    simulated.runGenerations(2);
+    expect(simulated.history).toEqual(original.history);
+  });
+
+  it('should take a keyframe when the config changes', () => {
+    const recorder = new GenerationRecorder({ interval: 100 });
+    const simulation = recordedRun(1, recorder);
+    simulation.config.mutationRate = 0.5;
+    simulation.population.mutationRate = 0.5;
+    simulation.runGeneration();
+    recorder.record(simulation);
+    simulation.runGeneration();
+    recorder.record(simulation);
+
+    expect(recorder.keyframes.map((keyframe) => keyframe.generation)).toEqual([1, 3]);
+    expect(recorder.simulate(4).snapshot()).toEqual(simulation.snapshot());
+  });
+
+  it('should drop every other keyframe when there are too many', () => {
+    const recorder = new GenerationRecorder({ interval: 1, maxKeyframes: 4 });
+    recordedRun(6, recorder);
+    expect(recorder.keyframes.map((keyframe) => keyframe.generation)).toEqual([1, 3, 5, 7]);
+    expect(recorder.firstGeneration).toBe(1);
+  });
+
+  it('should start a new recording for a different simulation', () => {
+    const recorder = new GenerationRecorder();
+    recordedRun(2, recorder);
+    const simulation = new Simulation(config);
+    recorder.record(simulation);
+    expect(recorder.keyframes).toHaveLength(1);
+    expect(recorder.bestPaths.size).toBe(0);
+  });
+
+  it('should not simulate generations that were not recorded', () => {
+    const recorder = new GenerationRecorder();
+    recordedRun(2, recorder);
+    expect(() => recorder.simulate(4)).toThrow('Generation 4 has not been recorded');
+    expect(() => recorder.simulate(0)).toThrow('Generation 0 has not been recorded');
+  });
+
+  it('should record the path of the best cell of every generation', () => {
+    const recorder = new GenerationRecorder();
+    const simulation = recordedRun(3, recorder);
+    expect([...recorder.bestPaths.keys()]).toEqual([1, 2, 3]);
+    expect(recorder.pathsBefore(4, 2).map((path) => path.generation)).toEqual([2, 3]);
+
+    const points = recorder.bestPaths.get(3) as Float32Array;
+    const { start } = simulation.environment;
+    expect([points[0], points[1]]).toEqual([start.x, start.y]);
+  });
+});
+
+describe('tracePath', () => {
+  it('should follow a cell until it dies without changing it', () => {
+    const simulation = new Simulation(config);
+    const cell = simulation.population.cells[0];
+    const environment = createEnvironment(600, 600, { start: [300, 595], goals: [[300, 25]], viruses: [], walls: [] });
+    const points = tracePath(cell, environment);
+    expect(points.length % 2).toBe(0);
+    expect(points.length).toBeGreaterThan(2);
+    expect(cell.steps).toBe(0);
+    expect(environment.step).toBe(0);
+  });
+});
+
+describe('Replay', () => {
+  it('should play back a generation without evolving it', () => {
+    const replay = new Replay(new Simulation(config));
+    while (!replay.advance());
+    const step = replay.step;
+    expect(replay.simulation.generation).toBe(1);
+    expect(replay.simulation.population.cells.every((cell) => cell.isDead)).toBe(true);
+    expect(replay.advance()).toBe(true);
+    expect(replay.step).toBe(step);
+  });
+
+  it('should seek backwards and forwards to the same state', () => {
+    const replay = new Replay(new Simulation(config));
+    replay.seek(20);
+    const snapshot = replay.snapshot();
+    replay.seek(5);
+    expect(replay.step).toBe(5);
+    replay.seek(20);
+    expect(replay.snapshot()).toEqual(snapshot);
+  });
+});
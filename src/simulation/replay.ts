@@ -0,0 +1,203 @@
+import { Cell } from './cell';
+import { Environment } from './environment';
+import { Layout, createEnvironment, layoutOf } from './layout';
+import { SavedState, loadSimulation, saveSimulation } from './persistence';
+import { Simulation, SimulationSnapshot } from './simulation';
+
+export interface RecorderOptions {
+  interval: number; // number of generations between keyframes
+  maxKeyframes: number; // once there are more keyframes every other one is dropped and the interval doubles
+}
+
+export const defaultRecorderOptions: RecorderOptions = {
+  interval: 10,
+  maxKeyframes: 10,
+};
+
+/**
+ * Returns the positions a cell moves through from the start of a generation until it dies, as x, y pairs starting with
+ * the start position. The cell is cloned and the environment restarted so neither is changed.
+ * @param cell
+ * @param environment
+ */
+export const tracePath = (cell: Cell, environment: Environment) => {
+  const traced = cell.clone();
+  environment.restart();
+  const points = [traced.position.x, traced.position.y];
+  while (!traced.isDead) {
+    environment.advance();
+    traced.update(environment);
+    points.push(traced.position.x, traced.position.y);
+  }
+  environment.restart();
+  return new Float32Array(points);
+};
+
+export class GenerationRecorder {
+  simulation: Simulation | null;
+  options: RecorderOptions;
+  keyframes: SavedState[];
+  bestPaths: Map<number, Float32Array>;
+  private interval: number;
+  private layout: Layout | null;
+
+  /**
+   * Constructor for GenerationRecorder, records a run so any generation since the start of the run can be simulated
+   * again exactly. Storing the genomes of every generation takes too much memory, so only a keyframe of the whole
+   * simulation is kept every few generations and the generations in between are re-simulated from the closest one.
+   * @param options - any missing values are taken from defaultRecorderOptions
+   */
+  constructor(options: Partial<RecorderOptions> = {}) {
+    this.options = { ...defaultRecorderOptions, ...options };
+    this.simulation = null;
+    this.keyframes = [];
+    this.bestPaths = new Map(); // path of the champion of every recorded generation, by generation
+    this.interval = this.options.interval;
+    this.layout = null; // layout at the start of the last recorded generation
+  }
+
+  /**
+   * First generation that can be simulated again, or null before anything has been recorded.
+   */
+  get firstGeneration() {
+    return this.keyframes.length > 0 ? this.keyframes[0].generation : null;
+  }
+
+  /**
+   * Record a simulation at the start of a generation, call it once for the first generation and again every time the
+   * population evolves. Recording a different simulation, i.e. after a reset or load, starts a new recording.
+   * @param simulation
+   */
+  record(simulation: Simulation) {
+    if (simulation !== this.simulation) this.clear(simulation);
+    const { generation } = simulation;
+
+    // the champion is the best cell of the generation that just finished, traced through the world it lived in
+    const { champion } = simulation.population;
+    if (champion && this.layout) {
+      const { width, height } = simulation.config;
+      this.bestPaths.set(generation - 1, tracePath(champion, createEnvironment(width, height, this.layout)));
+    }
+    this.layout = layoutOf(simulation.environment);
+
+    const last = this.keyframes[this.keyframes.length - 1];
+    const configChanged = last && JSON.stringify(last.config) !== JSON.stringify(simulation.config);
+    if (!last || configChanged || generation - last.generation >= this.interval) {
+      if (last && last.generation === generation) this.keyframes.pop();
+      this.keyframes.push(saveSimulation(simulation));
+      if (this.keyframes.length > this.options.maxKeyframes) this.thin();
+    }
+  }
+
+  /**
+   * Drop every other keyframe and double the interval between them, the first keyframe is always kept. Keyframes taken
+   * because the config changed are kept too, without them the generations after the change would be simulated with the
+   * old config.
+   */
+  private thin() {
+    this.interval *= 2;
+    this.keyframes = this.keyframes.filter(
+      (keyframe, i) => i % 2 === 0 || JSON.stringify(keyframe.config) !== JSON.stringify(this.keyframes[i - 1].config),
+    );
+  }
+
+  /**
+   * Forget everything recorded and start recording the given simulation.
+   * @param simulation
+   */
+  clear(simulation: Simulation | null = null) {
+    this.simulation = simulation;
+    this.keyframes = [];
+    this.bestPaths = new Map();
+    this.interval = this.options.interval;
+    this.layout = null;
+  }
+
+  /**
+   * Returns a new simulation at the start of the given generation, exactly as the recorded one was. Throws an error if
+   * the generation was not recorded.
+   * @param generation
+   */
+  simulate(generation: number) {
+    const current = this.simulation?.generation ?? -1;
+    let keyframe: SavedState | null = null;
+    for (const candidate of this.keyframes) {
+      if (candidate.generation <= generation) keyframe = candidate;
+    }
+    if (!keyframe || generation > current) {
+      throw new Error(`Generation ${generation} has not been recorded`);
+    }
+    const simulation = loadSimulation(keyframe);
+    simulation.runGenerations(generation - keyframe.generation);
+    return simulation;
+  }
+
+  /**
+   * Returns the recorded paths of the champions of up to count generations before the given one, oldest first.
+   * @param generation - the paths of the generations before this one are returned
+   * @param count
+   */
+  pathsBefore(generation: number, count: number) {
+    const paths: { generation: number; points: Float32Array }[] = [];
+    for (let i = Math.max(1, generation - count); i < generation; i++) {
+      const points = this.bestPaths.get(i);
+      if (points) paths.push({ generation: i, points });
+    }
+    return paths;
+  }
+}
+
+export class Replay {
+  simulation: Simulation;
+  finished: boolean;
+  private start: SavedState;
+
+  /**
+   * Constructor for Replay, plays back a single generation of a simulation without evolving it, so it can be stepped
+   * forwards and sought backwards.
+   * @param simulation - a simulation at the start of the generation to play back, i.e. from GenerationRecorder.simulate
+   */
+  constructor(simulation: Simulation) {
+    this.start = saveSimulation(simulation);
+    this.simulation = simulation;
+    this.finished = false;
+  }
+
+  get generation() {
+    return this.start.generation;
+  }
+
+  /**
+   * Number of steps played back so far.
+   */
+  get step() {
+    return this.simulation.environment.step;
+  }
+
+  /**
+   * Move every cell one step, does nothing once every cell is dead. Returns true if the generation has finished.
+   */
+  advance() {
+    if (!this.finished) this.finished = this.simulation.population.move();
+    return this.finished;
+  }
+
+  /**
+   * Play back the generation from its start up to the given step, or up to the end if it finishes before it.
+   * @param step
+   */
+  seek(step: number) {
+    if (step < this.step) {
+      this.simulation = loadSimulation(this.start);
+      this.finished = false;
+    }
+    while (this.step < step && !this.advance());
+  }
+
+  /**
+   * Returns a plain object copy of the generation being played back that a renderer can draw.
+   */
+  snapshot(): SimulationSnapshot {
+    return this.simulation.snapshot();
+  }
+}
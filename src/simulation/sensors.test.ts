@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from '../utils/vector';
+import { Bacteria, Virus } from './organism';
+import { Cell } from './cell';
+import { Environment } from './environment';
+import { SENSOR_COUNT, senseEnvironment } from './sensors';
+
+describe('senseEnvironment', () => {
+  const environment = new Environment(
+    100,
+    100,
+    new Vector2D(50, 90),
+    [new Bacteria(new Vector2D(50, 10))],
+    [new Virus(new Vector2D(60, 50)), new Virus(new Vector2D(5, 5))],
+    [{ type: 'segment', x1: 0, y1: 40, x2: 100, y2: 40 }],
+  );
+  const cell = new Cell(new Vector2D(50, 50), []);
+
+  it('should return one reading per sensor in range [-1, 1]', () => {
+    const readings = senseEnvironment(cell, environment, 20);
+    expect(readings).toHaveLength(SENSOR_COUNT);
+    readings.forEach((reading) => expect(Math.abs(reading)).toBeLessThanOrEqual(1));
+  });
+
+  it('should sense the direction of the goal and nearby obstacles', () => {
+    const [goalX, goalY, , virusX, virusY, farVirusX, farVirusY, , , , , wallX, wallY] = senseEnvironment(
+      cell,
+      environment,
+      20,
+    );
+    expect([goalX, goalY]).toEqual([0, -1]);
+    expect(virusX).toBeCloseTo(0.5, 5); // 10 away in a sense range of 20
+    expect(virusY).toBe(0);
+    expect([farVirusX, farVirusY]).toEqual([0, 0]); // out of range
+    expect(wallX).toBe(0);
+    expect(wallY).toBeCloseTo(-0.5, 5);
+  });
+});
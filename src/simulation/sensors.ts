@@ -0,0 +1,85 @@
+import { Vector2D } from '../utils/vector';
+import { closestPointOnSegment } from '../utils/geometry';
+import { Cell } from './cell';
+import { Environment } from './environment';
+import { Wall } from './wall';
+
+export const NEAREST_VIRUSES = 2; // number of viruses a cell can sense at once
+
+// goal direction (2), goal distance (1), nearest viruses (2 each), boundary distances (4), nearest wall (2), velocity (2)
+export const SENSOR_COUNT = 2 + 1 + NEAREST_VIRUSES * 2 + 4 + 2 + 2;
+
+/**
+ * Returns the point of a wall closest to a position
+ */
+const closestPointOnWall = (wall: Wall, position: Vector2D) => {
+  if (wall.type === 'rect') {
+    return new Vector2D(
+      Math.max(wall.x, Math.min(position.x, wall.x + wall.width)),
+      Math.max(wall.y, Math.min(position.y, wall.y + wall.height)),
+    );
+  }
+  return closestPointOnSegment(position, new Vector2D(wall.x1, wall.y1), new Vector2D(wall.x2, wall.y2));
+};
+
+/**
+ * Returns a vector pointing from a cell towards an obstacle whose length grows from 0 at the edge of the sense range to
+ * 1 when the obstacle is touching the cell, obstacles out of range give a zero vector.
+ */
+const proximity = (offset: Vector2D, senseRange: number) => {
+  const distance = offset.magnitude();
+  if (distance === 0 || distance >= senseRange) return new Vector2D(0, 0);
+  return offset.divide(distance).multiply(1 - distance / senseRange);
+};
+
+/**
+ * Returns the sensor readings of a cell, every reading is in range [-1, 1] so they can be used as network inputs.
+ * @param cell
+ * @param environment
+ * @param senseRange - distance at which viruses and walls start being sensed
+ */
+export const senseEnvironment = (cell: Cell, environment: Environment, senseRange: number) => {
+  const { position } = cell;
+  const diagonal = Math.hypot(environment.width, environment.height);
+
+  const toGoal = (environment.nearestGoal(position, cell.goalsReached) ?? position).subtract(position);
+  const goalDistance = toGoal.magnitude();
+  const goalDirection = goalDistance === 0 ? new Vector2D(0, 0) : toGoal.divide(goalDistance);
+
+  const viruses = environment.virusGrid
+    .nearest(position, NEAREST_VIRUSES, senseRange)
+    .map((virus) => virus.position.subtract(position));
+  const virusReadings = [];
+  for (let i = 0; i < NEAREST_VIRUSES; i++) {
+    const reading = viruses[i] ? proximity(viruses[i], senseRange) : new Vector2D(0, 0);
+    virusReadings.push(reading.x, reading.y);
+  }
+
+  let nearestWall = new Vector2D(0, 0);
+  let nearestWallDistance = Infinity;
+  for (const wall of environment.walls) {
+    const offset = closestPointOnWall(wall, position).subtract(position);
+    if (offset.magnitude() < nearestWallDistance) {
+      nearestWallDistance = offset.magnitude();
+      nearestWall = offset;
+    }
+  }
+  const wallReading = proximity(nearestWall, senseRange);
+
+  const boundary = (distance: number) => Math.max(0, 1 - distance / senseRange);
+
+  return [
+    goalDirection.x,
+    goalDirection.y,
+    Math.min(1, goalDistance / diagonal),
+    ...virusReadings,
+    boundary(position.x),
+    boundary(environment.width - position.x),
+    boundary(position.y),
+    boundary(environment.height - position.y),
+    wallReading.x,
+    wallReading.y,
+    cell.speed > 0 ? cell.velocity.x / cell.speed : 0,
+    cell.speed > 0 ? cell.velocity.y / cell.speed : 0,
+  ];
+};
@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import { Simulation } from './simulation';
+import { builtInLayouts } from './layout';
+import { NeuralCell } from './neural-cell';
+
+describe('Simulation', () => {
+  it('should create a population and environment from the config', () => {
+    const simulation = new Simulation({ width: 200, height: 100, populationSize: 10, numOfViruses: 5 });
+    expect(simulation.population.cells).toHaveLength(10);
+    expect(simulation.environment.viruses).toHaveLength(5);
+    expect(simulation.environment.start.toArray()).toEqual([100, 95]);
+    expect(simulation.environment.goals.map((goal) => goal.position.toArray())).toEqual([[100, 25]]);
+  });
+
+  it('should run generations without a DOM', () => {
+    const simulation = new Simulation({ populationSize: 20, energy: 50 });
+    simulation.runGenerations(3);
+    expect(simulation.generation).toBe(4);
+    expect(simulation.population.cells).toHaveLength(20);
+    expect(simulation.population.cells.every((cell) => !cell.isDead)).toBe(true);
+  });
+
+  it('should return false from step until the generation ends', () => {
+    const simulation = new Simulation({ populationSize: 5, energy: 10 });
+    let steps = 1;
+    while (!simulation.step()) steps++;
+    expect(steps).toBeLessThanOrEqual(10);
+    expect(simulation.generation).toBe(2);
+  });
+
+  it('should stop cells where they first touch the goal or an obstacle', () => {
+    const simulation = new Simulation({ populationSize: 20, energy: 200, speed: 9, seed: 3 });
+    const { cells } = simulation.population;
+    while (cells.some((cell) => !cell.isDead)) {
+      cells.forEach((cell) => cell.update(simulation.environment));
+    }
+    expect(cells.some((cell) => cell.deathCause !== 'energy')).toBe(true);
+    for (const cell of cells) {
+      if (cell.deathCause === 'energy') continue;
+      expect(cell.contactPoint?.toArray()).toEqual(cell.position.toArray());
+      expect(cell.contactStep).toBeGreaterThan(cell.steps - 1);
+      expect(cell.contactStep).toBeLessThanOrEqual(cell.steps);
+    }
+  });
+
+  it('should give every cell its own mutation rate when rates are self-adaptive', () => {
+    const simulation = new Simulation({ populationSize: 20, energy: 30, mutationSchedule: 'self-adaptive', seed: 1 });
+    simulation.runGenerations(2);
+    const rates = simulation.population.cells.map((cell) => cell.mutationRate);
+    expect(rates.every((rate) => rate !== null && rate > 0)).toBe(true);
+    expect(new Set(rates).size).toBeGreaterThan(1);
+    expect(simulation.history[1].mutationRate).toBeGreaterThan(0);
+  });
+
+  it('should keep the fittest cell of every generation, including the last cell', () => {
+    const simulation = new Simulation({ populationSize: 5, energy: 30, seed: 1 });
+    const cells = simulation.population.cells;
+    simulation.population.calcFitness = () => cells.forEach((cell, i) => (cell.fitness = i)); // last cell is fittest
+    simulation.runGeneration();
+    expect(simulation.population.champion?.directions).toEqual(cells[4].directions);
+  });
+
+  it('should keep survivors and add immigrants for each replacement strategy', () => {
+    for (const replacement of ['generational', 'steady-state', 'mu-plus-lambda', 'mu-comma-lambda'] as const) {
+      const simulation = new Simulation({
+        populationSize: 20,
+        energy: 30,
+        replacement,
+        eliteCount: 2,
+        immigrationRate: 0.25,
+        seed: 1,
+      });
+      simulation.runGenerations(2);
+      const cells = simulation.population.cells;
+      expect(cells.length).toBe(20);
+      const elites = cells.filter((cell) => cell.color === '#000000').length;
+      expect(elites).toBe(replacement === 'mu-comma-lambda' ? 0 : 2);
+    }
+  });
+
+  it('should evolve with every niching method and colour cells by species', () => {
+    for (const niching of ['none', 'sharing', 'speciation', 'crowding'] as const) {
+      const simulation = new Simulation({ populationSize: 30, energy: 30, niching, maxSpecies: 4, seed: 2 });
+      simulation.runGenerations(3);
+      const { cells, species } = simulation.population;
+      expect(cells).toHaveLength(30);
+      expect(species.length).toBeGreaterThan(0);
+      expect(species.length).toBeLessThanOrEqual(4);
+      expect(simulation.history[2].species).toBe(species.length);
+      const colors = new Set(species.map((existing) => existing.color));
+      expect(cells.every((cell) => cell.color === '#000000' || colors.has(cell.color))).toBe(true);
+    }
+  });
+
+  it('should pair every child with a copy of a different parent in the same generation with crowding', () => {
+    const simulation = new Simulation({ populationSize: 20, energy: 30, niching: 'crowding', seed: 4 });
+    simulation.runGeneration();
+    const { cells } = simulation.population;
+    const pairs = cells.flatMap((cell) => (cell.crowdingParent ? [[cell, cell.crowdingParent]] : []));
+    expect(pairs.length).toBeGreaterThan(0);
+    expect(new Set(pairs.map(([, parent]) => parent)).size).toBe(pairs.length);
+    expect(pairs.every(([, parent]) => cells.includes(parent))).toBe(true);
+    expect(cells).toHaveLength(20);
+
+    simulation.runGeneration();
+    const { ranked } = simulation.population;
+    expect(ranked).toHaveLength(20 - pairs.length);
+    for (const [child, parent] of pairs) {
+      const [winner, loser] = parent.fitness > child.fitness ? [parent, child] : [child, parent];
+      expect(ranked).toContain(winner);
+      expect(ranked).not.toContain(loser);
+    }
+  });
+
+  it('should move goals along their paths and back to the start every generation', () => {
+    const simulation = new Simulation({ populationSize: 5, energy: 20, layout: builtInLayouts.patrol(600, 600) });
+    const goal = simulation.environment.goals[0];
+    simulation.step();
+    expect(goal.position.toArray()).toEqual([121, 25]);
+    simulation.runGeneration();
+    expect(goal.position.toArray()).toEqual([120, 25]);
+  });
+
+  it('should move goals and viruses to random positions every generation when asked to', () => {
+    const config = { populationSize: 5, energy: 20, numOfViruses: 4, seed: 3 };
+    const fixed = new Simulation(config);
+    const random = new Simulation({ ...config, randomizeGoals: true, randomizeViruses: true });
+    fixed.runGeneration();
+    random.runGeneration();
+    expect(fixed.world().goals).toEqual(new Simulation(config).world().goals);
+    expect(random.world().goals).not.toEqual(fixed.world().goals);
+    expect(random.world().viruses).not.toEqual(fixed.world().viruses);
+    expect(random.world().viruses).toHaveLength(4);
+  });
+
+  it('should produce a snapshot of the world', () => {
+    const simulation = new Simulation({ populationSize: 5, numOfViruses: 3 });
+    const snapshot = simulation.snapshot();
+    expect(snapshot.width).toBe(600);
+    expect(snapshot.generation).toBe(1);
+    expect(snapshot.cells).toHaveLength(5);
+    expect(snapshot.viruses).toHaveLength(3);
+    expect(snapshot.goals).toEqual([{ x: 300, y: 25, radius: 5, color: '#67B555' }]);
+  });
+
+  it('should produce identical generations for the same seed', () => {
+    const a = new Simulation({ populationSize: 20, energy: 50, seed: 1234 });
+    const b = new Simulation({ populationSize: 20, energy: 50, seed: 1234 });
+    a.runGenerations(3);
+    b.runGenerations(3);
+    expect(a.snapshot()).toEqual(b.snapshot());
+    const directions = (simulation: Simulation) =>
+      simulation.population.cells.map((cell) => cell.directions.map((direction) => direction.toArray()));
+    expect(directions(a)).toEqual(directions(b));
+  });
+
+  it('should use a random seed when none is given', () => {
+    const simulation = new Simulation({ populationSize: 1 });
+    expect(Number.isInteger(simulation.config.seed)).toBe(true);
+  });
+
+  it('should evolve with crossover', () => {
+    const simulation = new Simulation({ populationSize: 20, energy: 50, crossover: 'uniform', crossoverRate: 1 });
+    simulation.runGenerations(2);
+    expect(simulation.population.cells).toHaveLength(20);
+    expect(simulation.population.cells.every((cell) => cell.directions.length === 50)).toBe(true);
+  });
+
+  it('should give every cell the configured speed', () => {
+    const simulation = new Simulation({ populationSize: 10, energy: 20, speed: 2 });
+    simulation.runGeneration();
+    expect(simulation.population.cells.every((cell) => cell.speed === 2)).toBe(true);
+  });
+
+  it('should record statistics for every generation', () => {
+    const simulation = new Simulation({ populationSize: 10, energy: 20 });
+    simulation.runGenerations(3);
+    const { history } = simulation.population;
+    expect(history.map((stats) => stats.generation)).toEqual([1, 2, 3]);
+    for (const stats of history) {
+      expect(stats.reachedGoal + stats.virusDeaths + stats.wallDeaths + stats.energyDeaths).toBe(10);
+    }
+  });
+
+  it('should evolve cells with a neural brain', () => {
+    const simulation = new Simulation({ populationSize: 10, energy: 30, brain: 'neural', crossoverRate: 0.5, seed: 3 });
+    simulation.runGenerations(2);
+    expect(simulation.population.cells).toHaveLength(10);
+    expect(simulation.population.cells.every((cell) => cell instanceof NeuralCell)).toBe(true);
+  });
+
+  it('should pass generations without evolving an empty population', () => {
+    const simulation = new Simulation({ populationSize: 0, seed: 1 });
+    expect(simulation.step()).toBe(true);
+    expect(simulation.generation).toBe(2);
+    expect(simulation.population.champion).toBeNull();
+  });
+});
@@ -0,0 +1,252 @@
+import { Vector2D } from '../utils/vector';
+import { Random, randomSeed } from '../utils/random';
+import { CrossoverName } from '../ga/crossover';
+import { SelectionName, defaultSelectionOptions } from '../ga/selection';
+import { FitnessWeights, defaultFitnessWeights } from '../ga/fitness';
+import {
+  MutationName,
+  MutationScheduleName,
+  MutationScheduleOptions,
+  defaultMutationScheduleOptions,
+} from '../ga/mutation';
+import { ReplacementName, ReplacementOptions, defaultReplacementOptions } from '../ga/replacement';
+import { NichingName, NichingOptions, defaultNichingOptions } from '../ga/niching';
+import { Bacteria, Organism } from './organism';
+import { Environment, randomGoalPosition, randomViruses } from './environment';
+import { Brain, Population } from './population';
+import { Layout, createEnvironment } from './layout';
+import { Wall } from './wall';
+import { encodeCells } from './frame';
+import { OverlayRecorder } from './overlays';
+
+export interface SimulationConfig extends MutationScheduleOptions, ReplacementOptions, NichingOptions {
+  width: number;
+  height: number;
+  populationSize: number; // number of cells in population
+  mutationRate: number;
+  mutation: MutationName; // operator used to mutate directions, networks are always mutated with gaussian noise
+  mutationSchedule: MutationScheduleName; // how the mutation rate changes over generations
+  crossover: CrossoverName; // operator used to recombine the directions of two parents
+  crossoverRate: number; // chance that a child has two parents, 0 means every child is a mutated clone of one parent
+  selection: SelectionName; // strategy used to select parents
+  tournamentSize: number; // number of cells competing in each tournament of tournament selection
+  truncationRate: number; // fraction of the fittest cells that truncation selection picks from
+  replacement: ReplacementName; // generational, steady-state, (mu+lambda) or (mu,lambda) replacement of generations
+  niching: NichingName; // none, fitness sharing, speciation or crowding to keep several routes alive at once
+  fitness: FitnessWeights; // weight of each term of the fitness function
+  noveltyNeighbours: number; // number of nearest neighbours used by the novelty fitness term
+  numOfViruses: number; // number of viruses (obstacles for cells)
+  layout: Layout | null; // positions of the start, goals, viruses and walls, viruses are random if there is no layout
+  randomizeGoals: boolean; // move every goal to a random position at the start of each generation
+  randomizeViruses: boolean; // move every virus to a random position at the start of each generation
+  energy: number; // number of moves a cell can make before it dies
+  speed: number; // distance a cell moves each step
+  brain: Brain; // 'directions' evolves a fixed list of accelerations, 'neural' evolves the weights of a network
+  hiddenLayers: number[]; // number of neurons in each hidden layer of a neural brain
+  senseRange: number; // distance at which cells with a neural brain start sensing viruses and walls
+  seed: number; // seed of the random number generator, the same seed and config always produce the same generations
+}
+
+export const defaultConfig: Omit<SimulationConfig, 'seed'> = {
+  width: 600,
+  height: 600,
+  populationSize: 1000,
+  mutationRate: 0.05,
+  mutation: 'reset',
+  mutationSchedule: 'constant',
+  ...defaultMutationScheduleOptions,
+  crossover: 'single-point',
+  crossoverRate: 0,
+  selection: 'roulette',
+  ...defaultSelectionOptions,
+  replacement: 'generational',
+  ...defaultReplacementOptions,
+  niching: 'none',
+  ...defaultNichingOptions,
+  fitness: defaultFitnessWeights,
+  noveltyNeighbours: 15,
+  numOfViruses: 30,
+  layout: null,
+  randomizeGoals: false,
+  randomizeViruses: false,
+  energy: 400,
+  speed: 5,
+  brain: 'directions',
+  hiddenLayers: [8],
+  senseRange: 100,
+};
+
+export interface OrganismSnapshot {
+  x: number;
+  y: number;
+  radius: number;
+  color: string;
+}
+
+/**
+ * Everything in the world except the cells, it only changes when the simulation is reset or edited.
+ */
+export interface WorldSnapshot {
+  width: number;
+  height: number;
+  generation: number;
+  start: { x: number; y: number };
+  goals: OrganismSnapshot[];
+  viruses: OrganismSnapshot[];
+  walls: Wall[];
+}
+
+export interface SimulationSnapshot extends WorldSnapshot {
+  cells: OrganismSnapshot[];
+}
+
+/**
+ * Returns a plain object copy of the parts of an organism needed to draw it.
+ * @param organism
+ */
+export const snapshotOrganism = (organism: Organism): OrganismSnapshot => ({
+  x: organism.position.x,
+  y: organism.position.y,
+  radius: organism.radius,
+  color: organism.color,
+});
+
+/**
+ * Returns a plain object copy of an environment without any cells.
+ * @param environment
+ * @param generation
+ */
+export const snapshotWorld = (environment: Environment, generation: number): WorldSnapshot => ({
+  width: environment.width,
+  height: environment.height,
+  generation,
+  start: { x: environment.start.x, y: environment.start.y },
+  goals: environment.goals.map(snapshotOrganism),
+  viruses: environment.viruses.map(snapshotOrganism),
+  walls: environment.walls.map((wall) => ({ ...wall })),
+});
+
+/**
+ * Returns the environment used when there is no layout, a single goal at the top centre of the world, cells start at
+ * the bottom centre and viruses are placed randomly.
+ * @param width
+ * @param height
+ * @param numOfViruses
+ * @param random - random number generator used to place the viruses
+ */
+export const defaultEnvironment = (width: number, height: number, numOfViruses: number, random: Random) =>
+  new Environment(
+    width,
+    height,
+    new Vector2D(width / 2, height - 5),
+    [new Bacteria(new Vector2D(width / 2, 25))],
+    randomViruses(numOfViruses, width, height, random),
+  );
+
+export class Simulation {
+  config: SimulationConfig;
+  random: Random;
+  environment: Environment;
+  population: Population;
+  overlays: OverlayRecorder | null;
+
+  /**
+   * Constructor for Simulation, a headless engine that runs the genetic algorithm without any access to the DOM.
+   * Without a layout a single goal is placed at the top centre of the world, cells start at the bottom centre and viruses
+   * are placed randomly.
+   * @param config - parameters of the simulation, any missing values are taken from defaultConfig and a random seed is
+   * used if none is given
+   */
+  constructor(config: Partial<SimulationConfig> = {}) {
+    this.config = { ...defaultConfig, ...config, seed: config.seed ?? randomSeed() };
+    const { width, height, populationSize, numOfViruses, layout, seed } = this.config;
+
+    this.random = new Random(seed);
+
+    this.environment = layout
+      ? createEnvironment(width, height, layout)
+      : defaultEnvironment(width, height, numOfViruses, this.random);
+    this.population = new Population({ ...this.config, size: populationSize }, this.environment, this.random);
+    this.overlays = null; // records trails and the heatmap every step when attached, only needed to draw overlays
+  }
+
+  get generation() {
+    return this.population.generation;
+  }
+
+  /**
+   * Statistics of every generation that has evolved so far.
+   */
+  get history() {
+    return this.population.history;
+  }
+
+  /**
+   * Advance the simulation by a single frame. Returns true if every cell died during this frame and the population
+   * evolved into a new generation, the goals and viruses are then moved if they are randomized every generation.
+   */
+  step() {
+    const evolved = this.population.move();
+    this.overlays?.record(this.population.cells);
+    if (evolved) {
+      this.population.nextGeneration();
+      this.randomizeWorld();
+      this.overlays?.start(this);
+    }
+    return evolved;
+  }
+
+  /**
+   * Move the goals and viruses to random positions if the config asks for it, so cells cannot simply memorize a route.
+   */
+  private randomizeWorld() {
+    const { randomizeGoals, randomizeViruses } = this.config;
+    const { environment, random } = this;
+    if (randomizeGoals) {
+      for (let i = 0; i < environment.goals.length; i++) {
+        environment.placeGoal(i, randomGoalPosition(environment.start, environment.width, environment.height, random));
+      }
+    }
+    if (randomizeViruses) {
+      environment.viruses = randomViruses(environment.viruses.length, environment.width, environment.height, random);
+    }
+  }
+
+  /**
+   * Step the simulation until the current generation has finished and the population has evolved.
+   */
+  runGeneration() {
+    while (!this.step());
+  }
+
+  /**
+   * Run the given number of complete generations.
+   * @param generations
+   */
+  runGenerations(generations: number) {
+    for (let i = 0; i < generations; i++) {
+      this.runGeneration();
+    }
+  }
+
+  /**
+   * Returns a plain object copy of the current state of the world that a renderer can draw.
+   */
+  snapshot(): SimulationSnapshot {
+    return { ...this.world(), cells: this.population.cells.map(snapshotOrganism) };
+  }
+
+  /**
+   * Returns a plain object copy of the world without the cells.
+   */
+  world(): WorldSnapshot {
+    return snapshotWorld(this.environment, this.population.generation);
+  }
+
+  /**
+   * Returns the cells of the population and the goals in a compact frame that can be transferred from a worker.
+   */
+  frame() {
+    return encodeCells(this.population.cells, this.population.generation, this.environment.goals);
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from '../utils/vector';
+import { Random } from '../utils/random';
+import { Virus } from './organism';
+import { SpatialGrid } from './spatial-grid';
+
+const virusAt = (x: number, y: number) => new Virus(new Vector2D(x, y));
+
+describe('SpatialGrid', () => {
+  const viruses = [virusAt(10, 10), virusAt(15, 12), virusAt(100, 100), virusAt(-30, 5)];
+  const grid = new SpatialGrid(20, viruses);
+
+  it('should find organisms within a radius', () => {
+    expect(grid.queryRadius(new Vector2D(12, 10), 5)).toEqual([viruses[0], viruses[1]]);
+    expect(grid.queryRadius(new Vector2D(-30, 0), 5)).toEqual([viruses[3]]);
+    expect(grid.queryRadius(new Vector2D(60, 60), 10)).toEqual([]);
+  });
+
+  it('should detect points inside an organism', () => {
+    expect(grid.overlaps(new Vector2D(12, 10), 0)).toBe(true);
+    expect(grid.overlaps(new Vector2D(14, 10), 0)).toBe(true);
+    expect(grid.overlaps(new Vector2D(10, 20), 0)).toBe(false);
+    expect(grid.overlaps(new Vector2D(10, 20), 7)).toBe(true);
+  });
+
+  it('should find the nearest organisms in order', () => {
+    expect(grid.nearest(new Vector2D(90, 90))).toEqual([viruses[2]]);
+    expect(grid.nearest(new Vector2D(0, 0), 3)).toEqual([viruses[0], viruses[1], viruses[3]]);
+    expect(grid.nearest(new Vector2D(90, 90), 2, 50)).toEqual([viruses[2]]);
+    expect(new SpatialGrid<Virus>(20).nearest(new Vector2D(0, 0))).toEqual([]);
+  });
+
+  it('should match a linear search for nearest organisms', () => {
+    const random = new Random(7);
+    const many = Array.from({ length: 200 }, () => virusAt(random.range(0, 600), random.range(0, 600)));
+    const manyGrid = new SpatialGrid(20, many);
+    for (let i = 0; i < 20; i++) {
+      const point = new Vector2D(random.range(0, 600), random.range(0, 600));
+      const expected = [...many].sort((a, b) => a.position.distance(point) - b.position.distance(point)).slice(0, 3);
+      expect(manyGrid.nearest(point, 3)).toEqual(expected);
+    }
+  });
+
+  it('should find organisms touching a segment', () => {
+    expect(grid.querySegment(new Vector2D(0, 0), new Vector2D(200, 200))).toEqual([viruses[0], viruses[1], viruses[2]]);
+    expect(grid.querySegment(new Vector2D(0, 20), new Vector2D(30, 20))).toEqual([]);
+    expect(grid.querySegment(new Vector2D(0, 20), new Vector2D(30, 20), 7)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,181 @@
+import { Vector2D } from '../utils/vector';
+import { distanceToSegment } from '../utils/geometry';
+import { Organism } from './organism';
+
+/**
+ * Returns the key of a grid cell in the map of buckets, cells with negative indices are supported
+ */
+const bucketKey = (column: number, row: number) => (column + 32768) * 65536 + (row + 32768);
+
+export class SpatialGrid<T extends Organism> {
+  cellSize: number;
+  buckets: Map<number, T[]>;
+  size: number;
+  maxRadius: number;
+  private minColumn: number;
+  private maxColumn: number;
+  private minRow: number;
+  private maxRow: number;
+
+  /**
+   * Constructor for SpatialGrid, a uniform grid that buckets organisms by their position so queries only look at
+   * organisms in nearby grid cells instead of every organism.
+   * @param cellSize - width and height of each grid cell, a few times the radius of the organisms works well
+   * @param organisms - organisms to insert
+   */
+  constructor(cellSize: number, organisms: T[] = []) {
+    this.cellSize = cellSize;
+    this.buckets = new Map();
+    this.size = 0;
+    this.maxRadius = 0; // radius of the largest organism, queries for overlapping organisms search this much further
+    this.minColumn = Infinity;
+    this.maxColumn = -Infinity;
+    this.minRow = Infinity;
+    this.maxRow = -Infinity;
+    for (const organism of organisms) {
+      this.insert(organism);
+    }
+  }
+
+  /**
+   * Add an organism to the grid at its current position, the grid is not updated if the organism moves afterwards.
+   * @param organism
+   */
+  insert(organism: T) {
+    const column = Math.floor(organism.position.x / this.cellSize);
+    const row = Math.floor(organism.position.y / this.cellSize);
+    const key = bucketKey(column, row);
+    const bucket = this.buckets.get(key);
+    if (bucket) bucket.push(organism);
+    else this.buckets.set(key, [organism]);
+    this.size++;
+    this.maxRadius = Math.max(this.maxRadius, organism.radius);
+    this.minColumn = Math.min(this.minColumn, column);
+    this.maxColumn = Math.max(this.maxColumn, column);
+    this.minRow = Math.min(this.minRow, row);
+    this.maxRow = Math.max(this.maxRow, row);
+  }
+
+  /**
+   * Calls visit with every organism in a grid cell that overlaps the axis aligned box, stops early if visit returns true.
+   * Returns true if it stopped early.
+   */
+  private visitBox(minX: number, minY: number, maxX: number, maxY: number, visit: (organism: T) => boolean | void) {
+    const startColumn = Math.max(Math.floor(minX / this.cellSize), this.minColumn);
+    const endColumn = Math.min(Math.floor(maxX / this.cellSize), this.maxColumn);
+    const startRow = Math.max(Math.floor(minY / this.cellSize), this.minRow);
+    const endRow = Math.min(Math.floor(maxY / this.cellSize), this.maxRow);
+    for (let column = startColumn; column <= endColumn; column++) {
+      for (let row = startRow; row <= endRow; row++) {
+        const bucket = this.buckets.get(bucketKey(column, row));
+        if (!bucket) continue;
+        for (let i = 0; i < bucket.length; i++) {
+          if (visit(bucket[i])) return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Returns every organism whose position is within radius of center
+   * @param center
+   * @param radius
+   */
+  queryRadius(center: Vector2D, radius: number) {
+    const found: T[] = [];
+    this.visitBox(center.x - radius, center.y - radius, center.x + radius, center.y + radius, (organism) => {
+      if (organism.position.distance(center) <= radius) found.push(organism);
+    });
+    return found;
+  }
+
+  /**
+   * Returns true if the centre of a circle is inside any organism's circle grown by the given radius, with radius 0
+   * this is true if the point is strictly inside an organism.
+   * @param center
+   * @param radius
+   */
+  overlaps(center: Vector2D, radius: number) {
+    const reach = radius + this.maxRadius;
+    return this.visitBox(
+      center.x - reach,
+      center.y - reach,
+      center.x + reach,
+      center.y + reach,
+      (organism) => organism.position.distance(center) < radius + organism.radius,
+    );
+  }
+
+  /**
+   * Returns up to k organisms closest to a point, sorted from nearest to furthest.
+   * @param point
+   * @param k - number of organisms to return
+   * @param maxDistance - organisms further away than this are ignored
+   */
+  nearest(point: Vector2D, k = 1, maxDistance = Infinity) {
+    if (this.size === 0 || k <= 0) return [];
+    const candidates: { organism: T; distance: number }[] = [];
+    const column = Math.floor(point.x / this.cellSize);
+    const row = Math.floor(point.y / this.cellSize);
+    // rings of grid cells around the point are searched until the ring is further away than the kth candidate
+    const maxRing = Math.max(
+      Math.abs(column - this.minColumn),
+      Math.abs(column - this.maxColumn),
+      Math.abs(row - this.minRow),
+      Math.abs(row - this.maxRow),
+    );
+    const visitCell = (c: number, r: number) => {
+      const bucket = this.buckets.get(bucketKey(c, r));
+      if (!bucket) return;
+      for (const organism of bucket) {
+        const distance = organism.position.distance(point);
+        if (distance <= maxDistance) candidates.push({ organism, distance });
+      }
+    };
+    for (let ring = 0; ring <= maxRing; ring++) {
+      if (ring === 0) {
+        visitCell(column, row);
+      } else {
+        for (let c = column - ring; c <= column + ring; c++) {
+          visitCell(c, row - ring);
+          visitCell(c, row + ring);
+        }
+        for (let r = row - ring + 1; r < row + ring; r++) {
+          visitCell(column - ring, r);
+          visitCell(column + ring, r);
+        }
+      }
+      // anything outside this ring is at least ring * cellSize away since the point lies in the centre grid cell
+      const searched = ring * this.cellSize;
+      if (searched > maxDistance) break;
+      if (candidates.length >= k) {
+        candidates.sort((a, b) => a.distance - b.distance);
+        if (candidates[k - 1].distance <= searched) break;
+      }
+    }
+    candidates.sort((a, b) => a.distance - b.distance);
+    return candidates.slice(0, k).map((candidate) => candidate.organism);
+  }
+
+  /**
+   * Returns every organism whose circle, grown by padding, intersects the line segment from a to b.
+   * @param a - start of the segment
+   * @param b - end of the segment
+   * @param padding - i.e. the radius of an organism moving along the segment
+   */
+  querySegment(a: Vector2D, b: Vector2D, padding = 0) {
+    const reach = padding + this.maxRadius;
+    const found: T[] = [];
+    this.visitBox(
+      Math.min(a.x, b.x) - reach,
+      Math.min(a.y, b.y) - reach,
+      Math.max(a.x, b.x) + reach,
+      Math.max(a.y, b.y) + reach,
+      (organism) => {
+        if (distanceToSegment(organism.position, a, b) < organism.radius + padding) found.push(organism);
+      },
+    );
+    return found;
+  }
+}
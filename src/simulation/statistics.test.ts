@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from '../utils/vector';
+import { Cell, DeathCause } from './cell';
+import { collectStats, directionDiversity } from './statistics';
+
+/**
+ * Returns a dead Cell with the given fitness, cause of death and directions.
+ */
+const deadCell = (fitness: number, cause: DeathCause, directions = [new Vector2D(1, 0)]) => {
+  const cell = new Cell(new Vector2D(), directions);
+  cell.fitness = fitness;
+  cell.reachedGoal = cause === 'goal';
+  cell.die(cause);
+  return cell;
+};
+
+describe('directionDiversity', () => {
+  it('should be 0 when every cell has the same directions', () => {
+    expect(directionDiversity([deadCell(0, 'energy'), deadCell(0, 'energy')])).toBe(0);
+  });
+
+  it('should be 1 when directions cancel out', () => {
+    const cells = [deadCell(0, 'energy', [new Vector2D(1, 0)]), deadCell(0, 'energy', [new Vector2D(-1, 0)])];
+    expect(directionDiversity(cells)).toBeCloseTo(1, 5);
+  });
+});
+
+describe('collectStats', () => {
+  it('should summarise fitness and causes of death', () => {
+    const goal = deadCell(10, 'goal');
+    goal.steps = 42;
+    const cells = [goal, deadCell(1, 'virus'), deadCell(2, 'wall'), deadCell(3, 'energy')];
+    const stats = collectStats(cells, 7);
+    expect(stats).toMatchObject({
+      generation: 7,
+      bestFitness: 10,
+      meanFitness: 4,
+      medianFitness: 2.5,
+      worstFitness: 1,
+      reachedGoal: 1,
+      virusDeaths: 1,
+      wallDeaths: 1,
+      energyDeaths: 1,
+      bestStepsToGoal: 42,
+    });
+  });
+
+  it('should not record steps to goal when the fittest cell did not reach it', () => {
+    const stats = collectStats([deadCell(1, 'goal'), deadCell(5, 'energy')], 1);
+    expect(stats.bestStepsToGoal).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { Cell } from './cell';
+
+export interface GenerationStats {
+  generation: number;
+  bestFitness: number;
+  meanFitness: number;
+  medianFitness: number;
+  worstFitness: number;
+  reachedGoal: number; // number of cells that reached the goal
+  virusDeaths: number; // number of cells killed by a virus
+  wallDeaths: number; // number of cells killed by the edge of the world
+  energyDeaths: number; // number of cells that ran out of energy
+  diversity: number; // genetic diversity of directions in range [0, 1], 0 means every cell has the same directions
+  bestStepsToGoal: number | null; // steps the fittest cell took to reach the goal, null if it did not reach it
+  mutationRate: number; // mutation rate used to breed the next generation, the mean rate of the cells if self-adaptive
+  species: number; // number of species the generation was grouped into
+}
+
+/**
+ * Returns the mean circular variance of the directions of the cells, for every index of directions the unit vectors of
+ * all cells are averaged and 1 minus the length of the average is the variance at that index.
+ * @param cells
+ */
+export const directionDiversity = (cells: Cell[]) => {
+  if (cells.length === 0) return 0;
+  const length = Math.min(...cells.map((cell) => cell.directions.length));
+  if (length === 0) return 0;
+
+  let variance = 0;
+  for (let i = 0; i < length; i++) {
+    let x = 0;
+    let y = 0;
+    for (const cell of cells) {
+      const direction = cell.directions[i];
+      const magnitude = direction.magnitude() || 1;
+      x += direction.x / magnitude;
+      y += direction.y / magnitude;
+    }
+    variance += 1 - Math.hypot(x, y) / cells.length;
+  }
+  return variance / length;
+};
+
+/**
+ * Returns the statistics of a generation of cells, the fitness of every cell must be calculated beforehand.
+ * @param cells
+ * @param generation
+ */
+export const collectStats = (cells: Cell[], generation: number): GenerationStats => {
+  const fitness = cells.map((cell) => cell.fitness).sort((a, b) => a - b);
+  const middle = Math.floor(fitness.length / 2);
+  const median = fitness.length % 2 === 0 ? (fitness[middle - 1] + fitness[middle]) / 2 : fitness[middle];
+
+  let fittest = cells[0];
+  const stats: GenerationStats = {
+    generation,
+    bestFitness: fitness[fitness.length - 1] ?? 0,
+    meanFitness: fitness.length ? fitness.reduce((a, b) => a + b) / fitness.length : 0,
+    medianFitness: median ?? 0,
+    worstFitness: fitness[0] ?? 0,
+    reachedGoal: 0,
+    virusDeaths: 0,
+    wallDeaths: 0,
+    energyDeaths: 0,
+    diversity: directionDiversity(cells),
+    bestStepsToGoal: null,
+    mutationRate: 0, // set by the population, which knows the mutation schedule
+    species: 0, // set by the population, which keeps track of species between generations
+  };
+
+  for (const cell of cells) {
+    if (cell.fitness > fittest.fitness) fittest = cell;
+    if (cell.deathCause === 'goal') stats.reachedGoal++;
+    else if (cell.deathCause === 'virus') stats.virusDeaths++;
+    else if (cell.deathCause === 'wall') stats.wallDeaths++;
+    else stats.energyDeaths++;
+  }
+  if (fittest && fittest.reachedGoal) stats.bestStepsToGoal = fittest.steps;
+
+  return stats;
+};
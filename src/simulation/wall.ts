@@ -0,0 +1,63 @@
+import { Vector2D } from '../utils/vector';
+import { circleIntersectsRect, distanceToSegment } from '../utils/geometry';
+
+export interface RectWall {
+  type: 'rect';
+  x: number; // left edge
+  y: number; // top edge
+  width: number;
+  height: number;
+}
+
+export interface SegmentWall {
+  type: 'segment';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Walls are obstacles that kill cells on contact, they are plain objects so they can be saved as JSON.
+ */
+export type Wall = RectWall | SegmentWall;
+
+export const WALL_THICKNESS = 4; // thickness of segment walls
+
+/**
+ * Returns true if a circle touches the wall
+ * @param wall
+ * @param center - center of the circle
+ * @param radius - radius of the circle
+ */
+export const wallHits = (wall: Wall, center: Vector2D, radius: number) => {
+  if (wall.type === 'rect') {
+    return circleIntersectsRect(center, radius, wall.x, wall.y, wall.width, wall.height);
+  }
+  const a = new Vector2D(wall.x1, wall.y1);
+  const b = new Vector2D(wall.x2, wall.y2);
+  return distanceToSegment(center, a, b) < radius + WALL_THICKNESS / 2;
+};
+
+/**
+ * Returns a copy of the wall moved by an offset
+ * @param wall
+ * @param offset
+ */
+export const moveWall = (wall: Wall, offset: Vector2D): Wall =>
+  wall.type === 'rect'
+    ? { ...wall, x: wall.x + offset.x, y: wall.y + offset.y }
+    : { ...wall, x1: wall.x1 + offset.x, y1: wall.y1 + offset.y, x2: wall.x2 + offset.x, y2: wall.y2 + offset.y };
+
+/**
+ * Returns a rectangle wall spanning two corners given in any order
+ * @param a - one corner
+ * @param b - the opposite corner
+ */
+export const rectBetween = (a: Vector2D, b: Vector2D): RectWall => ({
+  type: 'rect',
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
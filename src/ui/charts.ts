@@ -0,0 +1,131 @@
+import { GenerationStats } from '../simulation/statistics';
+
+export interface ChartSeries<T = GenerationStats> {
+  label: string;
+  color: string;
+  value: (stats: T) => number | null;
+}
+
+export class LineChart<T = GenerationStats> {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D | null;
+  title: string;
+  series: ChartSeries<T>[];
+  logScale: boolean;
+
+  /**
+   * Constructor for LineChart, a minimal line chart of generation statistics drawn on a canvas.
+   * @param canvas - canvas the chart is drawn on
+   * @param title - title drawn in the top left corner
+   * @param series - values plotted as one line each
+   * @param logScale - plot values on a log10 scale, useful for fitness which varies by orders of magnitude
+   */
+  constructor(canvas: HTMLCanvasElement, title: string, series: ChartSeries<T>[], logScale = false) {
+    this.canvas = canvas;
+    this.context = canvas.getContext('2d');
+    this.title = title;
+    this.series = series;
+    this.logScale = logScale;
+  }
+
+  /**
+   * Redraw the chart with the statistics of every generation.
+   * @param history
+   */
+  render(history: T[]) {
+    const context = this.context;
+    if (!context) return;
+    const { width, height } = this.canvas;
+    const padding = 20;
+    context.clearRect(0, 0, width, height);
+
+    const transform = (value: number) => (this.logScale ? Math.log10(Math.max(value, 1e-12)) : value);
+    let min = Infinity;
+    let max = -Infinity;
+    for (const stats of history) {
+      for (const series of this.series) {
+        const value = series.value(stats);
+        if (value === null) continue;
+        min = Math.min(min, transform(value));
+        max = Math.max(max, transform(value));
+      }
+    }
+    if (!Number.isFinite(min)) {
+      min = 0;
+      max = 1;
+    }
+    if (min === max) max = min + 1;
+
+    const x = (i: number) => padding + (i / Math.max(history.length - 1, 1)) * (width - 2 * padding);
+    const y = (value: number) => height - padding - ((transform(value) - min) / (max - min)) * (height - 2 * padding);
+
+    context.strokeStyle = '#CCCCCC';
+    context.strokeRect(padding, padding, width - 2 * padding, height - 2 * padding);
+
+    for (const series of this.series) {
+      context.beginPath();
+      context.strokeStyle = series.color;
+      let drawing = false;
+      history.forEach((stats, i) => {
+        const value = series.value(stats);
+        if (value === null) {
+          drawing = false;
+          return;
+        }
+        if (drawing) context.lineTo(x(i), y(value));
+        else context.moveTo(x(i), y(value));
+        drawing = true;
+      });
+      context.stroke();
+    }
+
+    context.fillStyle = '#000000';
+    context.font = '11px sans-serif';
+    context.fillText(this.title, padding, padding - 6);
+    let legendX = padding;
+    for (const series of this.series) {
+      context.fillStyle = series.color;
+      context.fillText(series.label, legendX, height - 6);
+      legendX += context.measureText(series.label).width + 8;
+    }
+  }
+}
+
+/**
+ * Returns the charts shown next to the simulation, one canvas is created for each chart inside the container.
+ * @param container
+ */
+export const createStatsCharts = (container: HTMLElement) => {
+  const chart = (title: string, series: ChartSeries[], logScale = false) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 300;
+    canvas.height = 140;
+    container.appendChild(canvas);
+    return new LineChart(canvas, title, series, logScale);
+  };
+
+  return [
+    chart(
+      'Fitness (log scale)',
+      [
+        { label: 'best', color: '#000000', value: (stats) => stats.bestFitness },
+        { label: 'mean', color: '#4287F5', value: (stats) => stats.meanFitness },
+        { label: 'median', color: '#67B555', value: (stats) => stats.medianFitness },
+        { label: 'worst', color: '#999999', value: (stats) => stats.worstFitness },
+      ],
+      true,
+    ),
+    chart('Outcomes', [
+      { label: 'goal', color: '#67B555', value: (stats) => stats.reachedGoal },
+      { label: 'virus', color: '#4287F5', value: (stats) => stats.virusDeaths },
+      { label: 'wall', color: '#000000', value: (stats) => stats.wallDeaths },
+      { label: 'energy', color: '#999999', value: (stats) => stats.energyDeaths },
+    ]),
+    chart('Diversity and best steps to goal', [
+      { label: 'diversity x100', color: '#8E44AD', value: (stats) => stats.diversity * 100 },
+      { label: 'steps to goal', color: '#E67E22', value: (stats) => stats.bestStepsToGoal },
+    ]),
+    chart('Mutation rate', [{ label: 'rate', color: '#C0392B', value: (stats) => stats.mutationRate ?? null }]),
+    chart('Species', [{ label: 'species', color: '#16A085', value: (stats) => stats.species ?? null }]),
+  ];
+};
@@ -0,0 +1,49 @@
+import { Competition, CompetitionStats } from '../simulation/competition';
+import { CanvasRenderer } from '../render/renderer';
+import { ChartSeries, LineChart } from './charts';
+
+/**
+ * Runs a competition between populations on the canvas, comparing the populations over generations in the charts
+ * container with one line per population in its colour.
+ * @param competition
+ * @param renderer
+ * @param container - element the charts are added to
+ * @param onGeneration - called every time a generation ends
+ */
+export const runCompetition = (
+  competition: Competition,
+  renderer: CanvasRenderer,
+  container: HTMLElement,
+  onGeneration: (competition: Competition) => void = () => undefined,
+) => {
+  const chart = (title: string, value: (stats: CompetitionStats, i: number) => number | null, logScale = false) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 300;
+    canvas.height = 140;
+    container.appendChild(canvas);
+    const series: ChartSeries<CompetitionStats>[] = competition.competitors.map(({ name, color }, i) => ({
+      label: name,
+      color,
+      value: (stats) => value(stats, i),
+    }));
+    return new LineChart<CompetitionStats>(canvas, title, series, logScale);
+  };
+  const charts = [
+    chart('Best fitness (log scale)', (stats, i) => stats.stats[i].bestFitness, true),
+    chart('Mean fitness (log scale)', (stats, i) => stats.stats[i].meanFitness, true),
+    chart('Goals reached', (stats, i) => stats.goalsReached[i]),
+    chart('Diversity x100', (stats, i) => stats.stats[i].diversity * 100),
+  ];
+
+  const frame = () => {
+    if (competition.step()) {
+      for (const chart of charts) {
+        chart.render(competition.history);
+      }
+      onGeneration(competition);
+    }
+    renderer.render(competition.snapshot());
+    window.requestAnimationFrame(frame);
+  };
+  window.requestAnimationFrame(frame);
+};
@@ -0,0 +1,202 @@
+import { Simulation, SimulationConfig } from '../simulation/simulation';
+import { loadSimulation, parseSavedState, saveSimulation, seedChampion } from '../simulation/persistence';
+import { parseSeed } from '../utils/random';
+import { OverlayName } from '../simulation/overlays';
+import { PlaybackSpeed, Runner } from './runner';
+import { downloadText, onFileChosen } from './files';
+
+/**
+ * Config values that can be edited in the control panel, each has an input with a matching name and a check of which
+ * values are valid.
+ */
+const numericFields = {
+  populationSize: (value: number) => Number.isInteger(value) && value >= 1,
+  mutationRate: (value: number) => value >= 0 && value <= 1,
+  numOfViruses: (value: number) => Number.isInteger(value) && value >= 0,
+  energy: (value: number) => Number.isInteger(value) && value >= 1,
+  speed: (value: number) => value > 0,
+};
+const fieldNames = Object.keys(numericFields) as (keyof typeof numericFields)[];
+
+/**
+ * Returns the config entered in a form, values that cannot be edited in the form and invalid values are taken from
+ * the current config.
+ * @param form - form containing an input for each editable config value
+ * @param current
+ */
+export const readConfig = (form: HTMLFormElement, current: SimulationConfig) => {
+  const config: Partial<SimulationConfig> = { ...current };
+  const input = (name: string) => form.elements.namedItem(name) as HTMLInputElement;
+  for (const field of fieldNames) {
+    const value = Number(input(field).value);
+    if (input(field).value !== '' && Number.isFinite(value) && numericFields[field](value)) {
+      config[field] = value;
+    }
+  }
+  config.seed = parseSeed(input('seed').value);
+  return config;
+};
+
+/**
+ * Fill the inputs of a form with the values of a config.
+ * @param form
+ * @param config
+ */
+export const writeConfig = (form: HTMLFormElement, config: SimulationConfig) => {
+  for (const field of fieldNames) {
+    (form.elements.namedItem(field) as HTMLInputElement).value = config[field].toString();
+  }
+  (form.elements.namedItem('seed') as HTMLInputElement).value = config.seed.toString();
+};
+
+export class ControlPanel {
+  form: HTMLFormElement;
+  runner: Runner;
+  toggleButton: HTMLButtonElement;
+  message: HTMLElement | null;
+
+  /**
+   * Constructor for ControlPanel, binds the inputs and buttons of the control panel form to a runner.
+   * @param form - form containing an input for each editable config value and the playback buttons
+   * @param runner - runner that the control panel controls
+   */
+  constructor(form: HTMLFormElement, runner: Runner) {
+    this.form = form;
+    this.runner = runner;
+    this.toggleButton = form.querySelector('[data-action="toggle"]') as HTMLButtonElement;
+    this.message = form.querySelector('.message');
+
+    this.write(runner.simulation.config);
+
+    this.toggleButton.addEventListener('click', () => {
+      this.runner.togglePause();
+      this.updateToggle();
+    });
+    this.button('step-frame').addEventListener('click', () => {
+      this.pause();
+      this.runner.stepFrame();
+    });
+    this.button('step-generation').addEventListener('click', () => {
+      this.pause();
+      this.runner.stepGeneration();
+    });
+
+    this.input('playback').addEventListener('change', (event) => {
+      const value = (event.target as HTMLSelectElement).value;
+      this.runner.speed = value === 'max' ? 'max' : (Number(value) as PlaybackSpeed);
+    });
+    const overlayInputs = Array.from(form.querySelectorAll<HTMLInputElement>('[name="overlay"]'));
+    for (const input of overlayInputs) {
+      input.addEventListener('change', () =>
+        this.runner.setOverlays(
+          overlayInputs.filter((overlay) => overlay.checked).map((overlay) => overlay.value as OverlayName),
+        ),
+      );
+    }
+
+    // mutation rate is the only parameter that can change without resetting the population
+    this.input('mutationRate').addEventListener('change', () => {
+      const input = this.input('mutationRate');
+      const mutationRate = Number(input.value);
+      if (input.value === '' || !Number.isFinite(mutationRate) || !numericFields.mutationRate(mutationRate)) {
+        input.value = this.runner.simulation.config.mutationRate.toString();
+        return;
+      }
+      // the config is kept in step so saves and replays of later generations use the new rate
+      this.runner.simulation.population.mutationRate = mutationRate;
+      this.runner.simulation.config.mutationRate = mutationRate;
+    });
+
+    this.form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.runner.reset(this.read());
+      this.write(this.runner.simulation.config);
+      this.showMessage('');
+    });
+
+    this.button('save').addEventListener('click', () => {
+      const { simulation } = this.runner;
+      const filename = `cells-seed-${simulation.config.seed}-generation-${simulation.generation}.json`;
+      downloadText(JSON.stringify(saveSimulation(simulation)), filename);
+    });
+    onFileChosen(this.input('load'), (file) =>
+      this.loadFile(file, (text) => {
+        this.runner.setSimulation(loadSimulation(parseSavedState(text)));
+        this.write(this.runner.simulation.config);
+        return `Loaded generation ${this.runner.simulation.generation} from ${file.name}`;
+      }),
+    );
+    onFileChosen(this.input('champion'), (file) =>
+      this.loadFile(file, (text) => {
+        const simulation = new Simulation(this.read());
+        seedChampion(simulation, parseSavedState(text));
+        this.runner.setSimulation(simulation);
+        this.write(simulation.config);
+        return `Started a new run seeded with the champion from ${file.name}`;
+      }),
+    );
+  }
+
+  /**
+   * Read a chosen file and pass its text to load, the returned text or any error thrown is shown in the panel.
+   * @param file
+   * @param load - uses the text of the file and returns a message describing what happened
+   */
+  async loadFile(file: File, load: (text: string) => string) {
+    try {
+      this.showMessage(load(await file.text()));
+    } catch (error) {
+      this.showMessage((error as Error).message, true);
+    }
+  }
+
+  /**
+   * Show a message in the control panel.
+   * @param text
+   * @param isError - errors are highlighted
+   */
+  showMessage(text: string, isError = false) {
+    if (!this.message) return;
+    this.message.innerText = text;
+    this.message.classList.toggle('error', isError);
+  }
+
+  /**
+   * Returns the config entered in the control panel, values that cannot be edited in the panel and invalid values are
+   * taken from the current simulation.
+   */
+  read() {
+    return readConfig(this.form, this.runner.simulation.config);
+  }
+
+  /**
+   * Fill the inputs of the control panel with the values of a config.
+   * @param config
+   */
+  write(config: SimulationConfig) {
+    writeConfig(this.form, config);
+  }
+
+  /**
+   * Pause the runner if it is running.
+   */
+  pause() {
+    if (!this.runner.paused) this.runner.togglePause();
+    this.updateToggle();
+  }
+
+  /**
+   * Update the label of the pause/resume button to match the state of the runner.
+   */
+  updateToggle() {
+    this.toggleButton.innerText = this.runner.paused ? 'Resume' : 'Pause';
+  }
+
+  private input(name: string) {
+    return this.form.elements.namedItem(name) as HTMLInputElement;
+  }
+
+  private button(action: string) {
+    return this.form.querySelector(`[data-action="${action}"]`) as HTMLButtonElement;
+  }
+}
@@ -0,0 +1,102 @@
+import { Ecosystem, EcosystemStats } from '../ecosystem/ecosystem';
+import { CanvasRenderer } from '../render/renderer';
+import { LineChart } from './charts';
+
+export class TraitScatter {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D | null;
+
+  /**
+   * Constructor for TraitScatter, plots the speed and sense radius of every predator of a generation as a dot so the
+   * distribution of traits can be seen.
+   * @param canvas - canvas the plot is drawn on
+   */
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.context = canvas.getContext('2d');
+  }
+
+  /**
+   * Redraw the plot with the traits of the latest generation, axes are scaled to the traits of every generation so
+   * far so that drift over generations is visible.
+   * @param history
+   */
+  render(history: EcosystemStats[]) {
+    const context = this.context;
+    if (!context) return;
+    const { width, height } = this.canvas;
+    const padding = 20;
+    context.clearRect(0, 0, width, height);
+    context.strokeStyle = '#CCCCCC';
+    context.strokeRect(padding, padding, width - 2 * padding, height - 2 * padding);
+    context.fillStyle = '#000000';
+    context.font = '11px sans-serif';
+    context.fillText('Traits of last generation (speed / sense)', padding, padding - 6);
+    if (history.length === 0) return;
+
+    let maxSpeed = 0;
+    let maxSense = 0;
+    for (const stats of history) {
+      for (const traits of stats.traits) {
+        maxSpeed = Math.max(maxSpeed, traits.speed);
+        maxSense = Math.max(maxSense, traits.senseRadius);
+      }
+    }
+    const x = (speed: number) => padding + (speed / maxSpeed) * (width - 2 * padding);
+    const y = (sense: number) => height - padding - (sense / maxSense) * (height - 2 * padding);
+
+    context.fillStyle = '#4287F5';
+    for (const traits of history[history.length - 1].traits) {
+      context.fillRect(x(traits.speed) - 1.5, y(traits.senseRadius) - 1.5, 3, 3);
+    }
+    context.fillStyle = '#000000';
+    context.fillText(`max speed ${maxSpeed.toFixed(2)}, max sense ${maxSense.toFixed(0)}`, padding, height - 6);
+  }
+}
+
+/**
+ * Runs the predator/prey ecosystem on the canvas, showing the population and traits over generations in the charts
+ * container.
+ * @param ecosystem
+ * @param renderer
+ * @param container - element the charts are added to
+ * @param onGeneration - called every time a generation ends
+ */
+export const runEcosystem = (
+  ecosystem: Ecosystem,
+  renderer: CanvasRenderer,
+  container: HTMLElement,
+  onGeneration: (ecosystem: Ecosystem) => void = () => undefined,
+) => {
+  const canvas = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 300;
+    canvas.height = 140;
+    container.appendChild(canvas);
+    return canvas;
+  };
+  const charts = [
+    new LineChart<EcosystemStats>(canvas(), 'Predators', [
+      { label: 'population', color: '#000000', value: (stats) => stats.predators },
+      { label: 'survivors', color: '#67B555', value: (stats) => stats.survivors },
+      { label: 'births', color: '#4287F5', value: (stats) => stats.births },
+    ]),
+    new LineChart<EcosystemStats>(canvas(), 'Mean traits', [
+      { label: 'speed x10', color: '#E67E22', value: (stats) => stats.meanSpeed * 10 },
+      { label: 'sense radius', color: '#8E44AD', value: (stats) => stats.meanSenseRadius },
+    ]),
+    new TraitScatter(canvas()),
+  ];
+
+  const frame = () => {
+    if (ecosystem.step()) {
+      for (const chart of charts) {
+        chart.render(ecosystem.history);
+      }
+      onGeneration(ecosystem);
+    }
+    renderer.renderEcosystem(ecosystem.snapshot());
+    window.requestAnimationFrame(frame);
+  };
+  window.requestAnimationFrame(frame);
+};
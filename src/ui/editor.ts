@@ -0,0 +1,228 @@
+import { Vector2D } from '../utils/vector';
+import {
+  Layout,
+  LayoutItem,
+  builtInLayouts,
+  findBuiltInLayout,
+  findLayoutItem,
+  layoutOf,
+  moveLayoutItem,
+  removeLayoutItem,
+} from '../simulation/layout';
+import { SimulationSnapshot } from '../simulation/simulation';
+import { Wall, rectBetween } from '../simulation/wall';
+import { CanvasRenderer } from '../render/renderer';
+import { Runner } from './runner';
+import { deletePreset, loadPresets, savePreset } from './presets';
+
+export type EditorTool = 'move' | 'virus' | 'goal' | 'delete' | 'rect' | 'segment';
+
+export class LevelEditor {
+  panel: HTMLElement;
+  runner: Runner;
+  renderer: CanvasRenderer;
+  active: boolean;
+  tool: EditorTool;
+  layout: Layout;
+  private dragItem: LayoutItem | null;
+  private dragFrom: Vector2D | null;
+  private preview: Wall | null;
+
+  /**
+   * Constructor for LevelEditor, lets the layout of the environment be edited on the canvas. While the editor is active
+   * the runner is paused and only the layout is drawn, applying the layout restarts the population with it.
+   * @param panel - element containing the editor buttons and inputs
+   * @param runner - runner whose simulation is edited
+   * @param renderer - renderer that draws on the canvas being edited
+   */
+  constructor(panel: HTMLElement, runner: Runner, renderer: CanvasRenderer) {
+    this.panel = panel;
+    this.runner = runner;
+    this.renderer = renderer;
+    this.active = false;
+    this.tool = 'move';
+    this.layout = layoutOf(runner.simulation.environment);
+    this.dragItem = null;
+    this.dragFrom = null;
+    this.preview = null;
+
+    const canvas = renderer.canvas;
+    canvas.addEventListener('mousedown', (event) => this.pointerDown(this.canvasPoint(event)));
+    canvas.addEventListener('mousemove', (event) => this.pointerMove(this.canvasPoint(event)));
+    window.addEventListener('mouseup', (event) => this.pointerUp(this.canvasPoint(event)));
+
+    this.element<HTMLButtonElement>('[data-action="edit"]').addEventListener('click', () =>
+      this.active ? this.apply() : this.enter(),
+    );
+    this.element<HTMLButtonElement>('[data-action="random-layout"]').addEventListener('click', () => {
+      this.exit();
+      this.runner.reset({ ...this.runner.simulation.config, layout: null });
+    });
+    this.element<HTMLSelectElement>('[name="tool"]').addEventListener('change', (event) => {
+      this.tool = (event.target as HTMLSelectElement).value as EditorTool;
+    });
+
+    const presetSelect = this.element<HTMLSelectElement>('[name="preset"]');
+    this.element<HTMLButtonElement>('[data-action="load-preset"]').addEventListener('click', () => {
+      const layout = this.preset(presetSelect.value);
+      if (!layout) return;
+      this.enter();
+      this.layout = layout;
+      this.draw();
+    });
+    this.element<HTMLButtonElement>('[data-action="save-preset"]').addEventListener('click', () => {
+      const name = this.element<HTMLInputElement>('[name="preset-name"]').value.trim();
+      if (!name) return;
+      savePreset(name, this.active ? this.layout : layoutOf(this.runner.simulation.environment));
+      this.updatePresets(name);
+    });
+    this.element<HTMLButtonElement>('[data-action="delete-preset"]').addEventListener('click', () => {
+      if (!presetSelect.value.startsWith('saved:')) return;
+      deletePreset(presetSelect.value.slice('saved:'.length));
+      this.updatePresets();
+    });
+    this.updatePresets();
+  }
+
+  /**
+   * Pause the simulation and start editing its current layout.
+   */
+  enter() {
+    if (this.active) return;
+    this.active = true;
+    if (!this.runner.paused) this.runner.togglePause();
+    this.layout = layoutOf(this.runner.simulation.environment);
+    this.element<HTMLButtonElement>('[data-action="edit"]').innerText = 'Apply layout';
+    this.draw();
+  }
+
+  /**
+   * Stop editing without changing the simulation.
+   */
+  exit() {
+    this.active = false;
+    this.element<HTMLButtonElement>('[data-action="edit"]').innerText = 'Edit layout';
+  }
+
+  /**
+   * Stop editing and restart the population in the edited layout.
+   */
+  apply() {
+    this.exit();
+    this.runner.reset({ ...this.runner.simulation.config, layout: this.layout });
+    if (this.runner.paused) this.runner.togglePause();
+  }
+
+  /**
+   * Draw the layout being edited, including the wall currently being drawn.
+   */
+  draw() {
+    const { width, height } = this.runner.simulation.config;
+    const walls = this.preview ? [...this.layout.walls, this.preview] : this.layout.walls;
+    const snapshot: SimulationSnapshot = {
+      width,
+      height,
+      generation: this.runner.simulation.generation,
+      start: { x: this.layout.start[0], y: this.layout.start[1] },
+      goals: this.layout.goals.map(([x, y]) => ({ x, y, radius: 5, color: '#67B555' })),
+      viruses: this.layout.viruses.map(([x, y]) => ({ x, y, radius: 4, color: '#4287F5' })),
+      walls,
+      cells: [],
+    };
+    this.renderer.render(snapshot);
+  }
+
+  private pointerDown(point: Vector2D) {
+    if (!this.active) return;
+    const item = findLayoutItem(this.layout, point);
+    switch (this.tool) {
+      case 'move':
+        this.dragItem = item;
+        this.dragFrom = point;
+        break;
+      case 'virus':
+        this.layout = { ...this.layout, viruses: [...this.layout.viruses, point.toArray()] };
+        break;
+      case 'goal':
+        this.layout = { ...this.layout, goals: [...this.layout.goals, point.toArray()] }; // reached after the others
+        break;
+      case 'delete':
+        if (item) this.layout = removeLayoutItem(this.layout, item);
+        break;
+      case 'rect':
+      case 'segment':
+        this.dragFrom = point;
+        break;
+    }
+    this.draw();
+  }
+
+  private pointerMove(point: Vector2D) {
+    if (!this.active || !this.dragFrom) return;
+    if (this.tool === 'move' && this.dragItem) {
+      this.layout = moveLayoutItem(this.layout, this.dragItem, point.subtract(this.dragFrom));
+      this.dragFrom = point;
+    } else if (this.tool === 'rect') {
+      this.preview = rectBetween(this.dragFrom, point);
+    } else if (this.tool === 'segment') {
+      this.preview = { type: 'segment', x1: this.dragFrom.x, y1: this.dragFrom.y, x2: point.x, y2: point.y };
+    }
+    this.draw();
+  }
+
+  private pointerUp(point: Vector2D) {
+    if (!this.active || !this.dragFrom) return;
+    this.pointerMove(point);
+    const wall = this.preview;
+    if (wall && (wall.type === 'segment' || (wall.width > 0 && wall.height > 0))) {
+      this.layout = { ...this.layout, walls: [...this.layout.walls, wall] };
+    }
+    this.preview = null;
+    this.dragItem = null;
+    this.dragFrom = null;
+    this.draw();
+  }
+
+  /**
+   * Returns the world coordinates of a mouse event on the canvas.
+   */
+  private canvasPoint(event: MouseEvent) {
+    const canvas = this.renderer.canvas;
+    const rect = canvas.getBoundingClientRect();
+    return new Vector2D(
+      ((event.clientX - rect.left) * canvas.width) / rect.width,
+      ((event.clientY - rect.top) * canvas.height) / rect.height,
+    );
+  }
+
+  /**
+   * Returns the layout of a built in or saved preset, option values are prefixed with where the preset comes from.
+   */
+  private preset(value: string) {
+    const { width, height } = this.runner.simulation.config;
+    if (value.startsWith('builtin:')) return findBuiltInLayout(value.slice('builtin:'.length))?.(width, height);
+    return loadPresets()[value.slice('saved:'.length)];
+  }
+
+  /**
+   * Refill the preset select with the built in and saved presets.
+   * @param selected - name of the saved preset to select
+   */
+  private updatePresets(selected?: string) {
+    const select = this.element<HTMLSelectElement>('[name="preset"]');
+    select.innerHTML = '';
+    const add = (value: string, label: string) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.innerText = label;
+      option.selected = value === `saved:${selected}`;
+      select.appendChild(option);
+    };
+    for (const name of Object.keys(builtInLayouts)) add(`builtin:${name}`, `${name} (built in)`);
+    for (const name of Object.keys(loadPresets())) add(`saved:${name}`, name);
+  }
+
+  private element<T extends Element>(selector: string) {
+    return this.panel.querySelector(selector) as T;
+  }
+}
@@ -0,0 +1,211 @@
+import { Simulation } from '../simulation/simulation';
+import { CanvasRenderer } from '../render/renderer';
+import { GifEncoder } from '../utils/gif';
+import { ZipEntry, createZip } from '../utils/zip';
+import { Runner } from './runner';
+import { downloadBlob } from './files';
+
+/**
+ * webm - a video recorded with MediaRecorder
+ * gif - an animated GIF
+ * png - a zip file of numbered PNG images, one per frame
+ */
+export type ExportFormat = 'webm' | 'gif' | 'png';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  from: number; // first generation captured
+  to: number; // last generation captured
+  frameSkip: number; // number of drawn frames skipped after every captured frame
+  stats: boolean; // draw the generation number and the statistics of the previous generation on every frame
+}
+
+export const GIF_FRAME_DELAY = 40; // milliseconds each frame of a GIF is shown for
+
+export class ExportPanel {
+  panel: HTMLElement;
+  runner: Runner;
+  renderer: CanvasRenderer;
+  options: ExportOptions | null;
+  private canvas: HTMLCanvasElement;
+  private frames: number;
+  private captured: number;
+  private gif: GifEncoder | null;
+  private pngs: Promise<ZipEntry>[];
+  private recorder: MediaRecorder | null;
+  private chunks: Blob[];
+
+  /**
+   * Constructor for ExportPanel, captures what the runner draws over a range of generations and downloads it as a
+   * video, GIF or PNG sequence. Frames are copied to a canvas of their own so the stats can be drawn on them without
+   * changing the visible canvas. Only drawn frames are captured, nothing is captured while fast-forwarding.
+   * @param panel - element containing the export buttons and inputs
+   * @param runner - runner whose drawing is captured
+   * @param renderer - renderer that draws on the captured canvas
+   */
+  constructor(panel: HTMLElement, runner: Runner, renderer: CanvasRenderer) {
+    this.panel = panel;
+    this.runner = runner;
+    this.renderer = renderer;
+    this.options = null;
+    this.canvas = document.createElement('canvas');
+    this.frames = 0; // drawn frames seen since the export started, used to skip frames
+    this.captured = 0;
+    this.gif = null;
+    this.pngs = [];
+    this.recorder = null;
+    this.chunks = [];
+
+    runner.onRender = (simulation) => this.capture(simulation);
+    this.element<HTMLButtonElement>('[data-action="export-start"]').addEventListener('click', () => {
+      try {
+        this.start(this.read());
+      } catch (error) {
+        this.showStatus((error as Error).message);
+      }
+    });
+    this.element<HTMLButtonElement>('[data-action="export-stop"]').addEventListener('click', () => this.finish());
+  }
+
+  /**
+   * Returns the export options entered in the panel.
+   */
+  read(): ExportOptions {
+    const value = (name: string) => this.element<HTMLInputElement>(`[name="${name}"]`).value;
+    return {
+      format: value('export-format') as ExportFormat,
+      from: Number(value('export-from')),
+      to: Number(value('export-to')),
+      frameSkip: Math.max(0, Math.floor(Number(value('export-skip')) || 0)),
+      stats: this.element<HTMLInputElement>('[name="export-stats"]').checked,
+    };
+  }
+
+  /**
+   * Start capturing frames, throws an error if the options are invalid or the browser cannot record the format.
+   * @param options
+   */
+  start(options: ExportOptions) {
+    if (this.options) throw new Error('An export is already running');
+    const { generation } = this.runner.simulation;
+    if (!Number.isInteger(options.from) || !Number.isInteger(options.to) || options.from > options.to) {
+      throw new Error('The first generation should be a whole number no later than the last generation');
+    }
+    if (options.to < generation) throw new Error(`Generation ${options.to} has already passed`);
+
+    const { width, height } = this.renderer.canvas;
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.frames = 0;
+    this.captured = 0;
+    this.gif = options.format === 'gif' ? new GifEncoder(width, height) : null;
+    this.pngs = [];
+    this.chunks = [];
+    this.recorder = null;
+    if (options.format === 'webm') {
+      if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported('video/webm')) {
+        throw new Error('This browser cannot record WebM video');
+      }
+      this.recorder = new MediaRecorder(this.canvas.captureStream(0), { mimeType: 'video/webm' });
+      this.recorder.addEventListener('dataavailable', (event) => this.chunks.push(event.data));
+      this.recorder.start();
+    }
+    this.options = options;
+    this.showStatus(`Waiting for generation ${options.from}`);
+  }
+
+  /**
+   * Capture the frame the runner just drew if it is part of the export, the export finishes once the last generation
+   * has been captured.
+   * @param simulation
+   */
+  capture(simulation: Simulation) {
+    const { options } = this;
+    if (!options) return;
+    if (simulation.generation > options.to) {
+      this.finish();
+      return;
+    }
+    if (simulation.generation < options.from || this.frames++ % (options.frameSkip + 1) !== 0) return;
+
+    const context = this.canvas.getContext('2d');
+    if (!context) return;
+    context.drawImage(this.renderer.canvas, 0, 0);
+    if (options.stats) this.drawStats(context, simulation);
+
+    const frame = ++this.captured;
+    if (this.gif) {
+      this.gif.addFrame(context.getImageData(0, 0, this.canvas.width, this.canvas.height).data, GIF_FRAME_DELAY);
+    } else if (this.recorder) {
+      const track = this.recorder.stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+      track.requestFrame();
+    } else {
+      this.pngs.push(
+        new Promise<Blob | null>((resolve) => this.canvas.toBlob(resolve, 'image/png')).then(async (blob) => ({
+          name: `frame-${frame.toString().padStart(5, '0')}.png`,
+          data: new Uint8Array(blob ? await blob.arrayBuffer() : []),
+        })),
+      );
+    }
+    this.showStatus(`Captured ${frame} frames of generation ${simulation.generation}`);
+  }
+
+  /**
+   * Stop capturing and download what has been captured so far. Never rejects, an error while encoding is shown in the
+   * panel instead so it can be called without waiting for it.
+   */
+  async finish() {
+    const { options } = this;
+    if (!options) return;
+    this.options = null;
+    const filename = `cells-seed-${this.runner.simulation.config.seed}-generations-${options.from}-${options.to}`;
+    try {
+      if (this.gif) {
+        downloadBlob(new Blob([this.gif.finish()], { type: 'image/gif' }), `${filename}.gif`);
+      } else if (this.recorder) {
+        const recorder = this.recorder;
+        await new Promise((resolve) => {
+          recorder.addEventListener('stop', resolve, { once: true });
+          recorder.stop();
+        });
+        downloadBlob(new Blob(this.chunks, { type: 'video/webm' }), `${filename}.webm`);
+      } else {
+        const zip = createZip(await Promise.all(this.pngs));
+        downloadBlob(new Blob([zip], { type: 'application/zip' }), `${filename}.zip`);
+      }
+      this.showStatus(`Exported ${this.captured} frames`);
+    } catch (error) {
+      this.showStatus(`Export failed: ${(error as Error).message}`);
+    } finally {
+      this.gif = null;
+      this.recorder = null;
+      this.pngs = [];
+      this.chunks = [];
+    }
+  }
+
+  /**
+   * Draw the generation number and the statistics of the previous generation in the top left corner.
+   */
+  private drawStats(context: CanvasRenderingContext2D, simulation: Simulation) {
+    const stats = simulation.history[simulation.history.length - 1];
+    const lines = [`Generation ${simulation.generation}`];
+    if (stats) {
+      lines.push(`Best fitness ${stats.bestFitness.toPrecision(3)}`);
+      lines.push(`Reached goal ${stats.reachedGoal} of ${simulation.config.populationSize}`);
+    }
+    context.font = '14px sans-serif';
+    context.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    context.fillRect(8, 8, 190, 10 + lines.length * 18);
+    context.fillStyle = '#FFFFFF';
+    lines.forEach((line, i) => context.fillText(line, 16, 28 + i * 18));
+  }
+
+  private showStatus(text: string) {
+    this.element<HTMLElement>('.export-status').innerText = text;
+  }
+
+  private element<T extends Element>(selector: string) {
+    return this.panel.querySelector(selector) as T;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Download a blob as a file with the given name.
+ * @param blob - contents of the file
+ * @param filename
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Download text as a file with the given name.
+ * @param text - contents of the file
+ * @param filename
+ * @param type - MIME type of the file
+ */
+export const downloadText = (text: string, filename: string, type = 'application/json') =>
+  downloadBlob(new Blob([text], { type }), filename);
+
+/**
+ * Calls onFile with the first file chosen in a file input every time the selection changes. The input is cleared
+ * afterwards so choosing the same file again still triggers onFile.
+ * @param input - file input element
+ * @param onFile
+ */
+export const onFileChosen = (input: HTMLInputElement, onFile: (file: File) => void) => {
+  input.addEventListener('change', () => {
+    const file = input.files?.[0];
+    if (file) onFile(file);
+    input.value = '';
+  });
+};
@@ -0,0 +1,236 @@
+import { Random } from '../utils/random';
+import { SimulationConfig, WorldSnapshot } from '../simulation/simulation';
+import { CellFrame } from '../simulation/frame';
+import { GenerationStats } from '../simulation/statistics';
+import { SavedCell } from '../simulation/persistence';
+import { IslandModelConfig, Migration, arrivals, createIslandConfigs, islandHistory } from '../simulation/islands';
+import { migrationRoutes } from '../ga/migration';
+import { CanvasRenderer } from '../render/renderer';
+import { WorkerRequest, WorkerResponse } from '../worker/protocol';
+import { ChartSeries, LineChart } from './charts';
+
+/**
+ * What the main thread knows about an island running in a worker.
+ */
+export interface Island {
+  name: string;
+  color: string;
+  config: SimulationConfig;
+  worker: Worker;
+  world: WorldSnapshot | null;
+  frame: CellFrame | null;
+  generation: number;
+  history: GenerationStats[];
+  emigrants: SavedCell[] | null; // genomes the island sent for the migration in progress
+}
+
+export class IslandRunner {
+  config: IslandModelConfig;
+  random: Random;
+  renderer: CanvasRenderer;
+  islands: Island[];
+  selected: number;
+  migrations: Migration[];
+  holdAt: number;
+  onGeneration: (runner: IslandRunner) => void;
+  private migrating: boolean;
+  private drawn: boolean;
+
+  /**
+   * Constructor for IslandRunner, runs every island of an island model in a Web Worker of its own and moves the
+   * migrants between them on the main thread. Every worker is held at the generation of the next migration, once all of
+   * them have reached it the migrants are collected, delivered and the workers are released to the next migration.
+   * Given the same seed the islands evolve exactly as in IslandModel.
+   * @param config
+   * @param renderer - draws the selected island
+   * @param onGeneration - called every time an island evolves
+   */
+  constructor(
+    config: IslandModelConfig,
+    renderer: CanvasRenderer,
+    onGeneration: (runner: IslandRunner) => void = () => undefined,
+  ) {
+    this.config = config;
+    this.random = new Random(config.seed);
+    this.renderer = renderer;
+    this.onGeneration = onGeneration;
+    this.selected = 0; // index of the island that is drawn
+    this.migrations = [];
+    this.holdAt = config.migrationInterval + 1;
+    this.migrating = false;
+    this.drawn = true;
+    this.islands = createIslandConfigs(config, this.random).map((islandConfig, i) => {
+      const worker = new Worker(new URL('../worker/simulation.worker.ts', import.meta.url), { type: 'module' });
+      worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => this.receive(i, event.data));
+      return {
+        name: config.islands[i].name,
+        color: config.islands[i].color,
+        config: islandConfig,
+        worker,
+        world: null,
+        frame: null,
+        generation: 1,
+        history: [],
+        emigrants: null,
+      };
+    });
+    this.islands.forEach((_, i) => {
+      this.send(i, { type: 'configure', config: this.islands[i].config });
+      this.send(i, { type: 'hold', generation: this.holdAt });
+    });
+  }
+
+  /**
+   * Statistics of every generation that all islands have finished.
+   */
+  get history() {
+    return islandHistory(this.islands.map((island) => island.history));
+  }
+
+  /**
+   * Handle a message from the worker of an island.
+   * @param index - index of the island
+   * @param response
+   */
+  receive(index: number, response: WorkerResponse) {
+    const island = this.islands[index];
+    switch (response.type) {
+      case 'world':
+        island.world = response.world;
+        break;
+      case 'frame':
+        island.frame = response.frame;
+        if (index === this.selected) this.drawn = false;
+        break;
+      case 'generation':
+        island.generation = response.generation;
+        island.history.push(...response.stats);
+        if (response.world) island.world = response.world;
+        this.onGeneration(this);
+        if (!this.migrating && this.islands.every(({ generation }) => generation >= this.holdAt)) this.emigrate();
+        break;
+      case 'emigrants':
+        island.emigrants = response.cells;
+        if (this.islands.every(({ emigrants }) => emigrants)) this.immigrate();
+        break;
+    }
+  }
+
+  /**
+   * Start running every island and drawing the selected island.
+   */
+  start() {
+    const draw = () => {
+      this.render();
+      window.requestAnimationFrame(draw);
+    };
+    window.requestAnimationFrame(draw);
+    this.islands.forEach((_, i) => {
+      this.send(i, { type: 'speed', speed: 'max' });
+      this.send(i, { type: 'start' });
+    });
+  }
+
+  /**
+   * Draw the selected island if a new frame has arrived.
+   */
+  render() {
+    const { world, frame } = this.islands[this.selected];
+    if (this.drawn || !world || !frame) return;
+    this.renderer.renderFrame(world, frame);
+    this.drawn = true;
+  }
+
+  /**
+   * Draw another island.
+   * @param index
+   */
+  select(index: number) {
+    this.selected = index;
+    this.drawn = false;
+  }
+
+  /**
+   * Ask every island for its migrants, all islands are waiting at the migration.
+   */
+  private emigrate() {
+    this.migrating = true;
+    const { migrants, policy } = this.config;
+    this.islands.forEach((_, i) => this.send(i, { type: 'emigrate', count: migrants, policy }));
+  }
+
+  /**
+   * Deliver the migrants along the routes of the topology and release the islands to the next migration.
+   */
+  private immigrate() {
+    const leaving = this.islands.map((island) => island.emigrants as SavedCell[]);
+    const routes = migrationRoutes(this.islands.length, this.config.topology, this.random);
+    const arriving = arrivals(leaving, routes);
+    this.migrations.push({ generation: this.holdAt, routes, migrants: arriving.map((cells) => cells.length) });
+    this.holdAt += this.config.migrationInterval;
+    this.islands.forEach((island, i) => {
+      island.emigrants = null;
+      this.send(i, { type: 'immigrate', cells: arriving[i] });
+      this.send(i, { type: 'hold', generation: this.holdAt });
+    });
+    this.migrating = false;
+  }
+
+  private send(index: number, request: WorkerRequest) {
+    this.islands[index].worker.postMessage(request);
+  }
+}
+
+/**
+ * Runs an island model with every island in a worker, with a choice of the island drawn on the canvas and charts
+ * comparing the islands over generations with one line per island in its colour.
+ * @param config
+ * @param renderer
+ * @param container - element the island choice and charts are added to
+ * @param onGeneration - called every time an island evolves
+ */
+export const runIslands = (
+  config: IslandModelConfig,
+  renderer: CanvasRenderer,
+  container: HTMLElement,
+  onGeneration: (runner: IslandRunner) => void = () => undefined,
+) => {
+  const label = document.createElement('label');
+  label.innerText = 'Island ';
+  const choice = document.createElement('select');
+  config.islands.forEach(({ name }, i) => choice.add(new Option(name, i.toString())));
+  label.appendChild(choice);
+  const status = document.createElement('p');
+  container.append(label, status);
+
+  const chart = (title: string, value: (stats: GenerationStats) => number | null, logScale = false) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 300;
+    canvas.height = 140;
+    container.appendChild(canvas);
+    const series: ChartSeries<GenerationStats[]>[] = config.islands.map(({ name, color }, i) => ({
+      label: name,
+      color,
+      value: (stats) => value(stats[i]),
+    }));
+    return new LineChart<GenerationStats[]>(canvas, title, series, logScale);
+  };
+  const charts = [
+    chart('Best fitness (log scale)', (stats) => stats.bestFitness, true),
+    chart('Mean fitness (log scale)', (stats) => stats.meanFitness, true),
+    chart('Reached goal', (stats) => stats.reachedGoal),
+    chart('Diversity x100', (stats) => stats.diversity * 100),
+  ];
+
+  const runner = new IslandRunner(config, renderer, (runner) => {
+    const history = runner.history;
+    for (const chart of charts) {
+      chart.render(history);
+    }
+    status.innerText = `${runner.migrations.length} migrations, next at generation ${runner.holdAt}`;
+    onGeneration(runner);
+  });
+  choice.addEventListener('change', () => runner.select(Number(choice.value)));
+  runner.start();
+  return runner;
+};
@@ -0,0 +1,43 @@
+import { Layout } from '../simulation/layout';
+import { checkLayout } from '../simulation/persistence';
+
+const STORAGE_KEY = 'cells-layout-presets';
+
+/**
+ * Returns the layout presets saved in local storage by name, presets that no longer match the layout schema are skipped.
+ */
+export const loadPresets = () => {
+  const presets: Record<string, Layout> = {};
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+    for (const [name, layout] of Object.entries(stored)) {
+      try {
+        presets[name] = checkLayout(layout, name);
+      } catch {
+        // skip presets saved in an older or corrupted format
+      }
+    }
+  } catch {
+    // nothing valid is stored
+  }
+  return presets;
+};
+
+/**
+ * Save a layout in local storage, replacing any preset with the same name
+ * @param name
+ * @param layout
+ */
+export const savePreset = (name: string, layout: Layout) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadPresets(), [name]: layout }));
+};
+
+/**
+ * Remove a layout preset from local storage
+ * @param name
+ */
+export const deletePreset = (name: string) => {
+  const presets = loadPresets();
+  delete presets[name];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
@@ -0,0 +1,171 @@
+import { GenerationRecorder, Replay } from '../simulation/replay';
+import { CanvasRenderer } from '../render/renderer';
+import { Runner } from './runner';
+
+export class ReplayPanel {
+  panel: HTMLElement;
+  runner: Runner;
+  renderer: CanvasRenderer;
+  recorder: GenerationRecorder;
+  replay: Replay | null;
+  playing: boolean;
+  speed: number;
+  private progress: number;
+  private frameRequest: number | null;
+
+  /**
+   * Constructor for ReplayPanel, plays back past generations recorded by a recorder. While a generation is replayed the
+   * runner is paused, resuming the runner goes back to the live simulation.
+   * @param panel - element containing the replay buttons and inputs
+   * @param runner - runner whose simulation is recorded
+   * @param renderer - renderer that draws the replay
+   * @param recorder - recorder of the runner's simulation
+   */
+  constructor(panel: HTMLElement, runner: Runner, renderer: CanvasRenderer, recorder: GenerationRecorder) {
+    this.panel = panel;
+    this.runner = runner;
+    this.renderer = renderer;
+    this.recorder = recorder;
+    this.replay = null;
+    this.playing = false;
+    this.speed = 1; // steps per animation frame, below 1 a step takes several frames
+    this.progress = 0; // fraction of a step played back so far when the speed is below 1
+    this.frameRequest = null;
+
+    this.element<HTMLButtonElement>('[data-action="replay"]').addEventListener('click', () =>
+      this.open(Number(this.generationInput.value)),
+    );
+    this.element<HTMLButtonElement>('[data-action="replay-toggle"]').addEventListener('click', () => {
+      this.playing = !this.playing;
+      if (this.playing && this.replay?.finished) this.replay.seek(0); // play again from the start
+      this.updateToggle();
+    });
+    this.element<HTMLButtonElement>('[data-action="live"]').addEventListener('click', () => this.close());
+    this.generationInput.addEventListener('change', () => {
+      if (this.replay) this.open(Number(this.generationInput.value));
+    });
+    this.stepInput.addEventListener('input', () => {
+      if (!this.replay) return;
+      this.replay.seek(Number(this.stepInput.value));
+      this.draw();
+    });
+    this.element<HTMLSelectElement>('[name="replay-speed"]').addEventListener('change', (event) => {
+      this.speed = Number((event.target as HTMLSelectElement).value);
+    });
+    this.element<HTMLInputElement>('[name="replay-paths"]').addEventListener('change', () => this.draw());
+    this.update();
+  }
+
+  /**
+   * Update the range of generations that can be replayed to match the recording.
+   */
+  update() {
+    const first = this.recorder.firstGeneration ?? 1;
+    const last = this.recorder.simulation?.generation ?? 1;
+    const following = this.generationInput.value === this.generationInput.max; // keep following the latest generation
+    this.generationInput.min = first.toString();
+    this.generationInput.max = last.toString();
+    if (following && !this.replay) this.generationInput.value = last.toString();
+    this.updateLabel();
+  }
+
+  /**
+   * Pause the runner and start replaying a generation from its start.
+   * @param generation
+   */
+  open(generation: number) {
+    if (!this.runner.paused) this.runner.togglePause();
+    const simulation = this.recorder.simulate(generation);
+    this.replay = new Replay(simulation);
+    this.stepInput.max = simulation.config.energy.toString(); // no cell lives longer than its energy
+    this.stepInput.value = '0';
+    this.playing = true;
+    this.progress = 0;
+    this.updateToggle();
+    this.draw();
+    if (this.frameRequest === null) {
+      const frame = () => {
+        this.frame();
+        this.frameRequest = this.replay ? window.requestAnimationFrame(frame) : null;
+      };
+      this.frameRequest = window.requestAnimationFrame(frame);
+    }
+  }
+
+  /**
+   * Stop replaying and go back to the live simulation, it stays paused if it was paused.
+   */
+  close() {
+    if (this.frameRequest !== null) window.cancelAnimationFrame(this.frameRequest);
+    this.frameRequest = null;
+    this.replay = null;
+    this.playing = false;
+    this.updateToggle();
+    this.update();
+    this.runner.render();
+  }
+
+  /**
+   * Advance the replay for one animation frame according to the playback speed.
+   */
+  frame() {
+    if (!this.replay) return;
+    if (!this.runner.paused) {
+      this.close(); // the runner was resumed from the control panel
+      return;
+    }
+    if (!this.playing || this.replay.finished) return;
+    this.progress += this.speed;
+    while (this.progress >= 1 && !this.replay.finished) {
+      this.replay.advance();
+      this.progress--;
+    }
+    if (this.replay.finished) {
+      this.playing = false;
+      this.updateToggle();
+    }
+    this.draw();
+  }
+
+  /**
+   * Draw the generation being replayed with the paths of the best cells of the generations before it, older paths are
+   * fainter. The path the best cell of the replayed generation takes is drawn in black.
+   */
+  draw() {
+    if (!this.replay) return;
+    const { generation } = this.replay;
+    this.renderer.render(this.replay.snapshot());
+    const count = Number(this.element<HTMLInputElement>('[name="replay-paths"]').value) || 0;
+    const paths = this.recorder.pathsBefore(generation, count);
+    paths.forEach(({ points }, i) => {
+      this.renderer.drawPath(points, `rgba(255, 255, 255, ${((i + 1) / paths.length).toFixed(2)})`);
+    });
+    const best = this.recorder.bestPaths.get(generation);
+    if (count > 0 && best) this.renderer.drawPath(best, '#000000');
+    this.stepInput.value = this.replay.step.toString();
+    this.updateLabel();
+  }
+
+  private updateLabel() {
+    const label = this.element<HTMLElement>('.replay-position');
+    label.innerText = this.replay
+      ? `Replaying generation ${this.replay.generation}, step ${this.replay.step}${this.replay.finished ? ' (end)' : ''}`
+      : `Generations ${this.generationInput.min} to ${this.generationInput.max} can be replayed`;
+  }
+
+  private updateToggle() {
+    this.element<HTMLButtonElement>('[data-action="replay-toggle"]').innerText = this.playing ? 'Pause' : 'Play';
+  }
+
+  private get generationInput() {
+    return this.element<HTMLInputElement>('[name="replay-generation"]');
+  }
+
+  private get stepInput() {
+    return this.element<HTMLInputElement>('[name="replay-step"]');
+  }
+
+  private element<T extends Element>(selector: string) {
+    return this.panel.querySelector(selector) as T;
+  }
+}
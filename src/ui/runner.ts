@@ -0,0 +1,167 @@
+import { Simulation, SimulationConfig } from '../simulation/simulation';
+import { CanvasRenderer } from '../render/renderer';
+import { OverlayName, OverlayRecorder } from '../simulation/overlays';
+
+/**
+ * Number of simulation steps per animation frame, or 'max' to fast-forward without drawing.
+ */
+export type PlaybackSpeed = number | 'max';
+
+export class Runner {
+  simulation: Simulation;
+  renderer: CanvasRenderer;
+  paused: boolean;
+  speed: PlaybackSpeed;
+  onGeneration: (simulation: Simulation) => void;
+  onRender: (simulation: Simulation) => void;
+  frameBudget: number;
+  overlays: OverlayName[];
+  private frameRequest: number | null;
+
+  /**
+   * Constructor for Runner, drives a simulation from requestAnimationFrame and draws it with a renderer.
+   * @param simulation
+   * @param renderer
+   * @param onGeneration - called every time the population evolves into a new generation
+   */
+  constructor(
+    simulation: Simulation,
+    renderer: CanvasRenderer,
+    onGeneration: (simulation: Simulation) => void = () => undefined,
+  ) {
+    this.simulation = simulation;
+    this.renderer = renderer;
+    this.onGeneration = onGeneration;
+    this.onRender = () => undefined; // called every time the simulation is drawn, i.e. to capture the canvas
+    this.paused = false;
+    this.speed = 1;
+    this.frameBudget = 30; // milliseconds spent simulating per animation frame when fast-forwarding
+    this.overlays = []; // overlays drawn on top of the simulation
+    this.frameRequest = null;
+  }
+
+  /**
+   * Start requesting animation frames, does nothing if the runner is already running.
+   */
+  start() {
+    if (this.frameRequest !== null) return;
+    const frame = () => {
+      this.frame();
+      this.frameRequest = window.requestAnimationFrame(frame);
+    };
+    this.frameRequest = window.requestAnimationFrame(frame);
+    this.render();
+  }
+
+  /**
+   * Stop requesting animation frames.
+   */
+  stop() {
+    if (this.frameRequest === null) return;
+    window.cancelAnimationFrame(this.frameRequest);
+    this.frameRequest = null;
+  }
+
+  /**
+   * Advance the simulation for one animation frame according to the playback speed.
+   */
+  frame() {
+    if (this.paused) return;
+    if (this.speed === 'max') {
+      const end = performance.now() + this.frameBudget;
+      while (performance.now() < end) {
+        this.step();
+      }
+      return;
+    }
+    for (let i = 0; i < this.speed; i++) {
+      this.step();
+    }
+    this.render();
+  }
+
+  /**
+   * Advance the simulation by one step and notify the listener if the population evolved.
+   */
+  step() {
+    if (this.simulation.step()) {
+      this.onGeneration(this.simulation);
+    }
+  }
+
+  /**
+   * Draw the current state of the simulation.
+   */
+  render() {
+    const { simulation } = this;
+    const overlays = simulation.overlays?.snapshot(simulation.population.cells, this.overlays);
+    this.renderer.render(simulation.snapshot(), overlays);
+    this.onRender(simulation);
+  }
+
+  /**
+   * Choose which overlays are drawn, the simulation only records what the overlays need while any are shown.
+   * @param overlays
+   */
+  setOverlays(overlays: OverlayName[]) {
+    this.overlays = overlays;
+    this.attachOverlays();
+    this.render();
+  }
+
+  /**
+   * Attach an overlay recorder to the simulation if any overlays are shown and detach it otherwise.
+   */
+  private attachOverlays() {
+    const { simulation } = this;
+    if (this.overlays.length === 0) {
+      simulation.overlays = null;
+    } else if (!simulation.overlays) {
+      simulation.overlays = new OverlayRecorder(simulation.config.width, simulation.config.height);
+      simulation.overlays.start(simulation);
+    }
+  }
+
+  /**
+   * Pause the simulation if it is running and resume it if it is paused.
+   */
+  togglePause() {
+    this.paused = !this.paused;
+  }
+
+  /**
+   * Advance the simulation by a single step and draw it.
+   */
+  stepFrame() {
+    this.step();
+    this.render();
+  }
+
+  /**
+   * Advance the simulation until the current generation has finished and draw it.
+   */
+  stepGeneration() {
+    this.simulation.runGeneration();
+    this.onGeneration(this.simulation);
+    this.render();
+  }
+
+  /**
+   * Replace the simulation with a new one created from the given config.
+   * @param config
+   */
+  reset(config: Partial<SimulationConfig>) {
+    this.setSimulation(new Simulation(config));
+  }
+
+  /**
+   * Replace the simulation with another one, i.e. one loaded from a save file.
+   * @param simulation
+   */
+  setSimulation(simulation: Simulation) {
+    this.simulation = simulation;
+    this.attachOverlays();
+    this.onGeneration(this.simulation);
+    this.render();
+  }
+}
@@ -0,0 +1,74 @@
+import { WorkerRunner } from './worker-runner';
+import { readConfig, writeConfig } from './controls';
+
+export class WorkerControlPanel {
+  form: HTMLFormElement;
+  runner: WorkerRunner;
+  toggleButton: HTMLButtonElement;
+
+  /**
+   * Constructor for WorkerControlPanel, binds the parameter and playback inputs of the control panel form to a
+   * simulation running in a worker. Saving and the level editor need the simulation on the main thread and are removed.
+   * @param form - form containing an input for each editable config value and the playback buttons
+   * @param runner - runner that the control panel controls
+   */
+  constructor(form: HTMLFormElement, runner: WorkerRunner) {
+    this.form = form;
+    this.runner = runner;
+    this.toggleButton = form.querySelector('[data-action="toggle"]') as HTMLButtonElement;
+    form.querySelector('[data-action="save"]')?.closest('fieldset')?.remove();
+    form.querySelector('#editor')?.remove();
+    form.querySelector('#replay')?.remove(); // generations are only recorded on the main thread
+    form.querySelector('#overlays')?.remove(); // frames from the worker only have the positions of the cells
+    form.querySelector('#export')?.remove();
+
+    this.toggleButton.addEventListener('click', () => {
+      this.runner.togglePause();
+      this.updateToggle();
+    });
+    this.button('step-frame').addEventListener('click', () => {
+      this.pause();
+      this.runner.stepFrame();
+    });
+    this.button('step-generation').addEventListener('click', () => {
+      this.pause();
+      this.runner.stepGeneration();
+    });
+
+    (form.elements.namedItem('playback') as HTMLSelectElement).addEventListener('change', (event) => {
+      const value = (event.target as HTMLSelectElement).value;
+      this.runner.setSpeed(value === 'max' ? 'max' : Number(value));
+    });
+
+    this.form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      if (this.runner.config) this.runner.reset(readConfig(this.form, this.runner.config));
+    });
+  }
+
+  /**
+   * Fill the inputs with the config of the simulation, called once the worker has reported its config.
+   */
+  update() {
+    if (this.runner.config) writeConfig(this.form, this.runner.config);
+  }
+
+  /**
+   * Pause the runner if it is running.
+   */
+  pause() {
+    if (!this.runner.paused) this.runner.togglePause();
+    this.updateToggle();
+  }
+
+  /**
+   * Update the label of the pause/resume button to match the state of the runner.
+   */
+  updateToggle() {
+    this.toggleButton.innerText = this.runner.paused ? 'Resume' : 'Pause';
+  }
+
+  private button(action: string) {
+    return this.form.querySelector(`[data-action="${action}"]`) as HTMLButtonElement;
+  }
+}
@@ -0,0 +1,139 @@
+import { SimulationConfig, WorldSnapshot } from '../simulation/simulation';
+import { CellFrame } from '../simulation/frame';
+import { GenerationStats } from '../simulation/statistics';
+import { CanvasRenderer } from '../render/renderer';
+import { WorkerRequest, WorkerResponse, WorkerSpeed } from '../worker/protocol';
+
+export class WorkerRunner {
+  worker: Worker;
+  renderer: CanvasRenderer;
+  config: SimulationConfig | null;
+  world: WorldSnapshot | null;
+  frame: CellFrame | null;
+  generation: number;
+  history: GenerationStats[];
+  paused: boolean;
+  onGeneration: (runner: WorkerRunner) => void;
+  onConfigure: (runner: WorkerRunner) => void;
+  private drawn: boolean;
+  private frameRequest: number | null;
+
+  /**
+   * Constructor for WorkerRunner, runs a simulation in a Web Worker and draws the frames it posts, so the main thread
+   * only renders and large populations do not block the page.
+   * @param renderer
+   * @param onGeneration - called every time the population evolves and when the simulation is configured
+   * @param onConfigure - called when the worker reports the config of a new simulation
+   */
+  constructor(
+    renderer: CanvasRenderer,
+    onGeneration: (runner: WorkerRunner) => void = () => undefined,
+    onConfigure: (runner: WorkerRunner) => void = () => undefined,
+  ) {
+    this.worker = new Worker(new URL('../worker/simulation.worker.ts', import.meta.url), { type: 'module' });
+    this.renderer = renderer;
+    this.onGeneration = onGeneration;
+    this.onConfigure = onConfigure;
+    this.config = null; // config of the simulation in the worker, known once the worker has answered configure
+    this.world = null;
+    this.frame = null;
+    this.generation = 1;
+    this.history = [];
+    this.paused = false;
+    this.drawn = true; // true when the latest frame has been drawn
+    this.frameRequest = null;
+    this.worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => this.receive(event.data));
+  }
+
+  /**
+   * Handle a message from the worker.
+   * @param response
+   */
+  receive(response: WorkerResponse) {
+    switch (response.type) {
+      case 'world':
+        this.config = response.config;
+        this.world = response.world;
+        this.generation = response.world.generation;
+        this.history = [];
+        this.onConfigure(this);
+        this.onGeneration(this);
+        break;
+      case 'frame':
+        this.frame = response.frame;
+        this.drawn = false;
+        break;
+      case 'generation':
+        this.generation = response.generation;
+        this.history.push(...response.stats);
+        if (response.world) this.world = response.world;
+        this.onGeneration(this);
+        break;
+    }
+  }
+
+  /**
+   * Start drawing every new frame and start the simulation unless it is paused.
+   */
+  start() {
+    if (this.frameRequest !== null) return;
+    const draw = () => {
+      this.render();
+      this.frameRequest = window.requestAnimationFrame(draw);
+    };
+    this.frameRequest = window.requestAnimationFrame(draw);
+    if (!this.paused) this.send({ type: 'start' });
+  }
+
+  /**
+   * Draw the latest frame if it has not been drawn yet, frames that arrive faster than the display refreshes are
+   * skipped.
+   */
+  render() {
+    if (this.drawn || !this.world || !this.frame) return;
+    this.renderer.renderFrame(this.world, this.frame);
+    this.drawn = true;
+  }
+
+  /**
+   * Pause the simulation if it is running and resume it if it is paused.
+   */
+  togglePause() {
+    this.paused = !this.paused;
+    this.send({ type: this.paused ? 'pause' : 'start' });
+  }
+
+  /**
+   * Set the number of steps the worker runs per frame.
+   * @param speed
+   */
+  setSpeed(speed: WorkerSpeed) {
+    this.send({ type: 'speed', speed });
+  }
+
+  /**
+   * Advance the simulation by a single step.
+   */
+  stepFrame() {
+    this.send({ type: 'step', until: 'frame' });
+  }
+
+  /**
+   * Advance the simulation until the current generation has finished.
+   */
+  stepGeneration() {
+    this.send({ type: 'step', until: 'generation' });
+  }
+
+  /**
+   * Replace the simulation in the worker with a new one created from the given config.
+   * @param config
+   */
+  reset(config: Partial<SimulationConfig>) {
+    this.send({ type: 'configure', config });
+  }
+
+  private send(request: WorkerRequest) {
+    this.worker.postMessage(request);
+  }
+}
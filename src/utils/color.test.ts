@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { hexToRgb, rgbToHex } from './color';
+import { hexToRgb, hslToHex, rgbToHex } from './color';
 
 describe('hexToRgb', () => {
   it('should convert hex #FFFFFF to rgb (255, 255, 255)', () => {
@@ -54,3 +54,20 @@ describe('rgbToHex', () => {
     expect(result).toBe('#ADD8E6');
   });
 });
+
+describe('hslToHex', () => {
+  it('should convert primary hues', () => {
+    expect(hslToHex(0, 1, 0.5)).toBe('#ff0000');
+    expect(hslToHex(120, 1, 0.5)).toBe('#00ff00');
+    expect(hslToHex(240, 1, 0.5)).toBe('#0000ff');
+  });
+
+  it('should wrap hues outside the range [0, 360)', () => {
+    expect(hslToHex(480, 1, 0.5)).toBe(hslToHex(120, 1, 0.5));
+    expect(hslToHex(-120, 1, 0.5)).toBe(hslToHex(240, 1, 0.5));
+  });
+
+  it('should ignore the hue of greys', () => {
+    expect(hslToHex(200, 0, 0.5)).toBe('#808080');
+  });
+});
@@ -21,3 +21,25 @@ export const hexToRgb = (hex: string) => {
  */
 export const rgbToHex = (r: number, g: number, b: number) =>
   '#' + ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1);
+
+/**
+ * Converts a hsl color to a hexadecimal string
+ * @param h - hue in degrees, any value is wrapped to the range [0, 360)
+ * @param s - saturation in the range [0, 1]
+ * @param l - lightness in the range [0, 1]
+ */
+export const hslToHex = (h: number, s: number, l: number) => {
+  const hue = ((h % 360) + 360) % 360;
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = l - chroma / 2;
+  const [r, g, b] = [
+    [chroma, x, 0],
+    [x, chroma, 0],
+    [0, chroma, x],
+    [0, x, chroma],
+    [x, 0, chroma],
+    [chroma, 0, x],
+  ][Math.floor(hue / 60)];
+  return rgbToHex(Math.round((r + m) * 255), Math.round((g + m) * 255), Math.round((b + m) * 255));
+};
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2D } from './vector';
+import {
+  circleIntersectsRect,
+  closestPointOnSegment,
+  distanceToSegment,
+  pointAlongLoop,
+  segmentBoxEntry,
+  segmentCircleEntry,
+  sweepCircleRect,
+  sweepCircleSegment,
+} from './geometry';
+
+describe('closestPointOnSegment', () => {
+  it('should project a point onto the segment', () => {
+    const result = closestPointOnSegment(new Vector2D(5, 5), new Vector2D(0, 0), new Vector2D(10, 0));
+    expect(result.toArray()).toEqual([5, 0]);
+  });
+
+  it('should clamp to the ends of the segment', () => {
+    const result = closestPointOnSegment(new Vector2D(-5, 5), new Vector2D(0, 0), new Vector2D(10, 0));
+    expect(result.toArray()).toEqual([0, 0]);
+  });
+
+  it('should handle segments of zero length', () => {
+    const result = closestPointOnSegment(new Vector2D(3, 4), new Vector2D(1, 1), new Vector2D(1, 1));
+    expect(result.toArray()).toEqual([1, 1]);
+  });
+});
+
+describe('distanceToSegment', () => {
+  it('should return the distance to the closest point of the segment', () => {
+    expect(distanceToSegment(new Vector2D(13, 4), new Vector2D(0, 0), new Vector2D(10, 0))).toBe(5);
+  });
+});
+
+describe('circleIntersectsRect', () => {
+  it('should detect a circle overlapping the edge of a rectangle', () => {
+    expect(circleIntersectsRect(new Vector2D(12, 5), 3, 0, 0, 10, 10)).toBe(true);
+    expect(circleIntersectsRect(new Vector2D(14, 5), 3, 0, 0, 10, 10)).toBe(false);
+  });
+
+  it('should detect a circle inside a rectangle', () => {
+    expect(circleIntersectsRect(new Vector2D(5, 5), 1, 0, 0, 10, 10)).toBe(true);
+  });
+});
+
+describe('segmentCircleEntry', () => {
+  const center = new Vector2D(10, 0);
+
+  it('should return where a moving point enters a circle', () => {
+    expect(segmentCircleEntry(new Vector2D(0, 0), new Vector2D(20, 0), center, 4)).toBeCloseTo(0.3);
+  });
+
+  it('should return 0 for a point starting inside and null for a miss', () => {
+    expect(segmentCircleEntry(new Vector2D(9, 0), new Vector2D(20, 0), center, 4)).toBe(0);
+    expect(segmentCircleEntry(new Vector2D(0, 5), new Vector2D(20, 5), center, 4)).toBeNull();
+    expect(segmentCircleEntry(new Vector2D(0, 0), new Vector2D(5, 0), center, 4)).toBeNull();
+  });
+});
+
+describe('segmentBoxEntry', () => {
+  it('should return where a moving point enters a box', () => {
+    expect(segmentBoxEntry(new Vector2D(0, 5), new Vector2D(20, 5), 10, 0, 15, 10)).toBeCloseTo(0.5);
+    expect(segmentBoxEntry(new Vector2D(12, 5), new Vector2D(20, 5), 10, 0, 15, 10)).toBe(0);
+    expect(segmentBoxEntry(new Vector2D(0, 20), new Vector2D(20, 20), 10, 0, 15, 10)).toBeNull();
+  });
+});
+
+describe('sweepCircleRect', () => {
+  it('should detect a circle passing through a thin rectangle between its end points', () => {
+    const t = sweepCircleRect(new Vector2D(0, 5), new Vector2D(20, 5), 2, 9, 0, 1, 10);
+    expect(t).toBeCloseTo(0.35);
+    expect(circleIntersectsRect(new Vector2D(20, 5), 2, 9, 0, 1, 10)).toBe(false);
+  });
+
+  it('should use rounded corners', () => {
+    // passes about 1.27 from the corner at (10, 10), inside the rectangle grown by 1 with square corners
+    expect(sweepCircleRect(new Vector2D(0, 21.8), new Vector2D(21.8, 0), 1, 0, 0, 10, 10)).toBeNull();
+    expect(sweepCircleRect(new Vector2D(0, 21.8), new Vector2D(21.8, 0), 2, 0, 0, 10, 10)).not.toBeNull();
+  });
+});
+
+describe('sweepCircleSegment', () => {
+  it('should detect a circle crossing a segment', () => {
+    const t = sweepCircleSegment(new Vector2D(5, -10), new Vector2D(5, 10), 2, new Vector2D(0, 0), new Vector2D(10, 0));
+    expect(t).toBeCloseTo(0.4);
+  });
+
+  it('should detect a circle passing the end of a segment', () => {
+    const a = new Vector2D(0, 0);
+    const b = new Vector2D(10, 10);
+    expect(sweepCircleSegment(new Vector2D(-10, 11.5), new Vector2D(30, 11.5), 2, a, b)).not.toBeNull();
+    expect(sweepCircleSegment(new Vector2D(-10, 13), new Vector2D(30, 13), 2, a, b)).toBeNull();
+  });
+});
+
+describe('pointAlongLoop', () => {
+  const square = [new Vector2D(0, 0), new Vector2D(10, 0), new Vector2D(10, 10), new Vector2D(0, 10)];
+
+  it('should follow the loop and return to the first point', () => {
+    expect(pointAlongLoop(square, 5).toArray()).toEqual([5, 0]);
+    expect(pointAlongLoop(square, 15).toArray()).toEqual([10, 5]);
+    expect(pointAlongLoop(square, 35).toArray()).toEqual([0, 5]);
+  });
+
+  it('should wrap distances longer than the loop', () => {
+    expect(pointAlongLoop(square, 45).toArray()).toEqual([5, 0]);
+  });
+
+  it('should stay on a single point', () => {
+    expect(pointAlongLoop([new Vector2D(3, 4)], 100).toArray()).toEqual([3, 4]);
+  });
+});
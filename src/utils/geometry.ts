@@ -0,0 +1,174 @@
+import { Vector2D } from './vector';
+
+/**
+ * Returns the point on the line segment from a to b that is closest to point p
+ * @param p
+ * @param a - start of the segment
+ * @param b - end of the segment
+ */
+export const closestPointOnSegment = (p: Vector2D, a: Vector2D, b: Vector2D) => {
+  const ab = b.subtract(a);
+  const lengthSquared = ab.dot(ab);
+  if (lengthSquared === 0) return a.clone();
+  const t = Math.max(0, Math.min(1, p.subtract(a).dot(ab) / lengthSquared));
+  return a.add(ab.multiply(t));
+};
+
+/**
+ * Returns the shortest distance between point p and the line segment from a to b
+ * @param p
+ * @param a - start of the segment
+ * @param b - end of the segment
+ */
+export const distanceToSegment = (p: Vector2D, a: Vector2D, b: Vector2D) => p.distance(closestPointOnSegment(p, a, b));
+
+/**
+ * Returns true if a circle overlaps an axis aligned rectangle
+ * @param center - center of the circle
+ * @param radius - radius of the circle
+ * @param x - left edge of the rectangle
+ * @param y - top edge of the rectangle
+ * @param width
+ * @param height
+ */
+export const circleIntersectsRect = (
+  center: Vector2D,
+  radius: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) => {
+  const closestX = Math.max(x, Math.min(center.x, x + width));
+  const closestY = Math.max(y, Math.min(center.y, y + height));
+  return center.distance(new Vector2D(closestX, closestY)) < radius;
+};
+
+/**
+ * Returns the fraction t in [0, 1] of the way along the segment from a to b at which a point moving from a to b first
+ * enters a circle, or null if it never does. A point that starts inside the circle enters it at t = 0.
+ * @param a - start of the movement
+ * @param b - end of the movement
+ * @param center - center of the circle
+ * @param radius - radius of the circle
+ */
+export const segmentCircleEntry = (a: Vector2D, b: Vector2D, center: Vector2D, radius: number) => {
+  const offset = a.subtract(center);
+  const c = offset.dot(offset) - radius * radius;
+  if (c < 0) return 0;
+  const direction = b.subtract(a);
+  const lengthSquared = direction.dot(direction);
+  if (lengthSquared === 0) return null;
+  const half = offset.dot(direction);
+  const discriminant = half * half - lengthSquared * c;
+  if (discriminant < 0) return null;
+  const t = (-half - Math.sqrt(discriminant)) / lengthSquared;
+  return t >= 0 && t <= 1 ? t : null;
+};
+
+/**
+ * Returns the fraction t in [0, 1] of the way along the segment from a to b at which a point moving from a to b first
+ * enters an axis aligned box, or null if it never does. A point that starts inside the box enters it at t = 0.
+ * @param a - start of the movement
+ * @param b - end of the movement
+ * @param minX - left edge of the box
+ * @param minY - top edge of the box
+ * @param maxX - right edge of the box
+ * @param maxY - bottom edge of the box
+ */
+export const segmentBoxEntry = (a: Vector2D, b: Vector2D, minX: number, minY: number, maxX: number, maxY: number) => {
+  let enter = 0;
+  let exit = 1;
+  const axes: [number, number, number, number][] = [
+    [a.x, b.x - a.x, minX, maxX],
+    [a.y, b.y - a.y, minY, maxY],
+  ];
+  for (const [start, delta, min, max] of axes) {
+    if (delta === 0) {
+      if (start < min || start > max) return null;
+      continue;
+    }
+    let t1 = (min - start) / delta;
+    let t2 = (max - start) / delta;
+    if (t1 > t2) [t1, t2] = [t2, t1];
+    enter = Math.max(enter, t1);
+    exit = Math.min(exit, t2);
+    if (enter > exit) return null;
+  }
+  return enter;
+};
+
+/**
+ * Returns the fraction t in [0, 1] of the way along the segment from a to b at which a circle moving from a to b first
+ * touches an axis aligned rectangle, or null if it never does. The circle touches the rectangle when its center enters
+ * the rectangle grown by the radius with rounded corners.
+ * @param a - start of the movement of the center of the circle
+ * @param b - end of the movement of the center of the circle
+ * @param radius - radius of the circle
+ * @param x - left edge of the rectangle
+ * @param y - top edge of the rectangle
+ * @param width
+ * @param height
+ */
+export const sweepCircleRect = (
+  a: Vector2D,
+  b: Vector2D,
+  radius: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) => {
+  const entries = [
+    segmentBoxEntry(a, b, x - radius, y, x + width + radius, y + height),
+    segmentBoxEntry(a, b, x, y - radius, x + width, y + height + radius),
+    segmentCircleEntry(a, b, new Vector2D(x, y), radius),
+    segmentCircleEntry(a, b, new Vector2D(x + width, y), radius),
+    segmentCircleEntry(a, b, new Vector2D(x, y + height), radius),
+    segmentCircleEntry(a, b, new Vector2D(x + width, y + height), radius),
+  ].filter((t): t is number => t !== null);
+  return entries.length ? Math.min(...entries) : null;
+};
+
+/**
+ * Returns the fraction t in [0, 1] of the way along the segment from a to b at which a circle moving from a to b first
+ * comes within radius of the segment from p to q, or null if it never does.
+ * @param a - start of the movement of the center of the circle
+ * @param b - end of the movement of the center of the circle
+ * @param radius - distance from the segment counted as contact, i.e. the radius of the circle plus half the thickness
+ * of the segment
+ * @param p - start of the segment
+ * @param q - end of the segment
+ */
+export const sweepCircleSegment = (a: Vector2D, b: Vector2D, radius: number, p: Vector2D, q: Vector2D) => {
+  const length = p.distance(q);
+  if (length === 0) return segmentCircleEntry(a, b, p, radius);
+  // in coordinates along and across the segment, the segment grown by the radius is a rectangle with rounded corners
+  const along = q.subtract(p).divide(length);
+  const toLocal = (point: Vector2D) => {
+    const offset = point.subtract(p);
+    return new Vector2D(offset.dot(along), along.x * offset.y - along.y * offset.x);
+  };
+  return sweepCircleRect(toLocal(a), toLocal(b), radius, 0, 0, length, 0);
+};
+
+/**
+ * Returns the point a given distance along a closed loop through the points, the loop returns from the last point to
+ * the first and distances longer than the loop wrap around.
+ * @param points - corners of the loop, a single point is returned as is
+ * @param distance - distance travelled from the first point
+ */
+export const pointAlongLoop = (points: Vector2D[], distance: number) => {
+  const lengths = points.map((point, i) => point.distance(points[(i + 1) % points.length]));
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  if (total === 0) return points[0].clone();
+  let remaining = ((distance % total) + total) % total;
+  for (let i = 0; i < points.length; i++) {
+    if (remaining <= lengths[i]) {
+      const next = points[(i + 1) % points.length];
+      return points[i].add(next.subtract(points[i]).multiply(remaining / lengths[i]));
+    }
+    remaining -= lengths[i];
+  }
+  return points[0].clone();
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { GifEncoder, gifPalette, lzwEncode, paletteIndex } from './gif';
+
+/**
+ * Returns the palette indices of LZW coded pixels, the decoder described in the GIF specification.
+ */
+const lzwDecode = (bytes: number[]) => {
+  const pixels: number[] = [];
+  let position = 0; // in bits
+  let codeSize = 9;
+  const read = () => {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, position++) {
+      code |= ((bytes[position >> 3] >> (position & 7)) & 1) << i;
+    }
+    return code;
+  };
+  const reset = () => Array.from({ length: 258 }, (_, i) => [i]);
+  let table = reset();
+  let previous: number[] | null = null;
+  for (;;) {
+    const code = read();
+    if (code === 256) {
+      table = reset();
+      codeSize = 9;
+      previous = null;
+      continue;
+    }
+    if (code === 257) break;
+    const entry: number[] = code < table.length ? table[code] : [...(previous as number[]), (previous as number[])[0]];
+    pixels.push(...entry);
+    if (previous && table.length < 4096) {
+      table.push([...previous, entry[0]]);
+      if (table.length >= 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+  return pixels;
+};
+
+describe('paletteIndex', () => {
+  it('should map colours of the palette to themselves', () => {
+    const palette = gifPalette();
+    for (const index of [0, 17, 100, 251]) {
+      const [r, g, b] = palette.slice(index * 3, index * 3 + 3);
+      expect(paletteIndex(r, g, b)).toBe(index);
+    }
+  });
+
+  it('should map a colour to the closest colour of the palette', () => {
+    const palette = gifPalette();
+    const index = paletteIndex(235, 45, 67);
+    expect([...palette.slice(index * 3, index * 3 + 3)]).toEqual([255, 43, 51]);
+  });
+});
+
+describe('lzwEncode', () => {
+  it('should encode pixels that decode to the same pixels', () => {
+    const indices = Uint8Array.from({ length: 5000 }, (_, i) => (i * 7) % 13);
+    expect(lzwDecode(lzwEncode(indices))).toEqual([...indices]);
+  });
+
+  it('should clear the code table once it is full', () => {
+    let state = 1;
+    const indices = Uint8Array.from({ length: 20000 }, () => {
+      state = (state * 1103515245 + 12345) % 2147483648;
+      return state % 251;
+    });
+    expect(lzwDecode(lzwEncode(indices))).toEqual([...indices]);
+  });
+
+  it('should compress an image of a single colour', () => {
+    expect(lzwEncode(new Uint8Array(10000)).length).toBeLessThan(300);
+  });
+});
+
+describe('GifEncoder', () => {
+  it('should write the header, frames and trailer of an animated GIF', () => {
+    const encoder = new GifEncoder(2, 1);
+    encoder.addFrame([255, 255, 255, 255, 0, 0, 0, 255], 100);
+    encoder.addFrame([0, 0, 0, 255, 255, 255, 255, 255], 100);
+    const gif = encoder.finish();
+
+    expect(String.fromCharCode(...gif.slice(0, 6))).toBe('GIF89a');
+    expect([...gif.slice(6, 10)]).toEqual([2, 0, 1, 0]);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+    expect(gif.filter((byte, i) => byte === 0x21 && gif[i + 1] === 0xf9).length).toBe(2);
+  });
+
+  it('should reject frames of the wrong size and frames after finishing', () => {
+    const encoder = new GifEncoder(2, 2);
+    expect(() => encoder.addFrame([0, 0, 0, 0], 10)).toThrow('Frame has 1 pixels but the GIF is 2x2');
+    encoder.finish();
+    expect(() => encoder.addFrame(new Uint8Array(16), 10)).toThrow('Cannot add a frame to a finished GIF');
+  });
+});
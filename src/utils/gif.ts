@@ -0,0 +1,178 @@
+/**
+ * Number of levels of red, green and blue in the palette, 6 * 7 * 6 = 252 colours. The eye is most sensitive to green so
+ * it gets an extra level.
+ */
+const LEVELS = [6, 7, 6];
+const MIN_CODE_SIZE = 8; // every pixel is an index into a 256 colour palette
+const MAX_CODE = 4096; // codes are at most 12 bits
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+/**
+ * Returns the two bytes of a number in little endian order.
+ */
+const short = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+/**
+ * Returns the 256 colour palette every frame is quantized to as r, g, b bytes, the unused entries are black.
+ */
+export const gifPalette = () => {
+  const palette = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < LEVELS[0]; r++) {
+    for (let g = 0; g < LEVELS[1]; g++) {
+      for (let b = 0; b < LEVELS[2]; b++) {
+        palette[i++] = Math.round((r * 255) / (LEVELS[0] - 1));
+        palette[i++] = Math.round((g * 255) / (LEVELS[1] - 1));
+        palette[i++] = Math.round((b * 255) / (LEVELS[2] - 1));
+      }
+    }
+  }
+  return palette;
+};
+
+/**
+ * Returns the index of the palette colour closest to an rgb colour.
+ * @param r - red channel in the range [0, 255]
+ * @param g - green channel in the range [0, 255]
+ * @param b - blue channel in the range [0, 255]
+ */
+export const paletteIndex = (r: number, g: number, b: number) => {
+  const [rLevels, gLevels, bLevels] = LEVELS;
+  const ri = Math.round((r * (rLevels - 1)) / 255);
+  const gi = Math.round((g * (gLevels - 1)) / 255);
+  const bi = Math.round((b * (bLevels - 1)) / 255);
+  return (ri * gLevels + gi) * bLevels + bi;
+};
+
+/**
+ * Returns the pixels compressed with the variable length LZW coding GIF uses, without the sub-block framing.
+ * @param indices - palette index of every pixel
+ */
+export const lzwEncode = (indices: Uint8Array) => {
+  const clear = 1 << MIN_CODE_SIZE;
+  const end = clear + 1;
+  const bytes: number[] = [];
+  let buffer = 0; // bits waiting to be written, least significant first
+  let bits = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  let table = new Map<number, number>(); // code of a known sequence followed by a pixel, keyed by code * 256 + pixel
+  let nextCode = end + 1;
+  emit(clear);
+  if (indices.length > 0) {
+    let current = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const key = current * 256 + indices[i];
+      const code = table.get(key);
+      if (code !== undefined) {
+        current = code;
+        continue;
+      }
+      emit(current);
+      if (nextCode === MAX_CODE) {
+        emit(clear);
+        table = new Map();
+        codeSize = MIN_CODE_SIZE + 1;
+        nextCode = end + 1;
+      } else {
+        if (nextCode >= 1 << codeSize) codeSize++;
+        table.set(key, nextCode++);
+      }
+      current = indices[i];
+    }
+    emit(current);
+  }
+  emit(end);
+  if (bits > 0) bytes.push(buffer & 0xff);
+  return bytes;
+};
+
+export class GifEncoder {
+  width: number;
+  height: number;
+  private chunks: Uint8Array[];
+  private finished: boolean;
+
+  /**
+   * Constructor for GifEncoder, encodes an animated GIF one frame at a time so frames do not have to be kept in memory.
+   * Every frame is quantized to the same fixed palette, which is fast and keeps the colours of the simulation stable
+   * between frames. The animation loops forever.
+   * @param width - width of every frame in pixels
+   * @param height - height of every frame in pixels
+   */
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.finished = false;
+    this.chunks = [];
+    this.write([
+      ...ascii('GIF89a'),
+      ...short(width),
+      ...short(height),
+      0xf7, // global palette of 256 colours
+      0, // background colour
+      0, // square pixels
+      ...gifPalette(),
+      // application extension that makes the animation loop forever
+      ...[0x21, 0xff, 11, ...ascii('NETSCAPE2.0'), 3, 1, 0, 0, 0],
+    ]);
+  }
+
+  /**
+   * Add a frame to the animation.
+   * @param pixels - r, g, b, a bytes of every pixel row by row, i.e. ImageData.data, alpha is ignored
+   * @param delay - milliseconds the frame is shown for, GIF delays are rounded to hundredths of a second
+   */
+  addFrame(pixels: ArrayLike<number>, delay: number) {
+    if (this.finished) throw new Error('Cannot add a frame to a finished GIF');
+    if (pixels.length !== this.width * this.height * 4) {
+      throw new Error(`Frame has ${pixels.length / 4} pixels but the GIF is ${this.width}x${this.height}`);
+    }
+    const indices = new Uint8Array(this.width * this.height);
+    for (let i = 0; i < indices.length; i++) {
+      indices[i] = paletteIndex(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]);
+    }
+
+    const bytes = [
+      ...[0x21, 0xf9, 4, 0, ...short(Math.round(delay / 10)), 0, 0], // graphic control extension without transparency
+      ...[0x2c, ...short(0), ...short(0), ...short(this.width), ...short(this.height), 0], // image using the global palette
+      MIN_CODE_SIZE,
+    ];
+    const data = lzwEncode(indices);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.slice(i, i + 255);
+      bytes.push(block.length, ...block);
+    }
+    bytes.push(0);
+    this.write(bytes);
+  }
+
+  /**
+   * Returns the bytes of the finished GIF, no more frames can be added afterwards.
+   */
+  finish() {
+    if (!this.finished) this.write([0x3b]);
+    this.finished = true;
+    const gif = new Uint8Array(this.chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      gif.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return gif;
+  }
+
+  private write(bytes: ArrayLike<number>) {
+    this.chunks.push(Uint8Array.from(bytes));
+  }
+}
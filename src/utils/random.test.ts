@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Random, parseSeed } from './random';
+
+describe('Random', () => {
+  it('should return the same sequence for the same seed', () => {
+    const a = new Random(42);
+    const b = new Random(42);
+    for (let i = 0; i < 100; i++) {
+      expect(a.next()).toBe(b.next());
+    }
+  });
+
+  it('should return different sequences for different seeds', () => {
+    const a = new Random(1);
+    const b = new Random(2);
+    expect(a.next()).not.toBe(b.next());
+  });
+
+  it('should return numbers in range [0, 1)', () => {
+    const random = new Random(7);
+    for (let i = 0; i < 1000; i++) {
+      const r = random.next();
+      expect(r).toBeGreaterThanOrEqual(0);
+      expect(r).toBeLessThan(1);
+    }
+  });
+
+  it('should return integers in range [0, max)', () => {
+    const random = new Random(7);
+    for (let i = 0; i < 1000; i++) {
+      const r = random.int(5);
+      expect(Number.isInteger(r)).toBe(true);
+      expect(r).toBeGreaterThanOrEqual(0);
+      expect(r).toBeLessThan(5);
+    }
+  });
+
+  it('should return normally distributed numbers', () => {
+    const random = new Random(11);
+    const samples = Array.from({ length: 5000 }, () => random.gaussian());
+    const mean = samples.reduce((a, b) => a + b) / samples.length;
+    const variance = samples.reduce((a, b) => a + (b - mean) * (b - mean), 0) / samples.length;
+    expect(mean).toBeCloseTo(0, 1);
+    expect(Math.sqrt(variance)).toBeCloseTo(1, 1);
+  });
+
+  it('should store the seed as an unsigned 32-bit integer', () => {
+    expect(new Random(-1).seed).toBe(0xffffffff);
+  });
+});
+
+describe('parseSeed', () => {
+  it('should parse integer seeds', () => {
+    expect(parseSeed('12345')).toBe(12345);
+  });
+
+  it('should hash text seeds', () => {
+    expect(parseSeed('hello')).toBe(parseSeed('hello'));
+    expect(parseSeed('hello')).not.toBe(parseSeed('world'));
+  });
+
+  it('should return undefined for missing seeds', () => {
+    expect(parseSeed(null)).toBeUndefined();
+    expect(parseSeed('')).toBeUndefined();
+  });
+});
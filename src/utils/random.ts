@@ -0,0 +1,78 @@
+/**
+ * Returns a random unsigned 32-bit integer that can be used to seed a Random instance.
+ */
+export const randomSeed = () => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+/**
+ * Converts a seed given as text (i.e. from a URL or config file) to an unsigned 32-bit integer. Integers are used as is
+ * and any other text is hashed, returns undefined if there is no seed.
+ * @param value - seed as text
+ */
+export const parseSeed = (value: string | null | undefined) => {
+  if (value === null || value === undefined || value.trim() === '') return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim()) >>> 0;
+
+  // FNV-1a hash of the text
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export class Random {
+  seed: number;
+  state: number;
+
+  /**
+   * Constructor for Random, a seedable pseudo random number generator (mulberry32). Two instances created with the same
+   * seed return the same sequence of numbers.
+   * @param seed - unsigned 32-bit integer, a random seed is used if none is given
+   */
+  constructor(seed: number = randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Returns a random number in range [0, 1)
+   */
+  next() {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Returns a random number in range [min, max)
+   */
+  range(min: number, max: number) {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Returns a random integer in range [0, max)
+   */
+  int(max: number) {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Returns a random angle in radians in range [0, 2π)
+   */
+  angle() {
+    return this.next() * (2 * Math.PI);
+  }
+
+  /**
+   * Returns a normally distributed random number with mean 0 and standard deviation 1 (Box-Muller transform)
+   */
+  gaussian() {
+    const u = 1 - this.next(); // in range (0, 1] so the log is finite
+    const v = this.next();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(text('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip', () => {
+  it('should store every entry after a local file header', () => {
+    const zip = createZip([
+      { name: 'frames/0001.png', data: text('first') },
+      { name: 'frames/0002.png', data: text('second') },
+    ]);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(new TextDecoder().decode(zip.slice(30, 45))).toBe('frames/0001.png');
+    expect(new TextDecoder().decode(zip.slice(45, 50))).toBe('first');
+    expect(view.getUint32(14, true)).toBe(crc32(text('first')));
+  });
+
+  it('should end with a directory of the entries', () => {
+    const zip = createZip([{ name: 'a.txt', data: text('a') }]);
+    const view = new DataView(zip.buffer);
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(1);
+    const directory = view.getUint32(end + 16, true);
+    expect(view.getUint32(directory, true)).toBe(0x02014b50);
+    expect(view.getUint32(directory + 42, true)).toBe(0);
+  });
+});
@@ -0,0 +1,80 @@
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Returns the CRC-32 checksum of some bytes, as used by zip and png files.
+ * @param data
+ */
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Returns a zip archive of the entries. Entries are stored without compression, which suits files that are already
+ * compressed such as PNG images.
+ * @param entries - names are encoded as UTF-8 and may contain / to put entries in folders
+ */
+export const createZip = (entries: ZipEntry[]) => {
+  const encoder = new TextEncoder();
+  const names = entries.map((entry) => encoder.encode(entry.name));
+  const localSize = entries.reduce((sum, entry, i) => sum + 30 + names[i].length + entry.data.length, 0);
+  const centralSize = names.reduce((sum, name) => sum + 46 + name.length, 0);
+  const zip = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(zip.buffer);
+  const DATE = 0x21; // 1 January 1980, the earliest date a zip file can have
+
+  let offset = 0;
+  const offsets: number[] = [];
+  entries.forEach((entry, i) => {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true); // local file header
+    view.setUint16(offset + 4, 20, true); // version needed to extract
+    view.setUint16(offset + 12, DATE, true);
+    view.setUint32(offset + 14, crc32(entry.data), true);
+    view.setUint32(offset + 18, entry.data.length, true); // compressed size
+    view.setUint32(offset + 22, entry.data.length, true); // uncompressed size
+    view.setUint16(offset + 26, names[i].length, true);
+    zip.set(names[i], offset + 30);
+    zip.set(entry.data, offset + 30 + names[i].length);
+    offset += 30 + names[i].length + entry.data.length;
+  });
+
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, 0x02014b50, true); // central directory header
+    view.setUint16(offset + 4, 20, true); // version made by
+    view.setUint16(offset + 6, 20, true); // version needed to extract
+    view.setUint16(offset + 14, DATE, true);
+    view.setUint32(offset + 16, crc32(entry.data), true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, names[i].length, true);
+    view.setUint32(offset + 42, offsets[i], true);
+    zip.set(names[i], offset + 46);
+    offset += 46 + names[i].length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true); // end of central directory
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, localSize, true);
+  return zip;
+};
@@ -0,0 +1,44 @@
+import { SimulationConfig, WorldSnapshot } from '../simulation/simulation';
+import { CellFrame } from '../simulation/frame';
+import { GenerationStats } from '../simulation/statistics';
+import { SavedCell } from '../simulation/persistence';
+import { MigrantPolicy } from '../ga/migration';
+
+/**
+ * Number of simulation steps per frame posted by the worker, or 'max' to step for as long as the frame budget allows.
+ */
+export type WorkerSpeed = number | 'max';
+
+/**
+ * Messages the main thread sends to the simulation worker.
+ * configure - replace the simulation with a new one created from the config, the worker stays paused or running
+ * start / pause - start or stop stepping the simulation
+ * speed - change how many steps are run between frames
+ * step - run a single step, or the rest of the current generation, and post a frame
+ * hold - stop stepping once the simulation reaches the generation, until another hold moves it, null never stops
+ * emigrate - post the genomes of cells leaving for another island
+ * immigrate - replace cells with genomes arriving from other islands
+ */
+export type WorkerRequest =
+  | { type: 'configure'; config: Partial<SimulationConfig> }
+  | { type: 'start' }
+  | { type: 'pause' }
+  | { type: 'speed'; speed: WorkerSpeed }
+  | { type: 'step'; until: 'frame' | 'generation' }
+  | { type: 'hold'; generation: number | null }
+  | { type: 'emigrate'; count: number; policy: MigrantPolicy }
+  | { type: 'immigrate'; cells: SavedCell[] };
+
+/**
+ * Messages the simulation worker sends to the main thread.
+ * world - sent after every configure, with the full config including the seed that was picked
+ * frame - the cells after the latest steps, its buffers are transferred
+ * generation - statistics of every generation that evolved since the last message, and the world when goals or viruses
+ * are randomized every generation
+ * emigrants - the genomes asked for by emigrate
+ */
+export type WorkerResponse =
+  | { type: 'world'; config: SimulationConfig; world: WorldSnapshot }
+  | { type: 'frame'; frame: CellFrame }
+  | { type: 'generation'; generation: number; stats: GenerationStats[]; world?: WorldSnapshot }
+  | { type: 'emigrants'; cells: SavedCell[] };
@@ -0,0 +1,6 @@
+import { WorkerSimulation } from './worker-simulation';
+import { WorkerRequest } from './protocol';
+
+// entry point of the simulation worker, every message from the main thread is handled by a WorkerSimulation
+const worker = new WorkerSimulation((message, transfer = []) => self.postMessage(message, { transfer }));
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => worker.handle(event.data));
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { WorkerResponse } from './protocol';
+import { WorkerSimulation } from './worker-simulation';
+
+/**
+ * Returns a worker simulation and the messages it posts.
+ */
+const createWorker = () => {
+  const messages: WorkerResponse[] = [];
+  const transfers: Transferable[][] = [];
+  const worker = new WorkerSimulation((message, transfer = []) => {
+    messages.push(message);
+    transfers.push(transfer);
+  });
+  return { worker, messages, transfers };
+};
+
+describe('WorkerSimulation', () => {
+  it('should post the world and a first frame when configured', () => {
+    const { worker, messages, transfers } = createWorker();
+    worker.handle({ type: 'configure', config: { populationSize: 10, numOfViruses: 3, seed: 1 } });
+
+    expect(messages.map((message) => message.type)).toEqual(['world', 'frame']);
+    const [world, frame] = messages;
+    if (world.type !== 'world' || frame.type !== 'frame') throw new Error('unexpected messages');
+    expect(world.config.seed).toBe(1);
+    expect(world.world.viruses).toHaveLength(3);
+    expect(frame.frame.count).toBe(10);
+    expect(transfers[1]).toHaveLength(5);
+  });
+
+  it('should step a frame or a whole generation on request', () => {
+    const { worker, messages } = createWorker();
+    worker.handle({ type: 'configure', config: { populationSize: 5, energy: 20, seed: 1 } });
+    messages.length = 0;
+
+    worker.handle({ type: 'step', until: 'frame' });
+    expect(messages.map((message) => message.type)).toEqual(['frame']);
+
+    worker.handle({ type: 'step', until: 'generation' });
+    const generation = messages.find((message) => message.type === 'generation');
+    expect(generation).toMatchObject({ type: 'generation', generation: 2 });
+    if (generation?.type === 'generation') expect(generation.stats).toHaveLength(1);
+  });
+
+  it('should run the number of steps set by the speed each tick', () => {
+    const { worker } = createWorker();
+    worker.handle({ type: 'configure', config: { populationSize: 5, energy: 100, seed: 1 } });
+    worker.handle({ type: 'speed', speed: 10 });
+    worker.tick();
+    expect(worker.simulation?.population.cells[0].steps).toBe(10);
+  });
+
+  it('should only post the statistics of new generations', () => {
+    const { worker, messages } = createWorker();
+    worker.handle({ type: 'configure', config: { populationSize: 5, energy: 10, seed: 1 } });
+    worker.simulation?.runGenerations(2);
+    worker.postGenerations();
+    worker.postGenerations();
+    const generations = messages.filter((message) => message.type === 'generation');
+    expect(generations).toHaveLength(1);
+  });
+
+  it('should stop stepping at the generation it is held at until released', () => {
+    const { worker } = createWorker();
+    worker.handle({ type: 'configure', config: { populationSize: 5, energy: 10, seed: 1 } });
+    worker.handle({ type: 'hold', generation: 2 });
+    worker.handle({ type: 'speed', speed: 100 });
+    worker.tick();
+    expect(worker.simulation?.generation).toBe(2);
+    expect(worker.simulation?.population.cells[0].steps).toBe(0);
+    worker.tick();
+    expect(worker.simulation?.population.cells[0].steps).toBe(0);
+
+    worker.handle({ type: 'hold', generation: null });
+    worker.tick();
+    expect(worker.simulation?.generation).toBeGreaterThan(2);
+  });
+
+  it('should send and receive migrants', () => {
+    const source = createWorker();
+    source.worker.handle({ type: 'configure', config: { populationSize: 5, energy: 10, seed: 1 } });
+    source.worker.handle({ type: 'step', until: 'generation' });
+    source.messages.length = 0;
+    source.worker.handle({ type: 'emigrate', count: 2, policy: 'best' });
+    const [message] = source.messages;
+    if (message.type !== 'emigrants') throw new Error('unexpected message');
+    expect(message.cells).toHaveLength(2);
+
+    const destination = createWorker();
+    destination.worker.handle({ type: 'configure', config: { populationSize: 5, energy: 10, seed: 2 } });
+    destination.messages.length = 0;
+    destination.worker.handle({ type: 'immigrate', cells: message.cells });
+    expect(destination.messages.map(({ type }) => type)).toEqual(['frame']);
+    const [first] = destination.worker.simulation?.population.cells ?? [];
+    expect(first.directions.map((direction) => direction.toArray())).toEqual(message.cells[0].directions);
+  });
+});
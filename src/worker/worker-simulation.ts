@@ -0,0 +1,138 @@
+import { Simulation } from '../simulation/simulation';
+import { frameTransferables } from '../simulation/frame';
+import { emigrants, immigrate } from '../simulation/islands';
+import { WorkerRequest, WorkerResponse, WorkerSpeed } from './protocol';
+
+export type Post = (message: WorkerResponse, transfer?: Transferable[]) => void;
+
+export class WorkerSimulation {
+  simulation: Simulation | null;
+  running: boolean;
+  speed: WorkerSpeed;
+  frameBudget: number;
+  frameInterval: number;
+  holdAt: number | null;
+  post: Post;
+  private reported: number;
+  private timer: ReturnType<typeof setTimeout> | null;
+
+  /**
+   * Constructor for WorkerSimulation, runs a simulation inside a worker and answers the messages of the worker protocol.
+   * Kept separate from the worker script so it can be driven without a worker.
+   * @param post - sends a message to the main thread
+   */
+  constructor(post: Post) {
+    this.post = post;
+    this.simulation = null;
+    this.running = false;
+    this.speed = 1;
+    this.frameBudget = 30; // milliseconds spent simulating per frame when fast-forwarding
+    this.frameInterval = 16; // milliseconds between frames, roughly one per animation frame of the main thread
+    this.holdAt = null; // generation the simulation waits at, used to wait for the other islands before migrating
+    this.reported = 0; // number of generations whose statistics have been posted
+    this.timer = null;
+  }
+
+  /**
+   * Handle a message from the main thread.
+   * @param request
+   */
+  handle(request: WorkerRequest) {
+    switch (request.type) {
+      case 'configure':
+        this.simulation = new Simulation(request.config);
+        this.reported = 0;
+        this.post({ type: 'world', config: this.simulation.config, world: this.simulation.world() });
+        this.postFrame();
+        break;
+      case 'start':
+        this.running = true;
+        this.schedule();
+        break;
+      case 'pause':
+        this.running = false;
+        break;
+      case 'speed':
+        this.speed = request.speed;
+        break;
+      case 'step':
+        if (!this.simulation || this.held) return;
+        if (request.until === 'generation') this.simulation.runGeneration();
+        else this.simulation.step();
+        this.postGenerations();
+        this.postFrame();
+        break;
+      case 'hold':
+        this.holdAt = request.generation;
+        break;
+      case 'emigrate':
+        if (!this.simulation) return;
+        this.post({ type: 'emigrants', cells: emigrants(this.simulation, request.count, request.policy) });
+        break;
+      case 'immigrate':
+        if (!this.simulation) return;
+        immigrate(this.simulation, request.cells);
+        this.postFrame();
+        break;
+    }
+  }
+
+  /**
+   * Run the steps of one frame according to the speed and post the resulting frame.
+   */
+  tick() {
+    const simulation = this.simulation;
+    if (!simulation || this.held) return;
+    if (this.speed === 'max') {
+      const end = performance.now() + this.frameBudget;
+      while (performance.now() < end && !this.held) simulation.step();
+    } else {
+      for (let i = 0; i < this.speed && !this.held; i++) simulation.step();
+    }
+    this.postGenerations();
+    this.postFrame();
+  }
+
+  /**
+   * True if the simulation has reached the generation it is held at.
+   */
+  get held() {
+    return this.holdAt !== null && this.simulation !== null && this.simulation.generation >= this.holdAt;
+  }
+
+  /**
+   * Post the statistics of generations that evolved since they were last posted, with the world if it changes between
+   * generations.
+   */
+  postGenerations() {
+    const simulation = this.simulation;
+    if (!simulation || simulation.history.length === this.reported) return;
+    const stats = simulation.history.slice(this.reported);
+    this.reported = simulation.history.length;
+    const { randomizeGoals, randomizeViruses } = simulation.config;
+    const world = randomizeGoals || randomizeViruses ? simulation.world() : undefined;
+    this.post({ type: 'generation', generation: simulation.generation, stats, world });
+  }
+
+  /**
+   * Post the cells of the simulation, transferring the buffers of the frame.
+   */
+  postFrame() {
+    if (!this.simulation) return;
+    const frame = this.simulation.frame();
+    this.post({ type: 'frame', frame }, frameTransferables(frame));
+  }
+
+  /**
+   * Keep ticking while the simulation is running, does nothing if a tick is already scheduled.
+   */
+  private schedule() {
+    if (this.timer !== null) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (!this.running) return;
+      this.tick();
+      this.schedule();
+    }, this.frameInterval);
+  }
+}